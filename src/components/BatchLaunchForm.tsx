@@ -0,0 +1,176 @@
+import {
+  Form,
+  ActionPanel,
+  Action,
+  Icon,
+  showToast,
+  Toast,
+  useNavigation,
+} from "@raycast/api";
+import { useState } from "react";
+import type { LinearIssue } from "../types/linear";
+import type { RepoConfig } from "../types/preferences";
+import { getConfig, findDefaultRepo } from "../utils/preferences";
+import { startOrchestration } from "../utils/orchestration";
+import { BatchProgress } from "./BatchProgress";
+
+interface BatchLaunchFormProps {
+  /** Issues that can be picked; those in `defaultSelected` start ticked. */
+  issues: LinearIssue[];
+  defaultSelected: string[];
+}
+
+export function BatchLaunchForm({
+  issues,
+  defaultSelected,
+}: BatchLaunchFormProps) {
+  const config = getConfig();
+  const { push } = useNavigation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [selected, setSelected] = useState<string[]>(defaultSelected);
+  const [fallbackRepoName, setFallbackRepoName] = useState(
+    config.repos[0]?.name ?? "",
+  );
+
+  function routeIssue(issue: LinearIssue): RepoConfig | undefined {
+    const name = findDefaultRepo(issue.title, config.repos) ?? fallbackRepoName;
+    return config.repos.find((r) => r.name === name);
+  }
+
+  async function handleSubmit(values: {
+    issueKeys: string[];
+    extraInstructions: string;
+    mode: "plan" | "implement";
+  }) {
+    const chosen = issues.filter((i) =>
+      values.issueKeys.includes(i.identifier),
+    );
+    if (chosen.length === 0) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Select at least one issue",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    const batchId = `batch-${Date.now().toString(36)}`;
+    const failed: { issueKey: string; reason: string }[] = [];
+
+    try {
+      const fs = await import("fs/promises");
+      for (const issue of chosen) {
+        const repo = routeIssue(issue);
+        try {
+          if (!repo) throw new Error("No repository matched");
+          await fs.access(repo.localPath).catch(() => {
+            throw new Error(`Checkout not found at ${repo.localPath}`);
+          });
+          await startOrchestration({
+            issue,
+            repo,
+            baseBranch: repo.defaultBranch,
+            userInstructions: values.extraInstructions,
+            mode: values.mode,
+            batchId,
+          });
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          failed.push({ issueKey: issue.identifier, reason });
+        }
+      }
+
+      const failures = failed
+        .map((f) => `${f.issueKey}: ${f.reason}`)
+        .join("; ");
+      if (failed.length === chosen.length) {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Failed to launch batch",
+          message: failures,
+        });
+        return;
+      }
+
+      push(<BatchProgress batchId={batchId} />);
+
+      await showToast({
+        style: failed.length ? Toast.Style.Failure : Toast.Style.Animated,
+        title: `${chosen.length - failed.length} task(s) queued`,
+        message: failed.length ? `Failed: ${failures}` : undefined,
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  const routing = issues
+    .filter((i) => selected.includes(i.identifier))
+    .map((i) => `${i.identifier} → ${routeIssue(i)?.name ?? "?"}`)
+    .join("\n");
+
+  return (
+    <Form
+      isLoading={isSubmitting}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Launch Batch"
+            icon={Icon.Hammer}
+            onSubmit={handleSubmit}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TagPicker
+        id="issueKeys"
+        title="Issues"
+        value={selected}
+        onChange={setSelected}
+      >
+        {issues.map((issue) => (
+          <Form.TagPicker.Item
+            key={issue.identifier}
+            value={issue.identifier}
+            title={`${issue.identifier}: ${issue.title}`}
+          />
+        ))}
+      </Form.TagPicker>
+
+      <Form.Dropdown id="mode" title="Mode" defaultValue="implement">
+        <Form.Dropdown.Item value="implement" title="Implement" />
+        <Form.Dropdown.Item value="plan" title="Plan only" />
+      </Form.Dropdown>
+
+      <Form.Dropdown
+        id="fallbackRepoName"
+        title="Fallback Repository"
+        info="Used for issues whose title doesn't match any repo's issue prefixes"
+        value={fallbackRepoName}
+        onChange={setFallbackRepoName}
+      >
+        {config.repos.map((repo) => (
+          <Form.Dropdown.Item
+            key={repo.name}
+            value={repo.name}
+            title={repo.name}
+          />
+        ))}
+      </Form.Dropdown>
+
+      <Form.Description
+        title="Routing"
+        text={routing || "No issues selected"}
+      />
+
+      <Form.Separator />
+
+      <Form.TextArea
+        id="extraInstructions"
+        title="Extra Instructions"
+        placeholder="Shared context or instructions for every task in the batch..."
+      />
+    </Form>
+  );
+}
@@ -0,0 +1,145 @@
+import {
+  List,
+  ActionPanel,
+  Action,
+  Icon,
+  Color,
+  showToast,
+  Toast,
+  confirmAlert,
+} from "@raycast/api";
+import { useState, useEffect } from "react";
+import { getAllTasks, isTaskStalled } from "../utils/storage";
+import { cancelBatch } from "../utils/orchestration";
+import {
+  ACTIVE_TASK_STATUSES,
+  TASK_STATUS_LABELS,
+  type TaskState,
+} from "../types/storage";
+import { ExecutionProgress } from "./ExecutionProgress";
+
+interface BatchProgressProps {
+  batchId: string;
+}
+
+function statusColor(task: TaskState): Color {
+  if (isTaskStalled(task)) return Color.Red;
+  switch (task.status) {
+    case "complete":
+      return Color.Green;
+    case "plan_complete":
+      return Color.Blue;
+    case "error":
+      return Color.Red;
+    case "cancelled":
+    case "queued":
+      return Color.SecondaryText;
+    default:
+      return Color.Orange;
+  }
+}
+
+/** Live overview of every task launched together in one batch. */
+export function BatchProgress({ batchId }: BatchProgressProps) {
+  const [tasks, setTasks] = useState<TaskState[] | null>(null);
+
+  useEffect(() => {
+    async function pollTasks() {
+      const all = await getAllTasks();
+      setTasks(
+        all
+          .filter((t) => t.batchId === batchId)
+          .sort((a, b) => a.createdAt - b.createdAt),
+      );
+    }
+    pollTasks();
+    const interval = setInterval(pollTasks, 2000);
+    return () => clearInterval(interval);
+  }, [batchId]);
+
+  const totalCost = (tasks ?? []).reduce((sum, t) => sum + (t.costUsd ?? 0), 0);
+  const unfinished = (tasks ?? []).filter(
+    (t) => t.status === "queued" || ACTIVE_TASK_STATUSES.has(t.status),
+  ).length;
+
+  const batchActions = (
+    <>
+      {unfinished > 0 && (
+        <Action
+          title="Cancel Batch"
+          icon={Icon.XMarkCircle}
+          style={Action.Style.Destructive}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "x" }}
+          onAction={async () => {
+            const confirmed = await confirmAlert({
+              title: "Cancel Batch?",
+              message: `${unfinished} unfinished task(s) will be stopped.`,
+            });
+            if (!confirmed) return;
+            const count = await cancelBatch(batchId);
+            await showToast({
+              style: Toast.Style.Animated,
+              title: `Cancelling ${count} task(s)...`,
+            });
+          }}
+        />
+      )}
+      <Action.CopyToClipboard
+        title="Copy Batch Id"
+        content={batchId}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+      />
+    </>
+  );
+
+  return (
+    <List
+      isLoading={tasks === null || unfinished > 0}
+      navigationTitle={`Batch ${batchId}`}
+    >
+      <List.Section
+        title={`${tasks?.length ?? 0} task(s) · ${unfinished} unfinished`}
+        subtitle={`Total cost: $${totalCost.toFixed(2)}`}
+      >
+        {tasks?.map((task) => (
+          <List.Item
+            key={task.issueKey}
+            title={task.issueSummary}
+            subtitle={task.repoName}
+            accessories={[
+              ...(task.costUsd !== undefined
+                ? [{ text: `$${task.costUsd.toFixed(2)}` }]
+                : []),
+              {
+                tag: {
+                  value: isTaskStalled(task)
+                    ? "Stalled"
+                    : TASK_STATUS_LABELS[task.status],
+                  color: statusColor(task),
+                },
+              },
+              { text: task.issueKey },
+            ]}
+            actions={
+              <ActionPanel>
+                <Action.Push
+                  title="View Progress"
+                  icon={Icon.CircleProgress}
+                  target={<ExecutionProgress issueKey={task.issueKey} />}
+                />
+                {task.prUrl && (
+                  <Action.OpenInBrowser
+                    title="Open Pull Request"
+                    url={task.prUrl}
+                    shortcut={{ modifiers: ["cmd"], key: "o" }}
+                  />
+                )}
+                {batchActions}
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+    </List>
+  );
+}
@@ -1,43 +1,60 @@
 import {
   Form,
+  Detail,
   ActionPanel,
   Action,
   Icon,
   showToast,
   Toast,
   useNavigation,
-  launchCommand,
-  LaunchType,
 } from "@raycast/api";
 import { useState, useEffect } from "react";
+import path from "path";
 import type { LinearIssue } from "../types/linear";
-import { getConfig } from "../utils/preferences";
+import type { PromptTemplateKind, RepoConfig } from "../types/preferences";
+import type { IssueImage } from "../types/prompt";
+import { getConfig, findDefaultRepo } from "../utils/preferences";
 import { generateBranchName } from "../utils/branch-naming";
-import { getWorktreePath, getPlanFilePath } from "../services/worktree";
 import {
-  createInitialTaskState,
-  saveTask,
-  saveOrchestrationParams,
-} from "../utils/storage";
+  getPlanFilePath,
+  getWorktreePath,
+  readPlanFile,
+  readPromptTemplate,
+} from "../services/worktree";
+import { describeIssueImage, findIssueImages } from "../services/issue-images";
+import {
+  buildCrossRepoSection,
+  buildIssueImagesSection,
+  buildImplementationPrompt,
+  buildPlanPrompt,
+  buildPlanUpdatePrompt,
+} from "../utils/prompt-builder";
+import { startOrchestration } from "../utils/orchestration";
 import { ExecutionProgress } from "./ExecutionProgress";
 
+interface FormValues {
+  repoName: string;
+  baseBranch: string;
+  extraInstructions: string;
+  planModeFirst: boolean;
+  updateExistingPlan: boolean;
+  linkedRepoNames: string[];
+  /** Absent when the issue has no screenshots. */
+  imageUrls?: string[];
+}
+
 interface ContextFormProps {
   issue: LinearIssue;
   descriptionMarkdown: string;
+  /** Screenshots already toggled off in the issue view. */
+  excludedImageUrls?: string[];
 }
 
-function findDefaultRepo(
-  title: string,
-  repos: ReturnType<typeof getConfig>["repos"],
-): string | undefined {
-  const lower = title.toLowerCase();
-  const repo = repos.find((r) =>
-    r.issuePrefixes.some((p) => lower.includes(p.toLowerCase())),
-  );
-  return repo?.name;
-}
-
-export function ContextForm({ issue, descriptionMarkdown }: ContextFormProps) {
+export function ContextForm({
+  issue,
+  descriptionMarkdown,
+  excludedImageUrls = [],
+}: ContextFormProps) {
   const config = getConfig();
   const { push } = useNavigation();
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -46,6 +63,7 @@ export function ContextForm({ issue, descriptionMarkdown }: ContextFormProps) {
 
   const defaultRepo = findDefaultRepo(issue.title, config.repos);
   const contextSummary = buildContextSummary(issue, descriptionMarkdown);
+  const images = findIssueImages(issue);
 
   // Check if plan file exists when plan mode is enabled
   useEffect(() => {
@@ -69,13 +87,7 @@ export function ContextForm({ issue, descriptionMarkdown }: ContextFormProps) {
     checkPlanExists();
   }, [planModeEnabled, issue.title, issue.identifier]);
 
-  async function handleSubmit(values: {
-    repoName: string;
-    baseBranch: string;
-    extraInstructions: string;
-    planModeFirst: boolean;
-    updateExistingPlan: boolean;
-  }) {
+  async function handleSubmit(values: FormValues) {
     setIsSubmitting(true);
 
     try {
@@ -103,52 +115,34 @@ export function ContextForm({ issue, descriptionMarkdown }: ContextFormProps) {
         return;
       }
 
-      const branchName = generateBranchName(issue.title, issue.identifier);
-      const baseBranch = values.baseBranch || repo.defaultBranch;
-      const wtPath = getWorktreePath(repo.name, branchName);
-
-      // Create initial task state in file storage
-      const taskState = createInitialTaskState({
-        issueKey: issue.identifier,
-        issueSummary: issue.title,
-        issueUrl: issue.url,
-        repoName: repo.name,
-        branchName,
-        worktreePath: wtPath,
-        baseBranch,
-      });
-      await saveTask(taskState);
-
-      // Navigate to progress view
-      push(<ExecutionProgress issueKey={issue.identifier} />);
-
-      // Write orch params to file, then spawn the worker as a detached process.
-      // Each task gets its own independent process — no Raycast timeout, no
-      // singleton constraint, unlimited parallelism.
+      // Write orch params, then queue the task. Each task runs in its own
+      // detached worker process — no Raycast timeout — but only as many at
+      // once as the concurrency limits allow.
       const mode = values.planModeFirst ? "plan" : "implement";
-      await saveOrchestrationParams(issue.identifier, {
-        mode,
+      await startOrchestration({
         issue,
-        repoName: repo.name,
-        branchName,
-        baseBranch,
+        repo,
+        baseBranch: values.baseBranch || repo.defaultBranch,
         userInstructions: values.extraInstructions,
-        ...(mode === "plan" && {
-          updateExistingPlan: values.updateExistingPlan,
-        }),
-      } as import("../types/storage").OrchestrationParams);
-
-      await launchCommand({
-        name: "run-orchestration",
-        type: LaunchType.UserInitiated,
-        context: { issueKey: issue.identifier },
+        mode,
+        updateExistingPlan: values.updateExistingPlan,
+        linkedRepos: config.repos.filter(
+          (r) =>
+            r.name !== repo.name && values.linkedRepoNames.includes(r.name),
+        ),
+        excludedImageUrls: images
+          .filter((i) => !values.imageUrls?.includes(i.url))
+          .map((i) => i.url),
       });
 
+      // Navigate to progress view
+      push(<ExecutionProgress issueKey={issue.identifier} />);
+
       await showToast({
         style: Toast.Style.Animated,
         title: values.planModeFirst
-          ? "Planning started"
-          : "Implementation started",
+          ? "Planning queued"
+          : "Implementation queued",
         message: `${issue.identifier} → ${repo.name}`,
       });
     } catch (error) {
@@ -163,6 +157,31 @@ export function ContextForm({ issue, descriptionMarkdown }: ContextFormProps) {
     }
   }
 
+  async function handlePreview(values: FormValues) {
+    const repo = config.repos.find((r) => r.name === values.repoName);
+    if (!repo) return;
+
+    try {
+      const preview = await buildPromptPreview(
+        issue,
+        repo,
+        values,
+        config.repos.filter(
+          (r) =>
+            r.name !== repo.name && values.linkedRepoNames.includes(r.name),
+        ),
+      );
+      push(<PromptPreview {...preview} />);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to render prompt",
+        message,
+      });
+    }
+  }
+
   return (
     <Form
       isLoading={isSubmitting}
@@ -173,6 +192,12 @@ export function ContextForm({ issue, descriptionMarkdown }: ContextFormProps) {
             icon={Icon.Hammer}
             onSubmit={handleSubmit}
           />
+          <Action.SubmitForm
+            title="Preview Prompt"
+            icon={Icon.Eye}
+            shortcut={{ modifiers: ["cmd"], key: "p" }}
+            onSubmit={handlePreview}
+          />
         </ActionPanel>
       }
     >
@@ -195,6 +220,20 @@ export function ContextForm({ issue, descriptionMarkdown }: ContextFormProps) {
         ))}
       </Form.Dropdown>
 
+      <Form.TagPicker
+        id="linkedRepoNames"
+        title="Also Implement In"
+        info="Each extra repo gets its own worktree, Claude session and PR, briefed on what the previous repos changed. PRs link to each other."
+      >
+        {config.repos.map((repo) => (
+          <Form.TagPicker.Item
+            key={repo.name}
+            value={repo.name}
+            title={repo.name}
+          />
+        ))}
+      </Form.TagPicker>
+
       <Form.TextField
         id="baseBranch"
         title="Base Branch"
@@ -211,6 +250,26 @@ export function ContextForm({ issue, descriptionMarkdown }: ContextFormProps) {
         placeholder="Any additional context or instructions for Claude..."
       />
 
+      {images.length > 0 && (
+        <Form.TagPicker
+          id="imageUrls"
+          title="Attach Screenshots"
+          info="Screenshots from the issue sent to Claude as images. Remove any that would only add noise."
+          defaultValue={images
+            .filter((i) => !excludedImageUrls.includes(i.url))
+            .map((i) => i.url)}
+        >
+          {images.map((image) => (
+            <Form.TagPicker.Item
+              key={image.url}
+              value={image.url}
+              title={describeIssueImage(image)}
+              icon={Icon.Image}
+            />
+          ))}
+        </Form.TagPicker>
+      )}
+
       <Form.Checkbox
         id="planModeFirst"
         label="Plan Mode first"
@@ -229,6 +288,14 @@ export function ContextForm({ issue, descriptionMarkdown }: ContextFormProps) {
   );
 }
 
+/** The issue's screenshots still selected in the form. */
+function includedImages(
+  images: IssueImage[],
+  values: FormValues,
+): IssueImage[] {
+  return images.filter((i) => values.imageUrls?.includes(i.url) ?? true);
+}
+
 function buildContextSummary(
   issue: LinearIssue,
   descriptionMd: string,
@@ -243,3 +310,112 @@ function buildContextSummary(
   }
   return parts.join("\n");
 }
+
+/**
+ * Render the prompt the launch would start with. Templates are read from the
+ * repo's checkout, since the worktree doesn't exist yet, and Figma context is
+ * only fetched at launch. Screenshots are listed but not downloaded.
+ */
+async function buildPromptPreview(
+  issue: LinearIssue,
+  repo: RepoConfig,
+  values: FormValues,
+  linkedRepos: RepoConfig[],
+): Promise<{
+  prompt: string;
+  templateKind: PromptTemplateKind;
+  usesRepoTemplate: boolean;
+}> {
+  const branchName = generateBranchName(issue.title, issue.identifier);
+  const ctx = {
+    issue,
+    descriptionMarkdown: issue.description ?? "",
+    userInstructions: values.extraInstructions,
+    repoName: repo.name,
+    baseBranch: values.baseBranch || repo.defaultBranch,
+    attachmentsContext: buildIssueImagesSection(
+      includedImages(findIssueImages(issue), values),
+    ),
+  };
+  const planFilePath = path.join(
+    getWorktreePath(repo.name, branchName),
+    ".autozerts-plan.md",
+  );
+  const existingPlan = await readPlanFile(branchName);
+
+  if (values.planModeFirst) {
+    if (values.updateExistingPlan && existingPlan) {
+      const template = await readPromptTemplate(
+        repo,
+        "plan-update",
+        repo.localPath,
+      );
+      return {
+        prompt: buildPlanUpdatePrompt({
+          ...ctx,
+          planFilePath,
+          existingPlan,
+          template,
+        }),
+        templateKind: "plan-update",
+        usesRepoTemplate: Boolean(template),
+      };
+    }
+    const template = await readPromptTemplate(repo, "plan", repo.localPath);
+    return {
+      prompt: buildPlanPrompt({ ...ctx, planFilePath, template }),
+      templateKind: "plan",
+      usesRepoTemplate: Boolean(template),
+    };
+  }
+
+  const template = await readPromptTemplate(repo, "implement", repo.localPath);
+  return {
+    prompt: buildImplementationPrompt({
+      ...ctx,
+      plan: existingPlan,
+      template,
+      crossRepoContext:
+        linkedRepos.length > 0
+          ? buildCrossRepoSection({
+              currentRepo: repo.name,
+              laterRepos: linkedRepos.map((r) => r.name),
+              completed: [],
+            })
+          : undefined,
+    }),
+    templateKind: "implement",
+    usesRepoTemplate: Boolean(template),
+  };
+}
+
+function PromptPreview(props: {
+  prompt: string;
+  templateKind: PromptTemplateKind;
+  usesRepoTemplate: boolean;
+}) {
+  return (
+    <Detail
+      navigationTitle="Prompt Preview"
+      markdown={props.prompt}
+      metadata={
+        <Detail.Metadata>
+          <Detail.Metadata.Label title="Prompt" text={props.templateKind} />
+          <Detail.Metadata.Label
+            title="Template"
+            text={props.usesRepoTemplate ? "Repository" : "Built-in"}
+          />
+          <Detail.Metadata.Label
+            title="Length"
+            text={`${props.prompt.length.toLocaleString()} chars`}
+          />
+        </Detail.Metadata>
+      }
+      actions={
+        <ActionPanel>
+          <Action.CopyToClipboard title="Copy Prompt" content={props.prompt} />
+        </ActionPanel>
+      }
+    />
+  );
+}
@@ -6,23 +6,50 @@ import {
   Color,
   showToast,
   Toast,
-  launchCommand,
-  LaunchType,
 } from "@raycast/api";
 import { useState, useEffect, useRef, useMemo } from "react";
 import equal from "fast-deep-equal";
 import {
   getTask,
   requestCancellation,
+  updateTaskStatus,
+  appendProgressLog,
+  isTaskStalled,
+  getQueue,
+  getTelemetry,
   sanitizeUnicode,
 } from "../utils/storage";
+import {
+  enqueueOrchestration,
+  moveQueuedTask,
+  removeQueuedTask,
+} from "../utils/orchestration";
 import {
   TASK_STATUS_LABELS,
+  type FeedbackOutcome,
+  type ModelAttempt,
+  type RunTelemetry,
+  type SelfReviewResult,
   type TaskState,
   type TaskStatus,
 } from "../types/storage";
+import {
+  sumTokens,
+  summariseByPhase,
+  summariseByTool,
+  formatTokenCount,
+  formatDuration,
+} from "../utils/telemetry";
+import { describeFeedbackComment } from "../utils/feedback-report";
+import { describeReviewFinding } from "../utils/self-review";
 import { getPlanFilePath } from "../services/worktree";
+import { getConfig } from "../utils/preferences";
 import { PlanFeedbackForm } from "./PlanFeedbackForm";
+import { RaiseBudgetForm } from "./RaiseBudgetForm";
+import { SteeringMessageForm } from "./SteeringMessageForm";
+import { ResumeTaskAction } from "./ResumeTaskAction";
+import { BatchProgress } from "./BatchProgress";
+import { TranscriptList } from "./TranscriptView";
 
 interface ExecutionProgressProps {
   issueKey: string;
@@ -42,6 +69,8 @@ const IMPL_STATUS_ORDER: TaskStatus[] = [
   "dependencies_installed",
   "implementing",
   "implementation_complete",
+  "verifying",
+  "self_reviewing",
   "pushing",
   "pr_created",
   "complete",
@@ -55,6 +84,8 @@ const PLAN_THEN_IMPL_STATUS_ORDER: TaskStatus[] = [
   "plan_complete",
   "implementing",
   "implementation_complete",
+  "verifying",
+  "self_reviewing",
   "pushing",
   "pr_created",
   "complete",
@@ -62,7 +93,9 @@ const PLAN_THEN_IMPL_STATUS_ORDER: TaskStatus[] = [
 
 function getStatusOrder(task: TaskState): TaskStatus[] {
   const isPlanPhase =
-    task.status === "planning" || task.status === "plan_complete";
+    task.status === "planning" ||
+    task.status === "plan_complete" ||
+    (task.status === "budget_exceeded" && task.budgetExceededPhase === "plan");
   const hasPassedPlan = task.progressLog.some((l) =>
     l.includes("Plan complete"),
   );
@@ -78,20 +111,73 @@ interface StepInfo {
   color: Color;
 }
 
-function getProgressSteps(task: TaskState): StepInfo[] {
-  const isFeedback = task.status === "feedback_implementing";
-  if (isFeedback) {
+const BUDGET_EXCEEDED_STEP: StepInfo = {
+  label: TASK_STATUS_LABELS.budget_exceeded,
+  icon: Icon.Coins,
+  color: Color.Orange,
+};
+
+function getProgressSteps(task: TaskState, isStalled: boolean): StepInfo[] {
+  if (task.status === "queued") {
+    return [
+      {
+        label: "Waiting for a free worker",
+        icon: Icon.Clock,
+        color: Color.SecondaryText,
+      },
+    ];
+  }
+
+  const isBudgetExceeded = task.status === "budget_exceeded";
+  // Rounds on an existing PR are a single Claude step
+  const prRoundStatus =
+    task.status === "feedback_implementing" ||
+    (isBudgetExceeded && task.budgetExceededPhase === "feedback")
+      ? "feedback_implementing"
+      : task.status === "fixing_ci" ||
+          (isBudgetExceeded && task.budgetExceededPhase === "fix_ci")
+        ? "fixing_ci"
+        : task.status === "resolving_conflicts" ||
+            task.status === "conflict" ||
+            (isBudgetExceeded &&
+              task.budgetExceededPhase === "resolve_conflicts")
+          ? "resolving_conflicts"
+          : null;
+  if (prRoundStatus) {
+    const isConflict = task.status === "conflict";
     return [
       {
-        label: "Implementing Feedback",
-        icon: Icon.CircleProgress,
-        color: Color.Orange,
+        label: TASK_STATUS_LABELS[prRoundStatus],
+        icon:
+          isStalled || isConflict
+            ? Icon.Warning
+            : isBudgetExceeded
+              ? Icon.Coins
+              : Icon.CircleProgress,
+        color: isStalled || isConflict ? Color.Red : Color.Orange,
       },
+      ...(isConflict
+        ? [
+            {
+              label: TASK_STATUS_LABELS.conflict,
+              icon: Icon.XMarkCircle,
+              color: Color.Red,
+            },
+          ]
+        : []),
+      ...(isBudgetExceeded ? [BUDGET_EXCEEDED_STEP] : []),
     ];
   }
 
   const statusOrder = getStatusOrder(task);
-  const currentIndex = statusOrder.indexOf(task.status);
+  // A parked task stopped inside its Claude step — show that step as current
+  const currentIndex = isBudgetExceeded
+    ? statusOrder.indexOf(
+        task.budgetExceededPhase === "plan" ? "planning" : "implementing",
+      )
+    : task.status === "fixing_verification"
+      ? statusOrder.indexOf("verifying")
+      : statusOrder.indexOf(task.status);
   const isError = task.status === "error";
   const isCancelled = task.status === "cancelled";
 
@@ -122,19 +208,40 @@ function getProgressSteps(task: TaskState): StepInfo[] {
     } else if (stepIndex < currentIndex) {
       icon = Icon.Checkmark;
       color = Color.Green;
+    } else if (stepIndex === currentIndex && isStalled) {
+      icon = Icon.Warning;
+      color = Color.Red;
     } else if (stepIndex === currentIndex) {
-      icon = Icon.CircleProgress;
+      icon = isBudgetExceeded ? Icon.Coins : Icon.CircleProgress;
       color = Color.Orange;
     } else {
       icon = Icon.Circle;
       color = Color.SecondaryText;
     }
 
+    if (step === "verifying") {
+      // Verification only appears once it has run, one step per attempt
+      if (task.verification) {
+        steps.push(...getVerificationSteps(task, { icon, color, label }));
+      }
+      continue;
+    }
+    // Only repos with selfReview on have a review stage
+    if (
+      step === "self_reviewing" &&
+      !task.selfReview &&
+      task.status !== "self_reviewing"
+    ) {
+      continue;
+    }
+
     steps.push({ label, icon, color });
   }
 
   if (isError) {
     steps.push({ label: "Error", icon: Icon.XMarkCircle, color: Color.Red });
+  } else if (isBudgetExceeded) {
+    steps.push(BUDGET_EXCEEDED_STEP);
   } else if (isCancelled) {
     steps.push({
       label: "Cancelled",
@@ -146,17 +253,93 @@ function getProgressSteps(task: TaskState): StepInfo[] {
   return steps;
 }
 
+/**
+ * Expand the verification stage into one step per check run and fix-up round.
+ * `stage` is how the stage as a whole would have been drawn.
+ */
+function getVerificationSteps(task: TaskState, stage: StepInfo): StepInfo[] {
+  const attempts = task.verification?.attempts ?? [];
+  const steps: StepInfo[] = [];
+
+  attempts.forEach((attempt, index) => {
+    const failed = attempt.checks.filter((c) => !c.passed).map((c) => c.name);
+    steps.push({
+      label: attempt.passed
+        ? `Verification ${attempt.attempt}: passed`
+        : `Verification ${attempt.attempt}: failed (${failed.join(", ")})`,
+      icon: attempt.passed ? Icon.Checkmark : Icon.XMarkCircle,
+      color: attempt.passed ? Color.Green : Color.Red,
+    });
+    // A fix-up round sits between each failed attempt and the next one
+    if (index < attempts.length - 1) {
+      steps.push({
+        label: `Fix-up ${attempt.attempt}`,
+        icon: Icon.Checkmark,
+        color: Color.Green,
+      });
+    }
+  });
+
+  if (task.status === "fixing_verification") {
+    steps.push({
+      label: `Fix-up ${attempts.length}`,
+      icon: stage.icon,
+      color: stage.color,
+    });
+  } else if (
+    task.status === "verifying" &&
+    !attempts[attempts.length - 1]?.passed
+  ) {
+    steps.push({ ...stage, label: `Verification ${attempts.length + 1}` });
+  }
+
+  return steps;
+}
+
 export function ExecutionProgress({ issueKey }: ExecutionProgressProps) {
   const [task, setTask] = useState<TaskState | null>(null);
   const [planFilePath, setPlanFilePath] = useState<string | null>(null);
+  const [isStalled, setIsStalled] = useState(false);
+  const [queuePosition, setQueuePosition] = useState<{
+    index: number;
+    total: number;
+  } | null>(null);
+  const [telemetry, setTelemetry] = useState<RunTelemetry[]>([]);
   const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const taskRef = useRef<TaskState | null>(null);
+  const telemetryRef = useRef<RunTelemetry[]>([]);
 
   useEffect(() => {
+    async function refreshQueuePosition(t: TaskState | null) {
+      if (t?.status !== "queued") {
+        setQueuePosition(null);
+        return;
+      }
+      const queue = await getQueue();
+      const index = queue.findIndex((e) => e.issueKey === issueKey);
+      setQueuePosition((prev) =>
+        prev?.index === index && prev.total === queue.length
+          ? prev
+          : { index, total: queue.length },
+      );
+    }
+
+    // Runs are only ever appended, so a count change means there's a new one
+    async function refreshTelemetry() {
+      const runs = await getTelemetry(issueKey);
+      if (runs.length !== telemetryRef.current.length) {
+        telemetryRef.current = runs;
+        setTelemetry(runs);
+      }
+    }
+
     // Initial fetch
+    refreshTelemetry();
     getTask(issueKey).then(async (t) => {
       taskRef.current = t;
       setTask(t);
+      setIsStalled(t ? isTaskStalled(t) : false);
+      await refreshQueuePosition(t);
       if (t) {
         const fs = await import("fs/promises");
         const path = getPlanFilePath(t.branchName);
@@ -176,6 +359,10 @@ export function ExecutionProgress({ issueKey }: ExecutionProgressProps) {
         taskRef.current = updated;
         setTask(updated);
       }
+      // Re-check every tick: a dead worker produces no updates at all
+      setIsStalled(updated ? isTaskStalled(updated) : false);
+      await refreshQueuePosition(updated);
+      await refreshTelemetry();
     }, 1000);
 
     return () => {
@@ -184,11 +371,18 @@ export function ExecutionProgress({ issueKey }: ExecutionProgressProps) {
   }, [issueKey]);
 
   const isTerminal = task
-    ? ["complete", "error", "cancelled", "plan_complete"].includes(task.status)
+    ? [
+        "complete",
+        "error",
+        "cancelled",
+        "plan_complete",
+        "budget_exceeded",
+        "conflict",
+      ].includes(task.status)
     : false;
   const markdown = useMemo(
-    () => (task ? buildProgressMarkdown(task) : null),
-    [task],
+    () => (task ? buildProgressMarkdown(task, telemetry) : null),
+    [task, telemetry],
   );
 
   if (!task) {
@@ -197,7 +391,7 @@ export function ExecutionProgress({ issueKey }: ExecutionProgressProps) {
 
   return (
     <Detail
-      isLoading={!isTerminal}
+      isLoading={!isTerminal && !isStalled}
       markdown={markdown}
       metadata={
         <Detail.Metadata>
@@ -208,6 +402,9 @@ export function ExecutionProgress({ issueKey }: ExecutionProgressProps) {
           <Detail.Metadata.Label title="Repository" text={task.repoName} />
           <Detail.Metadata.Label title="Branch" text={task.branchName} />
           <Detail.Metadata.TagList title="Status">
+            {isStalled && (
+              <Detail.Metadata.TagList.Item text="Stalled" color={Color.Red} />
+            )}
             <Detail.Metadata.TagList.Item
               text={TASK_STATUS_LABELS[task.status]}
               color={
@@ -215,11 +412,13 @@ export function ExecutionProgress({ issueKey }: ExecutionProgressProps) {
                   ? Color.Green
                   : task.status === "plan_complete"
                     ? Color.Blue
-                    : task.status === "error"
+                    : task.status === "error" || task.status === "conflict"
                       ? Color.Red
                       : task.status === "cancelled"
                         ? Color.SecondaryText
-                        : Color.Yellow
+                        : task.status === "budget_exceeded"
+                          ? Color.Orange
+                          : Color.Yellow
               }
             />
           </Detail.Metadata.TagList>
@@ -229,6 +428,19 @@ export function ExecutionProgress({ issueKey }: ExecutionProgressProps) {
               text={`$${task.costUsd.toFixed(2)}`}
             />
           )}
+          {task.batchId && (
+            <Detail.Metadata.Label title="Batch" text={task.batchId} />
+          )}
+          {queuePosition && queuePosition.index >= 0 && (
+            <Detail.Metadata.Label
+              title="Queue Position"
+              text={`${queuePosition.index + 1} of ${queuePosition.total}`}
+            />
+          )}
+          <Detail.Metadata.Label
+            title="Budget"
+            text={`$${(task.budgetUsd ?? getConfig().claudeMaxBudgetUsd).toFixed(2)}`}
+          />
           <Detail.Metadata.Label
             title="Started"
             text={new Date(task.createdAt).toLocaleTimeString()}
@@ -241,13 +453,29 @@ export function ExecutionProgress({ issueKey }: ExecutionProgressProps) {
               text="Open PR"
             />
           )}
+          {task.linkedRepos?.map((linked) =>
+            linked.prUrl ? (
+              <Detail.Metadata.Link
+                key={linked.repoName}
+                title={`PR (${linked.repoName})`}
+                target={linked.prUrl}
+                text="Open PR"
+              />
+            ) : (
+              <Detail.Metadata.Label
+                key={linked.repoName}
+                title="Linked Repo"
+                text={linked.repoName}
+              />
+            ),
+          )}
           <Detail.Metadata.Link
             title="Linear"
             target={task.issueUrl}
             text="Open in browser"
           />
           <Detail.Metadata.Separator />
-          {getProgressSteps(task).map((step, index) => (
+          {getProgressSteps(task, isStalled).map((step, index) => (
             <Detail.Metadata.Label
               key={index}
               title=""
@@ -266,14 +494,10 @@ export function ExecutionProgress({ issueKey }: ExecutionProgressProps) {
                 icon={Icon.Hammer}
                 shortcut={{ modifiers: ["cmd"], key: "return" }}
                 onAction={async () => {
-                  await launchCommand({
-                    name: "run-orchestration",
-                    type: LaunchType.UserInitiated,
-                    context: { issueKey },
-                  });
+                  await enqueueOrchestration(task);
                   await showToast({
                     style: Toast.Style.Animated,
-                    title: "Implementation started...",
+                    title: "Implementation queued",
                   });
                 }}
               />
@@ -292,6 +516,14 @@ export function ExecutionProgress({ issueKey }: ExecutionProgressProps) {
               )}
             </>
           )}
+          {task.status === "budget_exceeded" && (
+            <Action.Push
+              title="Raise Budget & Resume Session"
+              icon={Icon.Coins}
+              shortcut={{ modifiers: ["cmd"], key: "return" }}
+              target={<RaiseBudgetForm task={task} />}
+            />
+          )}
           {planFilePath && task.status !== "plan_complete" && (
             <Action.Open
               title="Open Plan in VS Code"
@@ -300,13 +532,69 @@ export function ExecutionProgress({ issueKey }: ExecutionProgressProps) {
               application="Code"
             />
           )}
-          {!isTerminal && (
+          {isStalled && <ResumeTaskAction task={task} />}
+          {task.batchId && (
+            <Action.Push
+              title="View Batch"
+              icon={Icon.Layers}
+              shortcut={{ modifiers: ["cmd"], key: "b" }}
+              target={<BatchProgress batchId={task.batchId} />}
+            />
+          )}
+          {task.status === "queued" && (
+            <>
+              <Action
+                title="Move up in Queue"
+                icon={Icon.ArrowUp}
+                shortcut={{ modifiers: ["cmd", "opt"], key: "arrowUp" }}
+                onAction={() => moveQueuedTask(issueKey, -1)}
+              />
+              <Action
+                title="Move Down in Queue"
+                icon={Icon.ArrowDown}
+                shortcut={{ modifiers: ["cmd", "opt"], key: "arrowDown" }}
+                onAction={() => moveQueuedTask(issueKey, 1)}
+              />
+              <Action
+                title="Remove from Queue"
+                icon={Icon.XMarkCircle}
+                style={Action.Style.Destructive}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "x" }}
+                onAction={async () => {
+                  await removeQueuedTask(issueKey);
+                  await showToast({
+                    style: Toast.Style.Success,
+                    title: "Removed from queue",
+                  });
+                }}
+              />
+            </>
+          )}
+          {!isTerminal && !isStalled && task.status !== "queued" && (
+            <Action.Push
+              title="Send Message to Claude"
+              icon={Icon.Message}
+              shortcut={{ modifiers: ["cmd"], key: "m" }}
+              target={<SteeringMessageForm task={task} />}
+            />
+          )}
+          {!isTerminal && task.status !== "queued" && (
             <Action
               title="Cancel Task"
               icon={Icon.XMarkCircle}
               style={Action.Style.Destructive}
               shortcut={{ modifiers: ["cmd", "shift"], key: "x" }}
               onAction={async () => {
+                if (isStalled) {
+                  // No worker is left to honour a cancellation request
+                  await updateTaskStatus(issueKey, "cancelled");
+                  await appendProgressLog(issueKey, "Task cancelled by user");
+                  await showToast({
+                    style: Toast.Style.Success,
+                    title: "Task cancelled",
+                  });
+                  return;
+                }
                 await requestCancellation(issueKey);
                 await showToast({
                   style: Toast.Style.Animated,
@@ -315,13 +603,14 @@ export function ExecutionProgress({ issueKey }: ExecutionProgressProps) {
               }}
             />
           )}
-          {task.status === "error" && task.error && (
-            <Action.CopyToClipboard
-              title="Copy Error"
-              content={task.error}
-              icon={Icon.Bug}
-            />
-          )}
+          {(task.status === "error" || task.status === "conflict") &&
+            task.error && (
+              <Action.CopyToClipboard
+                title="Copy Error"
+                content={task.error}
+                icon={Icon.Bug}
+              />
+            )}
           {task.prUrl && (
             <Action.OpenInBrowser
               title="Open Pull Request"
@@ -357,6 +646,14 @@ export function ExecutionProgress({ issueKey }: ExecutionProgressProps) {
             content={task.worktreePath}
             shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
           />
+          {getConfig().logFilesPath && (
+            <Action.Push
+              title="View Session Transcripts"
+              icon={Icon.Document}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "t" }}
+              target={<TranscriptList issueKey={issueKey} />}
+            />
+          )}
           <Action.CopyToClipboard
             title="Copy Full Log"
             content={task.progressLog.join("\n")}
@@ -368,20 +665,40 @@ export function ExecutionProgress({ issueKey }: ExecutionProgressProps) {
   );
 }
 
-function buildProgressMarkdown(task: TaskState): string {
+function buildProgressMarkdown(
+  task: TaskState,
+  telemetry: RunTelemetry[],
+): string {
   const sections: string[] = [];
 
   sections.push(`# ${task.issueKey}: ${task.issueSummary}`);
   sections.push("");
 
   // Error message
-  if (task.status === "error" && task.error) {
+  if (task.status === "conflict" && task.error) {
+    sections.push("## Merge Conflict");
+    sections.push("");
+    sections.push(task.error);
+    sections.push("");
+  } else if (task.status === "error" && task.error) {
     sections.push("## Error");
     sections.push("");
     sections.push(`\`\`\`\n${task.error}\n\`\`\``);
     sections.push("");
   }
 
+  if (task.feedbackOutcomes?.length) {
+    sections.push(...buildFeedbackOutcomesMarkdown(task.feedbackOutcomes));
+  }
+
+  if (task.selfReview) {
+    sections.push(...buildSelfReviewMarkdown(task.selfReview));
+  }
+
+  if (telemetry.length > 0) {
+    sections.push(...buildTelemetryMarkdown(telemetry, task.modelAttempts));
+  }
+
   // Full activity log with formatting by entry type
   if (task.progressLog.length > 0) {
     sections.push("## Activity Log");
@@ -404,6 +721,125 @@ function buildProgressMarkdown(task: TaskState): string {
   return sanitizeUnicode(sections.join("\n"));
 }
 
+/** What the last feedback round did about each picked review comment. */
+function buildFeedbackOutcomesMarkdown(outcomes: FeedbackOutcome[]): string[] {
+  const sections: string[] = [];
+  const byStatus = (status: FeedbackOutcome["status"]) =>
+    outcomes.filter((o) => o.status === status);
+
+  const notAddressed = [...byStatus("skipped"), ...byStatus("unreported")];
+  if (notAddressed.length > 0) {
+    sections.push("## Review Comments Not Addressed");
+    sections.push("");
+    for (const { comment, status, note } of notAddressed) {
+      sections.push(
+        `- **${comment.ref}** ${describeFeedbackComment(comment)}: ${status === "skipped" ? note : "*not mentioned in Claude's report*"}`,
+      );
+    }
+    sections.push("");
+  }
+
+  const addressed = byStatus("addressed");
+  if (addressed.length > 0) {
+    sections.push("## Review Comments Addressed");
+    sections.push("");
+    for (const { comment, note } of addressed) {
+      sections.push(
+        `- **${comment.ref}** ${describeFeedbackComment(comment)}: ${note}`,
+      );
+    }
+    sections.push("");
+  }
+
+  return sections;
+}
+
+/** What the pre-PR review found, blocking findings first. */
+function buildSelfReviewMarkdown(review: SelfReviewResult): string[] {
+  const sections: string[] = ["## Self-Review", ""];
+  if (review.findings.length === 0) {
+    sections.push("No findings.");
+    sections.push("");
+    return sections;
+  }
+
+  const ordered = [...review.findings].sort(
+    (a, b) => Number(b.blocking) - Number(a.blocking),
+  );
+  for (const finding of ordered) {
+    sections.push(
+      `- ${finding.blocking ? "`BLOCKING` " : ""}${describeReviewFinding(finding)}`,
+    );
+  }
+  if (review.fixesRequested) {
+    sections.push("");
+    sections.push("*Blocking findings were sent back to Claude to fix.*");
+  }
+  sections.push("");
+  return sections;
+}
+
+/**
+ * Summary tables of where a task's Claude runs spent their tokens, time and
+ * money: totals per phase, each run, tool calls by tool, and which models the
+ * main sessions ran on.
+ */
+function buildTelemetryMarkdown(
+  runs: RunTelemetry[],
+  modelAttempts: ModelAttempt[] = [],
+): string[] {
+  const sections: string[] = [];
+
+  sections.push("## Telemetry");
+  sections.push("");
+  sections.push(
+    "| Phase | Runs | Turns | Input | Output | Cache Read | Cache Write | Cost |",
+  );
+  sections.push("|---|--:|--:|--:|--:|--:|--:|--:|");
+  for (const p of summariseByPhase(runs)) {
+    sections.push(
+      `| ${p.phase} | ${p.runs} | ${p.turns} | ${formatTokenCount(p.inputTokens)} | ${formatTokenCount(p.outputTokens)} | ${formatTokenCount(p.cacheReadTokens)} | ${formatTokenCount(p.cacheCreationTokens)} | $${p.costUsd.toFixed(2)} |`,
+    );
+  }
+  sections.push("");
+
+  sections.push(
+    "| Run | Repo | Turns | Output | Tool Calls | Duration | Outcome | Cost |",
+  );
+  sections.push("|---|---|--:|--:|--:|--:|---|--:|");
+  for (const run of runs) {
+    sections.push(
+      `| ${run.label} | ${run.repoName} | ${run.turns.length} | ${formatTokenCount(sumTokens(run.turns).outputTokens)} | ${run.toolCalls.length} | ${formatDuration(run.durationMs)} | ${run.outcome.replace("_", " ")} | $${run.costUsd.toFixed(2)} |`,
+    );
+  }
+  sections.push("");
+
+  const tools = summariseByTool(runs);
+  if (tools.length > 0) {
+    sections.push("| Tool | Calls | Errors | Total Time | Slowest |");
+    sections.push("|---|--:|--:|--:|--:|");
+    for (const t of tools) {
+      sections.push(
+        `| ${t.tool} | ${t.calls} | ${t.errors} | ${formatDuration(t.totalMs)} | ${formatDuration(t.slowestMs)} |`,
+      );
+    }
+    sections.push("");
+  }
+
+  if (modelAttempts.length > 0) {
+    sections.push("| Phase | Repo | Model | Why | Outcome | Cost |");
+    sections.push("|---|---|---|---|---|--:|");
+    for (const a of modelAttempts) {
+      sections.push(
+        `| ${a.phase} | ${a.repoName} | ${a.model} | ${a.reason} | ${a.outcome.replace("_", " ")} | $${a.costUsd.toFixed(2)} |`,
+      );
+    }
+    sections.push("");
+  }
+
+  return sections;
+}
+
 /**
  * Format a log entry for markdown display.
  * Entries are tagged with brackets: [claude], [read], [edit], [bash], etc.
@@ -470,6 +906,18 @@ function formatLogEntry(entry: string): string {
     case "result":
       return `- \`${timestamp}\` **Result:** ${content}`;
 
+    case "budget":
+      return `- \`${timestamp}\` **Budget:** ${content}`;
+
+    case "model":
+      return `- \`${timestamp}\` **Model:** ${content}`;
+
+    case "denied":
+      return `- \`${timestamp}\` **Denied:** ${content}`;
+
+    case "steer":
+      return `- \`${timestamp}\` **You:** ${content}`;
+
     default:
       return `- \`${timestamp}\` [${tag}] ${content}`;
   }
@@ -6,8 +6,6 @@ import {
   showToast,
   Toast,
   useNavigation,
-  launchCommand,
-  LaunchType,
 } from "@raycast/api";
 import { useState } from "react";
 import { usePromise } from "@raycast/utils";
@@ -15,11 +13,12 @@ import type {
   GitHubPullRequest,
   GitHubReview,
   GitHubComment,
+  GitHubReviewThread,
 } from "../types/github";
-import type { TaskState } from "../types/storage";
+import type { FeedbackComment, TaskState } from "../types/storage";
 import { getConfig } from "../utils/preferences";
+import { describeFeedbackComment } from "../utils/feedback-report";
 import {
-  getTask,
   saveOrchestrationParams,
   updateTaskStatus,
   appendProgressLog,
@@ -28,11 +27,16 @@ import {
   parseRepoFullName,
   fetchReviews,
   fetchPRComments,
-  fetchReviewComments,
+  fetchReviewThreads,
   fetchPRCommits,
   getLastCommitDate,
+  getUnresolvedThreads,
   isBotUser,
 } from "../services/github";
+import {
+  enqueueOrchestration,
+  getPullRequestTask,
+} from "../utils/orchestration";
 import { ExecutionProgress } from "./ExecutionProgress";
 
 interface FeedbackFormProps {
@@ -41,73 +45,74 @@ interface FeedbackFormProps {
   lastCommitDate?: string | null;
 }
 
-interface NewCommentItem {
-  type: "review" | "inline" | "comment";
-  user: string;
-  body: string;
-  location?: string;
-  state?: string;
-}
-
-function collectNewComments(
+/**
+ * Reviewer feedback still open, each pickable on its own: every unresolved
+ * inline thread (with all its messages), plus the review summaries and
+ * conversation comments left since the last commit, which GitHub has no
+ * resolved state for. The PR author's own reviews, like the pre-PR
+ * self-review, aren't feedback to act on.
+ */
+function collectOpenComments(
+  prAuthor: string,
   lastCommitDate: string | null,
   comments: GitHubComment[],
-  reviewComments: GitHubComment[],
+  threads: GitHubReviewThread[],
   reviews: GitHubReview[],
-): NewCommentItem[] {
-  if (!lastCommitDate) return [];
-  const cutoff = new Date(lastCommitDate).getTime();
-  const items: NewCommentItem[] = [];
+): FeedbackComment[] {
+  const cutoff = lastCommitDate ? new Date(lastCommitDate).getTime() : null;
+  const isNew = (login: string, date: string) =>
+    cutoff !== null && !isBotUser(login) && new Date(date).getTime() > cutoff;
+  const items: Omit<FeedbackComment, "ref">[] = [];
 
   for (const r of reviews) {
     if (
-      !isBotUser(r.user.login) &&
       r.body &&
-      new Date(r.submitted_at).getTime() > cutoff
+      r.user.login !== prAuthor &&
+      isNew(r.user.login, r.submitted_at)
     ) {
       items.push({
-        type: "review",
-        user: r.user.login,
+        kind: "review",
+        id: r.id,
+        author: r.user.login,
         body: r.body,
         state: r.state,
       });
     }
   }
-  for (const c of reviewComments) {
-    if (!isBotUser(c.user.login) && new Date(c.created_at).getTime() > cutoff) {
-      const location = c.path
-        ? `${c.path}${c.line ? `:${c.line}` : ""}`
-        : undefined;
+
+  for (const thread of getUnresolvedThreads(threads)) {
+    const [root] = thread.comments;
+    items.push({
+      kind: "thread",
+      id: root.databaseId,
+      threadId: thread.id,
+      author: root.author,
+      body:
+        thread.comments.length === 1
+          ? root.body
+          : thread.comments.map((c) => `@${c.author}: ${c.body}`).join("\n\n"),
+      path: thread.path,
+      line: thread.line ?? undefined,
+      outdated: thread.isOutdated,
+    });
+  }
+
+  for (const c of comments) {
+    if (isNew(c.user.login, c.created_at)) {
       items.push({
-        type: "inline",
-        user: c.user.login,
+        kind: "comment",
+        id: c.id,
+        author: c.user.login,
         body: c.body,
-        location,
       });
     }
   }
-  for (const c of comments) {
-    if (!isBotUser(c.user.login) && new Date(c.created_at).getTime() > cutoff) {
-      items.push({ type: "comment", user: c.user.login, body: c.body });
-    }
-  }
 
-  return items;
+  return items.map((item, index) => ({ ...item, ref: `C${index + 1}` }));
 }
 
-function buildNewCommentsContext(items: NewCommentItem[]): string | undefined {
-  if (items.length === 0) return undefined;
-  const lines = items.map((item) => {
-    if (item.type === "review") {
-      return `[Review by ${item.user} — ${item.state}]: ${item.body}`;
-    } else if (item.type === "inline") {
-      const loc = item.location ? ` (${item.location})` : "";
-      return `[Inline comment by ${item.user}${loc}]: ${item.body}`;
-    } else {
-      return `[Comment by ${item.user}]: ${item.body}`;
-    }
-  });
-  return lines.join("\n\n");
+function excerpt(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length)}...` : text;
 }
 
 export function FeedbackForm({
@@ -122,40 +127,42 @@ export function FeedbackForm({
     pr.base.repo.full_name,
   );
 
-  const { data: newCommentsData } = usePromise(async () => {
-    const [reviews, comments, reviewComments, commits] = await Promise.all([
+  const { data: openCommentsData } = usePromise(async () => {
+    const [reviews, comments, threads, commits] = await Promise.all([
       fetchReviews(prOwner, prRepo, pr.number),
       fetchPRComments(prOwner, prRepo, pr.number),
-      fetchReviewComments(prOwner, prRepo, pr.number),
+      fetchReviewThreads(prOwner, prRepo, pr.number),
       fetchPRCommits(prOwner, prRepo, pr.number),
     ]);
     const resolvedDate =
       getLastCommitDate(commits) ?? passedLastCommitDate ?? null;
-    const items = collectNewComments(
+    const items = collectOpenComments(
+      pr.user.login,
       resolvedDate,
       comments,
-      reviewComments,
+      threads,
       reviews,
     );
-    const context = buildNewCommentsContext(items);
-    return { items, context, count: items.length };
+    return { items, count: items.length };
   });
 
-  const newCommentCount = newCommentsData?.count ?? 0;
-  const hasNewComments = newCommentCount > 0;
+  const openCommentCount = openCommentsData?.count ?? 0;
+  const hasOpenComments = openCommentCount > 0;
 
   async function handleSubmit(values: {
     feedbackText: string;
-    includeNewComments: boolean;
+    commentRefs?: string[];
     autoImplement: boolean;
     postAsComment: boolean;
   }) {
     const hasText = values.feedbackText.trim().length > 0;
-    const willIncludeComments = values.includeNewComments && hasNewComments;
-    if (!hasText && !willIncludeComments) {
+    const selectedComments = (openCommentsData?.items ?? []).filter((item) =>
+      values.commentRefs?.includes(item.ref),
+    );
+    if (!hasText && selectedComments.length === 0) {
       await showToast({
         style: Toast.Style.Failure,
-        title: "Provide feedback text or include new comments",
+        title: "Provide feedback text or pick comments to address",
       });
       return;
     }
@@ -175,32 +182,7 @@ export function FeedbackForm({
         return;
       }
 
-      // Find or create task state
-      let task = taskState;
-      if (!task) {
-        // Try to find by branch name
-        task = (await getTask(pr.head.ref)) ?? undefined;
-      }
-
-      if (!task) {
-        // Create a minimal task state for tracking
-        const { createInitialTaskState, saveTask } =
-          await import("../utils/storage");
-        const issueKeyMatch = pr.title.match(/^([A-Z]+-\d+)/);
-        const issueKey = issueKeyMatch?.[1] ?? `PR-${pr.number}`;
-        task = createInitialTaskState({
-          issueKey,
-          issueSummary: pr.title,
-          issueUrl: pr.html_url,
-          repoName: repo.name,
-          branchName: pr.head.ref,
-          worktreePath: `${config.worktreeBasePath}/${repo.name}/${pr.head.ref}`,
-          baseBranch: pr.base.ref,
-        });
-        task.prUrl = pr.html_url;
-        task.prNumber = pr.number;
-        await saveTask(task);
-      }
+      const task = await getPullRequestTask(pr, repo, taskState);
 
       if (values.autoImplement) {
         // Mark the task as actively processing feedback so the UI reflects it
@@ -220,19 +202,13 @@ export function FeedbackForm({
           repoName: repo.name,
           feedbackText: values.feedbackText,
           postAsComment: values.postAsComment,
-          newCommentsContext: willIncludeComments
-            ? newCommentsData?.context
-            : undefined,
-        });
-        await launchCommand({
-          name: "run-orchestration",
-          type: LaunchType.UserInitiated,
-          context: { issueKey: task.issueKey },
+          comments: selectedComments.length ? selectedComments : undefined,
         });
+        await enqueueOrchestration(task);
 
         await showToast({
           style: Toast.Style.Animated,
-          title: "Feedback implementation started",
+          title: "Feedback implementation queued",
         });
       } else {
         // Just post the comment without auto-implementing
@@ -282,41 +258,34 @@ export function FeedbackForm({
         placeholder="Describe what changes are needed..."
       />
 
-      {hasNewComments && (
+      {hasOpenComments && (
         <>
           <Form.Separator />
           <Form.Description
-            title="New Comments"
-            text={`${newCommentCount} comment${newCommentCount === 1 ? "" : "s"} since last commit`}
+            title="Open Comments"
+            text={`${openCommentCount} unresolved or new since last commit`}
           />
-          {newCommentsData?.items.map((item, idx) => {
-            let title = "";
-            if (item.type === "review") {
-              title = `${item.user} (${item.state})`;
-            } else if (item.type === "inline") {
-              title = item.location
-                ? `${item.user} on ${item.location}`
-                : item.user;
-            } else {
-              title = item.user;
-            }
-            return (
-              <Form.Description
-                key={idx}
-                title={title}
-                text={
-                  item.body.length > 200
-                    ? `${item.body.slice(0, 200)}...`
-                    : item.body
-                }
+          {openCommentsData?.items.map((item) => (
+            <Form.Description
+              key={item.ref}
+              title={item.ref}
+              text={`${describeFeedbackComment(item)}\n${excerpt(item.body, 200)}`}
+            />
+          ))}
+          <Form.TagPicker
+            id="commentRefs"
+            title="Address Comments"
+            info="Claude reports on each picked comment; addressed inline threads get a reply with the fixing commit and are resolved"
+            defaultValue={openCommentsData?.items.map((item) => item.ref)}
+          >
+            {openCommentsData?.items.map((item) => (
+              <Form.TagPicker.Item
+                key={item.ref}
+                value={item.ref}
+                title={`${item.ref} ${describeFeedbackComment(item)}`}
               />
-            );
-          })}
-          <Form.Checkbox
-            id="includeNewComments"
-            label="Include these comments as context"
-            defaultValue={true}
-          />
+            ))}
+          </Form.TagPicker>
         </>
       )}
 
@@ -6,8 +6,6 @@ import {
   showToast,
   Toast,
   useNavigation,
-  launchCommand,
-  LaunchType,
 } from "@raycast/api";
 import { useState } from "react";
 import type { TaskState } from "../types/storage";
@@ -17,6 +15,7 @@ import {
   updateTaskStatus,
   appendProgressLog,
 } from "../utils/storage";
+import { enqueueOrchestration } from "../utils/orchestration";
 import { ExecutionProgress } from "./ExecutionProgress";
 
 interface PlanFeedbackFormProps {
@@ -90,15 +89,11 @@ export function PlanFeedbackForm({ task }: PlanFeedbackFormProps) {
         updateExistingPlan: true,
       });
 
-      await launchCommand({
-        name: "run-orchestration",
-        type: LaunchType.UserInitiated,
-        context: { issueKey: task.issueKey },
-      });
+      await enqueueOrchestration(task);
 
       await showToast({
         style: Toast.Style.Animated,
-        title: "Plan update started",
+        title: "Plan update queued",
       });
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
@@ -4,14 +4,16 @@ import type {
   GitHubPullRequest,
   GitHubReview,
   GitHubComment,
+  GitHubReviewThread,
 } from "../types/github";
 import type { TaskState } from "../types/storage";
 import {
   fetchReviews,
   fetchPRComments,
-  fetchReviewComments,
+  fetchReviewThreads,
   fetchPRCommits,
   getLastCommitDate,
+  getUnresolvedThreads,
   parseRepoFullName,
   isBotUser,
 } from "../services/github";
@@ -21,24 +23,19 @@ import { FeedbackForm } from "./FeedbackForm";
 interface PullRequestDetailProps {
   pr: GitHubPullRequest;
   taskState?: TaskState;
-  lastCommitDate?: string | null;
 }
 
-export function PullRequestDetail({
-  pr,
-  taskState,
-  lastCommitDate: passedLastCommitDate,
-}: PullRequestDetailProps) {
+export function PullRequestDetail({ pr, taskState }: PullRequestDetailProps) {
   const { owner, repo } = parseRepoFullName(pr.base.repo.full_name);
 
   const planFilePath = getPlanFilePath(pr.head.ref);
 
   const { data, isLoading } = usePromise(async () => {
     const fs = await import("fs/promises");
-    const [reviews, comments, reviewComments, commits] = await Promise.all([
+    const [reviews, comments, threads, commits] = await Promise.all([
       fetchReviews(owner, repo, pr.number),
       fetchPRComments(owner, repo, pr.number),
-      fetchReviewComments(owner, repo, pr.number),
+      fetchReviewThreads(owner, repo, pr.number),
       fetchPRCommits(owner, repo, pr.number),
     ]);
     const fetchedLastCommitDate = getLastCommitDate(commits);
@@ -54,20 +51,19 @@ export function PullRequestDetail({
     return {
       reviews,
       comments,
-      reviewComments,
+      threads,
       lastCommitDate: fetchedLastCommitDate,
       planExists,
     };
   });
 
-  const resolvedLastCommitDate =
-    data?.lastCommitDate ?? passedLastCommitDate ?? null;
+  const resolvedLastCommitDate = data?.lastCommitDate ?? null;
 
   const markdown = buildPRDetailMarkdown(
     pr,
     data?.reviews,
     data?.comments,
-    data?.reviewComments,
+    data?.threads,
     resolvedLastCommitDate,
   );
 
@@ -187,7 +183,7 @@ function buildPRDetailMarkdown(
   pr: GitHubPullRequest,
   reviews?: GitHubReview[],
   comments?: GitHubComment[],
-  reviewComments?: GitHubComment[],
+  threads?: GitHubReviewThread[],
   lastCommitDate?: string | null,
 ): string {
   const sections: string[] = [];
@@ -195,7 +191,15 @@ function buildPRDetailMarkdown(
   sections.push(`# ${pr.title}`);
   sections.push("");
 
-  // Count new comments for summary
+  const unresolvedCount = threads ? getUnresolvedThreads(threads).length : 0;
+  if (unresolvedCount > 0) {
+    sections.push(
+      `> **${unresolvedCount} unresolved review thread${unresolvedCount === 1 ? "" : "s"}**`,
+    );
+    sections.push("");
+  }
+
+  // Count new review summaries and conversation comments, which have no resolved state
   if (lastCommitDate) {
     let newCount = 0;
     if (reviews) {
@@ -205,13 +209,6 @@ function buildPRDetailMarkdown(
         }
       }
     }
-    if (reviewComments) {
-      for (const c of reviewComments) {
-        if (!isBotUser(c.user.login) && isNewComment(lastCommitDate, c.created_at)) {
-          newCount++;
-        }
-      }
-    }
     if (comments) {
       for (const c of comments) {
         if (!isBotUser(c.user.login) && isNewComment(lastCommitDate, c.created_at)) {
@@ -258,20 +255,25 @@ function buildPRDetailMarkdown(
     }
   }
 
-  // Review comments (inline)
-  if (reviewComments && reviewComments.length > 0) {
-    sections.push("## Inline Comments");
+  // Review threads (inline), unresolved first
+  if (threads && threads.length > 0) {
+    sections.push("## Review Threads");
     sections.push("");
-    for (const comment of reviewComments) {
-      const location = comment.path
-        ? `\`${comment.path}${comment.line ? `:${comment.line}` : ""}\``
-        : "";
-      const newBadge = !isBotUser(comment.user.login) && isNewComment(lastCommitDate ?? null, comment.created_at)
-        ? " `NEW`"
-        : "";
-      sections.push(`**${comment.user.login}** ${location}${newBadge}`);
-      sections.push(comment.body);
+    const ordered = [...threads].sort(
+      (a, b) => Number(a.isResolved) - Number(b.isResolved),
+    );
+    for (const thread of ordered) {
+      const location = `\`${thread.path}${thread.line ? `:${thread.line}` : ""}\``;
+      const badges = [
+        thread.isResolved ? "`RESOLVED`" : "`UNRESOLVED`",
+        ...(thread.isOutdated ? ["`OUTDATED`"] : []),
+      ].join(" ");
+      sections.push(`${location} ${badges}`);
       sections.push("");
+      for (const comment of thread.comments) {
+        sections.push(`**${comment.author}**: ${comment.body}`);
+        sections.push("");
+      }
     }
   }
 
@@ -11,43 +11,31 @@ import { useState, useEffect } from "react";
 import { usePromise } from "@raycast/utils";
 import {
   fetchMyOpenPRs,
-  // fetchCheckRuns,
+  fetchCheckRuns,
   fetchReviews,
   fetchPRComments,
-  fetchReviewComments,
-  fetchPRCommits,
-  getLastCommitDate,
-  isBotUser,
+  fetchReviewThreads,
+  getUnresolvedThreads,
 } from "../services/github";
-import { getAllTasks } from "../utils/storage";
+import { getAllTasks, isTaskStalled } from "../utils/storage";
 import { getConfig } from "../utils/preferences";
 import { getPlanFilePath } from "../services/worktree";
+import { deriveChecksStatus } from "../services/ci";
 import { REPOS } from "../config";
-import type {
-  GitHubPullRequest,
-  GitHubReview,
-  GitHubComment,
-} from "../types/github";
-import type { TaskState } from "../types/storage";
-import { TASK_STATUS_LABELS } from "../types/storage";
+import type { GitHubPullRequest, GitHubReview } from "../types/github";
+import type { TaskState, TaskStatus } from "../types/storage";
+import { ACTIVE_TASK_STATUSES, TASK_STATUS_LABELS } from "../types/storage";
 import { PullRequestDetail } from "./PullRequestDetail";
 import { ExecutionProgress } from "./ExecutionProgress";
 import { PlanFeedbackForm } from "./PlanFeedbackForm";
-
-/** Non-terminal statuses that mean a task is actively running. */
-const ACTIVE_STATUSES = new Set([
-  "initializing",
-  "worktree_created",
-  "dependencies_installed",
-  "implementing",
-  "implementation_complete",
-  "pushing",
-  "pr_created",
-  "feedback_implementing",
-]);
-
-function taskStatusIcon(status: string): { source: Icon; tintColor: Color } {
-  if (ACTIVE_STATUSES.has(status)) {
+import { ResumeTaskAction } from "./ResumeTaskAction";
+import { FixCiAction, ResolveConflictsAction } from "./PullRequestRoundActions";
+
+function taskStatusIcon(status: TaskStatus): {
+  source: Icon;
+  tintColor: Color;
+} {
+  if (ACTIVE_TASK_STATUSES.has(status)) {
     return { source: Icon.CircleProgress, tintColor: Color.Orange };
   }
   switch (status) {
@@ -59,6 +47,12 @@ function taskStatusIcon(status: string): { source: Icon; tintColor: Color } {
       return { source: Icon.XMarkCircle, tintColor: Color.Red };
     case "cancelled":
       return { source: Icon.MinusCircle, tintColor: Color.SecondaryText };
+    case "budget_exceeded":
+      return { source: Icon.Coins, tintColor: Color.Orange };
+    case "conflict":
+      return { source: Icon.Shuffle, tintColor: Color.Red };
+    case "queued":
+      return { source: Icon.Clock, tintColor: Color.SecondaryText };
     default:
       return { source: Icon.CircleProgress, tintColor: Color.Orange };
   }
@@ -69,8 +63,10 @@ interface EnrichedPR {
   taskState?: TaskState;
   reviewState: "approved" | "changes_requested" | "pending" | "none";
   checksStatus: "success" | "failure" | "pending" | "none";
-  newCommentCount: number;
-  lastCommitDate: string | null;
+  /** GitHub reports the branch can't be merged into its base cleanly. */
+  hasConflicts: boolean;
+  /** Reviewer threads not yet resolved, however old. */
+  unresolvedThreadCount: number;
   planExists: boolean;
   previewUrl: string | null;
   qaCheckedOut: boolean;
@@ -159,40 +155,6 @@ function deriveReviewState(reviews: GitHubReview[]): EnrichedPR["reviewState"] {
   return "none";
 }
 
-function countNewComments(
-  prAuthor: string,
-  lastCommitDate: string | null,
-  comments: GitHubComment[],
-  reviewComments: GitHubComment[],
-  reviews: GitHubReview[],
-): number {
-  if (!lastCommitDate) return 0;
-  const cutoff = new Date(lastCommitDate).getTime();
-  let count = 0;
-
-  for (const c of comments) {
-    if (!isBotUser(c.user.login) && new Date(c.created_at).getTime() > cutoff) {
-      count++;
-    }
-  }
-  for (const c of reviewComments) {
-    if (!isBotUser(c.user.login) && new Date(c.created_at).getTime() > cutoff) {
-      count++;
-    }
-  }
-  for (const r of reviews) {
-    if (
-      !isBotUser(r.user.login) &&
-      r.body &&
-      new Date(r.submitted_at).getTime() > cutoff
-    ) {
-      count++;
-    }
-  }
-
-  return count;
-}
-
 export function PullRequestList() {
   // Poll task states every 2s for real-time progress timestamps
   const [liveTasksByBranch, setLiveTasksByBranch] = useState<
@@ -284,10 +246,9 @@ export function PullRequestList() {
       prs.map(async (pr) => {
         const taskState = tasksByBranch.get(pr.head.ref);
         let reviewState: EnrichedPR["reviewState"] = "none";
-        const checksStatus: EnrichedPR["checksStatus"] = "none";
+        let checksStatus: EnrichedPR["checksStatus"] = "none";
 
-        let newCommentCount = 0;
-        let lastCommitDate: string | null = null;
+        let unresolvedThreadCount = 0;
         let planExists = false;
         let previewUrl: string | null = null;
 
@@ -302,32 +263,15 @@ export function PullRequestList() {
 
         try {
           const { owner, repo } = parseFullName(pr.base.repo.full_name);
-          const [reviews, comments, reviewComments, commits] =
-            await Promise.all([
-              fetchReviews(owner, repo, pr.number),
-              // fetchCheckRuns(owner, repo, pr.head.sha),
-              fetchPRComments(owner, repo, pr.number),
-              fetchReviewComments(owner, repo, pr.number),
-              fetchPRCommits(owner, repo, pr.number),
-            ]);
+          const [reviews, checks, comments, threads] = await Promise.all([
+            fetchReviews(owner, repo, pr.number),
+            fetchCheckRuns(owner, repo, pr.head.sha),
+            fetchPRComments(owner, repo, pr.number),
+            fetchReviewThreads(owner, repo, pr.number),
+          ]);
           reviewState = deriveReviewState(reviews);
-          // if (checks.total_count === 0) {
-          //   checksStatus = "none";
-          // } else if (checks.check_runs.every(c => c.conclusion === "success")) {
-          //   checksStatus = "success";
-          // } else if (checks.check_runs.some(c => c.conclusion === "failure")) {
-          //   checksStatus = "failure";
-          // } else {
-          //   checksStatus = "pending";
-          // }
-          lastCommitDate = getLastCommitDate(commits);
-          newCommentCount = countNewComments(
-            pr.user.login,
-            lastCommitDate,
-            comments,
-            reviewComments,
-            reviews,
-          );
+          checksStatus = deriveChecksStatus(checks);
+          unresolvedThreadCount = getUnresolvedThreads(threads).length;
 
           // Detect preview URL from issue comments for pulse-frontend PRs
           if (pr.base.repo.name === REPOS.frontend) {
@@ -354,8 +298,8 @@ export function PullRequestList() {
           taskState,
           reviewState,
           checksStatus,
-          newCommentCount,
-          lastCommitDate,
+          hasConflicts: pr.mergeable_state === "dirty",
+          unresolvedThreadCount,
           planExists,
           previewUrl,
           qaCheckedOut,
@@ -404,14 +348,23 @@ export function PullRequestList() {
   const inProgressPRs = nonDraftPRs.filter(
     (e) =>
       e.taskState &&
-      !["complete", "error", "cancelled"].includes(e.taskState.status),
+      ![
+        "complete",
+        "error",
+        "cancelled",
+        "budget_exceeded",
+        "conflict",
+      ].includes(e.taskState.status),
   );
   const needsAttention = nonDraftPRs.filter(
     (e) =>
       !inProgressPRs.includes(e) &&
-      (e.reviewState === "changes_requested" ||
+      (e.taskState?.status === "budget_exceeded" ||
+        e.taskState?.status === "conflict" ||
+        e.reviewState === "changes_requested" ||
         e.checksStatus === "failure" ||
-        e.newCommentCount > 0),
+        e.hasConflicts ||
+        e.unresolvedThreadCount > 0),
   );
   const awaitingReview = nonDraftPRs.filter(
     (e) => !inProgressPRs.includes(e) && !needsAttention.includes(e),
@@ -631,17 +584,19 @@ function PRListItem({
     taskState,
     reviewState,
     checksStatus,
-    newCommentCount,
-    lastCommitDate,
+    hasConflicts,
+    unresolvedThreadCount,
     planExists,
     previewUrl,
   } = enriched;
   const repoName = pr.base.repo.name;
-  const isTaskActive = taskState && ACTIVE_STATUSES.has(taskState.status);
+  const isTaskActive = taskState && ACTIVE_TASK_STATUSES.has(taskState.status);
   const liveTimestamp =
-    liveTask && ACTIVE_STATUSES.has(liveTask.status)
+    liveTask && ACTIVE_TASK_STATUSES.has(liveTask.status)
       ? getLatestLogTimestamp(liveTask.progressLog)
       : null;
+  const currentTask = liveTask ?? taskState;
+  const isStalled = currentTask ? isTaskStalled(currentTask) : false;
 
   const accessories: List.Item.Accessory[] = [];
   if (planExists) {
@@ -656,6 +611,12 @@ function PRListItem({
       tooltip: TASK_STATUS_LABELS[taskState.status],
     });
   }
+  if (isStalled) {
+    accessories.push({
+      icon: { source: Icon.Warning, tintColor: Color.Red },
+      tooltip: "Stalled — worker stopped responding",
+    });
+  }
   if (liveTimestamp) {
     accessories.push({
       tag: { value: liveTimestamp, color: Color.SecondaryText },
@@ -670,14 +631,20 @@ function PRListItem({
   if (cIcon) {
     accessories.push({ icon: cIcon, tooltip: checksTooltip(checksStatus) });
   }
-  if (newCommentCount > 0) {
+  if (hasConflicts) {
+    accessories.push({
+      icon: { source: Icon.Shuffle, tintColor: Color.Red },
+      tooltip: "Merge conflicts with base branch",
+    });
+  }
+  if (unresolvedThreadCount > 0) {
     accessories.push({
       icon: { source: Icon.SpeechBubble, tintColor: Color.Blue },
-      text: { value: String(newCommentCount), color: Color.Blue },
+      text: { value: String(unresolvedThreadCount), color: Color.Blue },
       tooltip:
-        newCommentCount === 1
-          ? "1 new comment"
-          : `${newCommentCount} new comments`,
+        unresolvedThreadCount === 1
+          ? "1 unresolved thread"
+          : `${unresolvedThreadCount} unresolved threads`,
     });
   }
   if (previewUrl) {
@@ -736,16 +703,13 @@ function PRListItem({
                 icon={Icon.CircleProgress}
                 target={<ExecutionProgress issueKey={taskState.issueKey} />}
               />
+              {isStalled && currentTask && (
+                <ResumeTaskAction task={currentTask} onResumed={revalidate} />
+              )}
               <Action.Push
                 title="View Details"
                 icon={Icon.Eye}
-                target={
-                  <PullRequestDetail
-                    pr={pr}
-                    taskState={taskState}
-                    lastCommitDate={lastCommitDate}
-                  />
-                }
+                target={<PullRequestDetail pr={pr} taskState={taskState} />}
                 shortcut={{ modifiers: ["cmd"], key: "d" }}
               />
             </>
@@ -754,13 +718,7 @@ function PRListItem({
               <Action.Push
                 title="View Details"
                 icon={Icon.Eye}
-                target={
-                  <PullRequestDetail
-                    pr={pr}
-                    taskState={taskState}
-                    lastCommitDate={lastCommitDate}
-                  />
-                }
+                target={<PullRequestDetail pr={pr} taskState={taskState} />}
               />
               {taskState && (
                 <Action.Push
@@ -771,6 +729,12 @@ function PRListItem({
               )}
             </>
           )}
+          {checksStatus === "failure" && !isTaskActive && (
+            <FixCiAction pr={pr} taskState={taskState} />
+          )}
+          {hasConflicts && !isTaskActive && (
+            <ResolveConflictsAction pr={pr} taskState={taskState} />
+          )}
           {previewUrl && (
             <Action.Open
               title="Open Dev Build"
@@ -0,0 +1,111 @@
+import {
+  Action,
+  Icon,
+  Color,
+  showToast,
+  Toast,
+  useNavigation,
+  type Keyboard,
+} from "@raycast/api";
+import type { GitHubPullRequest } from "../types/github";
+import type { TaskState } from "../types/storage";
+import { getConfig } from "../utils/preferences";
+import { saveOrchestrationParams } from "../utils/storage";
+import {
+  enqueueOrchestration,
+  getPullRequestTask,
+} from "../utils/orchestration";
+import { ExecutionProgress } from "./ExecutionProgress";
+
+interface PullRequestRoundActionProps {
+  pr: GitHubPullRequest;
+  taskState?: TaskState;
+}
+
+/** Queue a follow-up run on an existing PR's branch and show its progress. */
+function PullRequestRoundAction({
+  pr,
+  taskState,
+  mode,
+  title,
+  icon,
+  shortcut,
+}: PullRequestRoundActionProps & {
+  mode: "fix_ci" | "resolve_conflicts";
+  title: string;
+  icon: Icon;
+  shortcut: Keyboard.Shortcut;
+}) {
+  const { push } = useNavigation();
+
+  return (
+    <Action
+      title={title}
+      icon={{ source: icon, tintColor: Color.Red }}
+      shortcut={shortcut}
+      onAction={async () => {
+        try {
+          const repo = getConfig().repos.find(
+            (r) => r.name === pr.base.repo.name,
+          );
+          if (!repo) {
+            await showToast({
+              style: Toast.Style.Failure,
+              title: "Repository not found in config",
+              message: pr.base.repo.name,
+            });
+            return;
+          }
+
+          const task = await getPullRequestTask(pr, repo, taskState);
+          await saveOrchestrationParams(task.issueKey, {
+            mode,
+            issueKey: task.issueKey,
+            repoName: repo.name,
+          });
+          await enqueueOrchestration(task);
+
+          push(<ExecutionProgress issueKey={task.issueKey} />);
+          await showToast({
+            style: Toast.Style.Animated,
+            title: `${title} queued`,
+          });
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          await showToast({
+            style: Toast.Style.Failure,
+            title: "Failed",
+            message,
+          });
+        }
+      }}
+    />
+  );
+}
+
+/** Have Claude fix the PR's failing checks and push. */
+export function FixCiAction(props: PullRequestRoundActionProps) {
+  return (
+    <PullRequestRoundAction
+      {...props}
+      mode="fix_ci"
+      title="Fix CI"
+      icon={Icon.Hammer}
+      shortcut={{ modifiers: ["cmd", "shift"], key: "f" }}
+    />
+  );
+}
+
+/** Merge the base branch in, have Claude resolve the conflicts and push. */
+export function ResolveConflictsAction(props: PullRequestRoundActionProps) {
+  return (
+    <PullRequestRoundAction
+      {...props}
+      mode="resolve_conflicts"
+      title="Resolve Conflicts"
+      icon={Icon.Shuffle}
+      shortcut={{ modifiers: ["cmd", "shift"], key: "m" }}
+    />
+  );
+}
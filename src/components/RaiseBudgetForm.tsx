@@ -0,0 +1,102 @@
+import {
+  Form,
+  ActionPanel,
+  Action,
+  Icon,
+  showToast,
+  Toast,
+  useNavigation,
+} from "@raycast/api";
+import { useState } from "react";
+import type { TaskState } from "../types/storage";
+import { getConfig } from "../utils/preferences";
+import { resumeOrchestration } from "../utils/orchestration";
+
+interface RaiseBudgetFormProps {
+  task: TaskState;
+}
+
+export function RaiseBudgetForm({ task }: RaiseBudgetFormProps) {
+  const config = getConfig();
+  const { pop } = useNavigation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const spentUsd = task.costUsd ?? 0;
+  const currentBudgetUsd = task.budgetUsd ?? config.claudeMaxBudgetUsd;
+  const suggestedBudgetUsd = currentBudgetUsd + config.claudeMaxBudgetUsd;
+
+  async function handleSubmit(values: { budgetUsd: string }) {
+    const budgetUsd = parseFloat(values.budgetUsd);
+    if (!Number.isFinite(budgetUsd) || budgetUsd <= spentUsd) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: `Budget must be more than $${spentUsd.toFixed(2)}`,
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const resumed = await resumeOrchestration(task, "budget_exceeded", {
+        budgetUsd,
+        budgetExceededPhase: undefined,
+      });
+      if (!resumed) {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Launch parameters not found",
+          message: "Start the task again from Implement Task",
+        });
+        setIsSubmitting(false);
+        return;
+      }
+
+      await showToast({
+        style: Toast.Style.Animated,
+        title: "Session resumed",
+        message: `Budget: $${budgetUsd.toFixed(2)}`,
+      });
+
+      // Back to the progress view, which picks up the new status on its next poll
+      pop();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await showToast({ style: Toast.Style.Failure, title: "Failed", message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <Form
+      isLoading={isSubmitting}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Raise Budget & Resume Session"
+            icon={Icon.Coins}
+            onSubmit={handleSubmit}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.Description
+        title="Task"
+        text={`${task.issueKey}: ${task.issueSummary}`}
+      />
+
+      <Form.Description
+        title="Spent"
+        text={`$${spentUsd.toFixed(2)} of $${currentBudgetUsd.toFixed(2)}`}
+      />
+
+      <Form.TextField
+        id="budgetUsd"
+        title="New Budget (USD)"
+        defaultValue={suggestedBudgetUsd.toFixed(2)}
+        info="Total spend cap for this task, including what has already been spent"
+      />
+    </Form>
+  );
+}
@@ -0,0 +1,45 @@
+import { Action, Icon, showToast, Toast } from "@raycast/api";
+import type { TaskState } from "../types/storage";
+import { resumeOrchestration } from "../utils/orchestration";
+
+interface ResumeTaskActionProps {
+  task: TaskState;
+  onResumed?: () => void;
+}
+
+/** Relaunch a stalled task from its last checkpoint. */
+export function ResumeTaskAction({ task, onResumed }: ResumeTaskActionProps) {
+  return (
+    <Action
+      title="Resume Task"
+      icon={Icon.ArrowClockwise}
+      shortcut={{ modifiers: ["cmd"], key: "r" }}
+      onAction={async () => {
+        try {
+          const resumed = await resumeOrchestration(task, "stalled");
+          if (!resumed) {
+            await showToast({
+              style: Toast.Style.Failure,
+              title: "Launch parameters not found",
+              message: "Start the task again from Implement Task",
+            });
+            return;
+          }
+          await showToast({
+            style: Toast.Style.Animated,
+            title: `${task.issueKey}: Resuming...`,
+          });
+          onResumed?.();
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          await showToast({
+            style: Toast.Style.Failure,
+            title: "Failed",
+            message,
+          });
+        }
+      }}
+    />
+  );
+}
@@ -0,0 +1,196 @@
+import {
+  Detail,
+  Form,
+  ActionPanel,
+  Action,
+  Icon,
+  showToast,
+  Toast,
+  useNavigation,
+} from "@raycast/api";
+import { Fragment, useState, useRef, useEffect } from "react";
+import { usePromise } from "@raycast/utils";
+import type {
+  GitHubPullRequest,
+  GitHubReviewEvent,
+  PullRequestReviewDraft,
+} from "../types/github";
+import { getConfig } from "../utils/preferences";
+import { parseRepoFullName, submitPullRequestReview } from "../services/github";
+import { draftPullRequestReview } from "../services/claude";
+
+const VERDICT_TITLES: Record<GitHubReviewEvent, string> = {
+  COMMENT: "Comment",
+  APPROVE: "Approve",
+  REQUEST_CHANGES: "Request Changes",
+};
+
+/**
+ * Run Claude's review of the PR, showing its progress, then hand the draft
+ * to the form for editing. Leaving the view cancels the run.
+ */
+export function ReviewDraftView({ pr }: { pr: GitHubPullRequest }) {
+  const [progress, setProgress] = useState<string[]>([]);
+  const abortable = useRef<AbortController | null>(null);
+  useEffect(() => () => abortable.current?.abort(), []);
+
+  const { data, isLoading, error } = usePromise(
+    async () => {
+      const { repos } = getConfig();
+      const repo = repos.find((r) => r.name === pr.base.repo.name);
+      if (!repo) {
+        throw new Error(`${pr.base.repo.name} is not in the configured repos`);
+      }
+      return draftPullRequestReview({
+        pr,
+        repo,
+        abortController: abortable.current ?? undefined,
+        onProgress: async (entry) => setProgress((p) => [...p, entry]),
+      });
+    },
+    [],
+    { abortable },
+  );
+
+  if (data) {
+    return (
+      <ReviewDraftForm pr={pr} draft={data.draft} costUsd={data.costUsd} />
+    );
+  }
+
+  const markdown = [
+    `# Reviewing #${pr.number}: ${pr.title}`,
+    "",
+    error
+      ? `**Review failed:** ${error.message}`
+      : "Claude is reading the change in a throwaway checkout of the PR...",
+    "",
+    ...progress
+      .slice(-30)
+      .reverse()
+      .map((entry) => `- ${entry}`),
+  ].join("\n");
+
+  return (
+    <Detail
+      isLoading={isLoading}
+      markdown={markdown}
+      actions={
+        <ActionPanel>
+          <Action.OpenInBrowser
+            title="Open on GitHub"
+            url={pr.html_url}
+            icon={{ source: "github.svg" }}
+          />
+        </ActionPanel>
+      }
+    />
+  );
+}
+
+function ReviewDraftForm({
+  pr,
+  draft,
+  costUsd,
+}: {
+  pr: GitHubPullRequest;
+  draft: PullRequestReviewDraft;
+  costUsd: number;
+}) {
+  const { pop } = useNavigation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  async function handleSubmit(values: Record<string, string | boolean>) {
+    const verdict = values.verdict as GitHubReviewEvent;
+    const body = String(values.summary).trim();
+    const comments = draft.comments.flatMap((comment, index) => {
+      const text = String(values[`comment-${index}`]).trim();
+      return values[`include-${index}`] && text
+        ? [{ path: comment.path, line: comment.line, body: text }]
+        : [];
+    });
+    // GitHub only accepts an empty review when it approves
+    if (verdict !== "APPROVE" && !body && comments.length === 0) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Add a summary or keep at least one comment",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { owner, repo } = parseRepoFullName(pr.base.repo.full_name);
+      await submitPullRequestReview(owner, repo, pr.number, {
+        body,
+        event: verdict,
+        comments,
+        commitId: pr.head.sha,
+      });
+      await showToast({
+        style: Toast.Style.Success,
+        title: `Review submitted: ${VERDICT_TITLES[verdict]}`,
+        message: `#${pr.number}`,
+      });
+      pop();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await showToast({ style: Toast.Style.Failure, title: "Failed", message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <Form
+      isLoading={isSubmitting}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Submit Review"
+            icon={Icon.Upload}
+            onSubmit={handleSubmit}
+          />
+          <Action.OpenInBrowser
+            title="Open on GitHub"
+            url={pr.html_url}
+            icon={{ source: "github.svg" }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.Description
+        title="Pull Request"
+        text={`#${pr.number}: ${pr.title} by @${pr.user.login} (draft cost: $${costUsd.toFixed(2)})`}
+      />
+      <Form.Dropdown id="verdict" title="Verdict" defaultValue={draft.verdict}>
+        {(Object.keys(VERDICT_TITLES) as GitHubReviewEvent[]).map((v) => (
+          <Form.Dropdown.Item key={v} value={v} title={VERDICT_TITLES[v]} />
+        ))}
+      </Form.Dropdown>
+      <Form.TextArea
+        id="summary"
+        title="Summary"
+        defaultValue={draft.summary}
+        enableMarkdown
+      />
+
+      {draft.comments.map((comment, index) => (
+        <Fragment key={index}>
+          <Form.Separator />
+          <Form.Checkbox
+            id={`include-${index}`}
+            label={`${comment.path}:${comment.line}`}
+            defaultValue={true}
+          />
+          <Form.TextArea
+            id={`comment-${index}`}
+            title={`Comment ${index + 1}`}
+            defaultValue={comment.body}
+            enableMarkdown
+          />
+        </Fragment>
+      ))}
+    </Form>
+  );
+}
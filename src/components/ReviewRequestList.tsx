@@ -0,0 +1,73 @@
+import { List, ActionPanel, Action, Icon, Color } from "@raycast/api";
+import { usePromise } from "@raycast/utils";
+import { fetchReviewRequestedPRs } from "../services/github";
+import { ReviewDraftView } from "./ReviewDraftForm";
+
+/** Open PRs in the configured repos that are waiting on our review. */
+export function ReviewRequestList() {
+  const { data, isLoading, revalidate } = usePromise(async () => {
+    const prs = await fetchReviewRequestedPRs();
+    return prs.sort(
+      (a, b) =>
+        new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime(),
+    );
+  });
+
+  return (
+    <List isLoading={isLoading} searchBarPlaceholder="Filter pull requests...">
+      <List.EmptyView
+        icon={Icon.CheckCircle}
+        title="No reviews requested"
+        description="Pull requests in your configured repos that request your review show up here"
+      />
+      {data?.map((pr) => (
+        <List.Item
+          key={pr.id}
+          title={pr.title}
+          subtitle={`#${pr.number}`}
+          icon={
+            pr.draft
+              ? { source: Icon.Document, tintColor: Color.SecondaryText }
+              : { source: Icon.CodeBlock, tintColor: Color.Purple }
+          }
+          accessories={[
+            { text: `@${pr.user.login}`, tooltip: "Author" },
+            {
+              text: {
+                value: `+${pr.additions} -${pr.deletions}`,
+                color: Color.SecondaryText,
+              },
+            },
+            { date: new Date(pr.updated_at), tooltip: "Updated" },
+            { text: pr.base.repo.name },
+          ]}
+          actions={
+            <ActionPanel>
+              <Action.Push
+                title="Draft Review with Claude"
+                icon={Icon.Stars}
+                target={<ReviewDraftView pr={pr} />}
+              />
+              <Action.OpenInBrowser
+                title="Open on GitHub"
+                url={pr.html_url}
+                icon={{ source: "github.svg" }}
+              />
+              <Action.CopyToClipboard
+                title="Copy Pr URL"
+                content={pr.html_url}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+              />
+              <Action
+                title="Refresh"
+                icon={Icon.ArrowClockwise}
+                shortcut={{ modifiers: ["cmd"], key: "r" }}
+                onAction={revalidate}
+              />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
@@ -0,0 +1,78 @@
+import {
+  Form,
+  ActionPanel,
+  Action,
+  Icon,
+  showToast,
+  Toast,
+  useNavigation,
+} from "@raycast/api";
+import { useState } from "react";
+import type { TaskState } from "../types/storage";
+import { queueSteeringMessage } from "../utils/storage";
+
+interface SteeringMessageFormProps {
+  task: TaskState;
+}
+
+export function SteeringMessageForm({ task }: SteeringMessageFormProps) {
+  const { pop } = useNavigation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  async function handleSubmit(values: { message: string }) {
+    const message = values.message.trim();
+    if (!message) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Message is required",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      await queueSteeringMessage(task.issueKey, message);
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Message sent",
+        message: "Queued for Claude's working session",
+      });
+      // Back to the progress view, where the message shows up once delivered
+      pop();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await showToast({ style: Toast.Style.Failure, title: "Failed", message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <Form
+      isLoading={isSubmitting}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Send Message"
+            icon={Icon.Message}
+            onSubmit={handleSubmit}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.Description
+        title="Task"
+        text={`${task.issueKey}: ${task.issueSummary}`}
+      />
+
+      <Form.TextArea
+        id="message"
+        title="Message"
+        placeholder="e.g. Stop touching the migration, or: use the existing helper in utils/format.ts"
+        info="Sent into Claude's working session as a user message, without restarting it. While no working session is running (e.g. during checks or while the PR description is written), it waits for the next one on this task; if none follows, it is dropped and the activity log says so."
+        enableMarkdown
+      />
+    </Form>
+  );
+}
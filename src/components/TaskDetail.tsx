@@ -1,7 +1,9 @@
 import { Detail, ActionPanel, Action, Icon, Color } from "@raycast/api";
 import { usePromise } from "@raycast/utils";
+import { useState } from "react";
 import type { LinearIssue } from "../types/linear";
 import { getPlanFilePath } from "../services/worktree";
+import { describeIssueImage, findIssueImages } from "../services/issue-images";
 import { generateBranchName } from "../utils/branch-naming";
 import { getTask } from "../utils/storage";
 import { ContextForm } from "./ContextForm";
@@ -15,6 +17,16 @@ export function TaskDetail({ issue }: TaskDetailProps) {
   const descriptionMd = issue.description ?? "";
   const commentsMd = buildCommentsMd(issue);
   const markdown = buildMarkdown(issue, descriptionMd, commentsMd);
+  const images = findIssueImages(issue);
+  const [excludedImageUrls, setExcludedImageUrls] = useState<string[]>([]);
+
+  function toggleImage(url: string) {
+    setExcludedImageUrls((excluded) =>
+      excluded.includes(url)
+        ? excluded.filter((u) => u !== url)
+        : [...excluded, url],
+    );
+  }
 
   const branchName = generateBranchName(issue.title, issue.identifier);
   const planFilePath = getPlanFilePath(branchName);
@@ -70,6 +82,20 @@ export function TaskDetail({ issue }: TaskDetailProps) {
               text={`${issue.comments.nodes.length}`}
             />
           )}
+          {images.length > 0 && (
+            <Detail.Metadata.TagList title="Screenshots for Claude">
+              {images.map((image) => {
+                const included = !excludedImageUrls.includes(image.url);
+                return (
+                  <Detail.Metadata.TagList.Item
+                    key={image.url}
+                    text={`${included ? "" : "Off: "}${describeIssueImage(image)}`}
+                    color={included ? Color.Green : Color.SecondaryText}
+                  />
+                );
+              })}
+            </Detail.Metadata.TagList>
+          )}
           <Detail.Metadata.Link
             title="Linear"
             target={issue.url}
@@ -83,9 +109,33 @@ export function TaskDetail({ issue }: TaskDetailProps) {
             title="Implement with Claude"
             icon={Icon.Hammer}
             target={
-              <ContextForm issue={issue} descriptionMarkdown={descriptionMd} />
+              <ContextForm
+                issue={issue}
+                descriptionMarkdown={descriptionMd}
+                excludedImageUrls={excludedImageUrls}
+              />
             }
           />
+          {images.length > 0 && (
+            <ActionPanel.Submenu
+              title="Toggle Screenshots"
+              icon={Icon.Image}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "i" }}
+            >
+              {images.map((image) => (
+                <Action
+                  key={image.url}
+                  title={describeIssueImage(image)}
+                  icon={
+                    excludedImageUrls.includes(image.url)
+                      ? Icon.Circle
+                      : Icon.CheckCircle
+                  }
+                  onAction={() => toggleImage(image.url)}
+                />
+              ))}
+            </ActionPanel.Submenu>
+          )}
           {planExists && task && (
             <Action.Push
               title="Update Plan"
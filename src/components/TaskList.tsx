@@ -10,13 +10,15 @@ import {
 import { usePromise } from "@raycast/utils";
 import { fetchMyIssues } from "../services/linear";
 import { getPlanFilePath } from "../services/worktree";
-import { getAllTasks } from "../utils/storage";
+import { getAllTasks, isTaskStalled } from "../utils/storage";
 import { generateBranchName } from "../utils/branch-naming";
 import type { LinearIssue } from "../types/linear";
-import type { TaskState } from "../types/storage";
-import { TASK_STATUS_LABELS } from "../types/storage";
+import type { TaskState, TaskStatus } from "../types/storage";
+import { ACTIVE_TASK_STATUSES, TASK_STATUS_LABELS } from "../types/storage";
 import { TaskDetail } from "./TaskDetail";
 import { ExecutionProgress } from "./ExecutionProgress";
+import { ResumeTaskAction } from "./ResumeTaskAction";
+import { BatchLaunchForm } from "./BatchLaunchForm";
 
 function issueTypeIcon(issue: LinearIssue): { source: Icon; tintColor: Color } {
   const isBug = issue.labels.nodes.some((l) => l.name.toLowerCase() === "bug");
@@ -50,20 +52,11 @@ function priorityAccessory(priorityLabel: string): {
   return { icon, tooltip: priorityLabel };
 }
 
-/** Non-terminal statuses that mean a task is actively running. */
-const ACTIVE_STATUSES = new Set([
-  "initializing",
-  "worktree_created",
-  "dependencies_installed",
-  "implementing",
-  "implementation_complete",
-  "pushing",
-  "pr_created",
-  "feedback_implementing",
-]);
-
-function taskStatusIcon(status: string): { source: Icon; tintColor: Color } {
-  if (ACTIVE_STATUSES.has(status)) {
+function taskStatusIcon(status: TaskStatus): {
+  source: Icon;
+  tintColor: Color;
+} {
+  if (ACTIVE_TASK_STATUSES.has(status)) {
     return { source: Icon.CircleProgress, tintColor: Color.Orange };
   }
   switch (status) {
@@ -75,6 +68,12 @@ function taskStatusIcon(status: string): { source: Icon; tintColor: Color } {
       return { source: Icon.XMarkCircle, tintColor: Color.Red };
     case "cancelled":
       return { source: Icon.MinusCircle, tintColor: Color.SecondaryText };
+    case "budget_exceeded":
+      return { source: Icon.Coins, tintColor: Color.Orange };
+    case "conflict":
+      return { source: Icon.Shuffle, tintColor: Color.Red };
+    case "queued":
+      return { source: Icon.Clock, tintColor: Color.SecondaryText };
     default:
       return { source: Icon.CircleProgress, tintColor: Color.Orange };
   }
@@ -177,11 +176,23 @@ export function TaskList() {
       deployedUrlMap.set(issue.identifier, findDeployedUrl(issue));
     }
 
+    // Open issues without a queued or running task can be batch launched
+    const batchCandidates = groups
+      .filter((g) => g.stateType !== "completed" && g.stateType !== "cancelled")
+      .flatMap((g) => g.issues)
+      .filter((issue) => {
+        const status = taskMap.get(issue.identifier)?.status;
+        return (
+          !status || (status !== "queued" && !ACTIVE_TASK_STATUSES.has(status))
+        );
+      });
+
     return {
       groups,
       taskMap,
       planExistsMap,
       deployedUrlMap,
+      batchCandidates,
     };
   });
 
@@ -204,6 +215,7 @@ export function TaskList() {
               task={data.taskMap.get(issue.identifier)}
               planExists={data.planExistsMap.get(issue.identifier) ?? false}
               deployedUrl={data.deployedUrlMap.get(issue.identifier) ?? null}
+              batchCandidates={data.batchCandidates}
             />
           ))}
         </List.Section>
@@ -224,15 +236,18 @@ function TaskListItem({
   task,
   planExists,
   deployedUrl,
+  batchCandidates,
 }: {
   issue: LinearIssue;
   task?: TaskState;
   planExists: boolean;
   deployedUrl: string | null;
+  batchCandidates: LinearIssue[];
 }) {
   const typeIcon = issueTypeIcon(issue);
   const branchName = generateBranchName(issue.title, issue.identifier);
   const planFilePath = getPlanFilePath(branchName);
+  const isStalled = task ? isTaskStalled(task) : false;
 
   const accessories: List.Item.Accessory[] = [];
   if (deployedUrl) {
@@ -247,6 +262,12 @@ function TaskListItem({
       tooltip: TASK_STATUS_LABELS[task.status],
     });
   }
+  if (isStalled) {
+    accessories.push({
+      icon: { source: Icon.Warning, tintColor: Color.Red },
+      tooltip: "Stalled — worker stopped responding",
+    });
+  }
   accessories.push(priorityAccessory(issue.priorityLabel));
   const isAiReady = hasAiReadyLabel(issue);
   if (isAiReady) {
@@ -295,6 +316,22 @@ function TaskListItem({
               target={<ExecutionProgress issueKey={issue.identifier} />}
             />
           )}
+          {task && isStalled && <ResumeTaskAction task={task} />}
+          {batchCandidates.length > 0 && (
+            <Action.Push
+              title="Batch Launch"
+              icon={Icon.Layers}
+              shortcut={{ modifiers: ["cmd"], key: "b" }}
+              target={
+                <BatchLaunchForm
+                  issues={batchCandidates}
+                  defaultSelected={batchCandidates
+                    .filter(hasAiReadyLabel)
+                    .map((i) => i.identifier)}
+                />
+              }
+            />
+          )}
           {deployedUrl && (
             <Action.Open
               title="Open Dev Build"
@@ -0,0 +1,160 @@
+import {
+  List,
+  ActionPanel,
+  Action,
+  Icon,
+  Color,
+  showToast,
+  Toast,
+} from "@raycast/api";
+import { useMemo, useState } from "react";
+import { usePromise } from "@raycast/utils";
+import fs from "fs/promises";
+import {
+  listTranscripts,
+  readTranscript,
+  describeTurn,
+  formatTurnMarkdown,
+  formatTranscriptMarkdown,
+  type TranscriptFile,
+  type TranscriptTurn,
+} from "../utils/transcript";
+
+const TURN_ICONS: Record<TranscriptTurn["kind"], List.Item.Props["icon"]> = {
+  init: { source: Icon.Play, tintColor: Color.SecondaryText },
+  prompt: { source: Icon.Person, tintColor: Color.Blue },
+  assistant: { source: Icon.Stars, tintColor: Color.Purple },
+  result: { source: Icon.Flag, tintColor: Color.Green },
+};
+
+/** Every recorded Claude run of a task, newest first. */
+export function TranscriptList({ issueKey }: { issueKey: string }) {
+  const { data, isLoading } = usePromise(listTranscripts, [issueKey]);
+
+  return (
+    <List isLoading={isLoading} searchBarPlaceholder="Filter runs...">
+      <List.EmptyView
+        icon={Icon.Document}
+        title="No transcripts"
+        description="Transcripts are written to LOG_FILES_PATH for every Claude run of the task"
+      />
+      {data?.map((file) => (
+        <List.Item
+          key={file.path}
+          title={file.label}
+          subtitle={file.phase}
+          icon={{ source: Icon.Document, tintColor: Color.Purple }}
+          accessories={[
+            { text: file.model },
+            { date: new Date(file.startedAt), tooltip: "Started" },
+          ]}
+          actions={
+            <ActionPanel>
+              <Action.Push
+                title="View Transcript"
+                icon={Icon.Eye}
+                target={<TranscriptView file={file} />}
+              />
+              <Action.ShowInFinder path={file.path} />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
+
+/**
+ * One run's transcript, a list item per turn. Long tool results are cut
+ * short until expanded; exports always include them in full.
+ */
+export function TranscriptView({ file }: { file: TranscriptFile }) {
+  const [expandToolResults, setExpandToolResults] = useState(false);
+  const { data: turns, isLoading } = usePromise(readTranscript, [file.path]);
+  const markdown = useMemo(
+    () => (turns ? formatTranscriptMarkdown(file, turns) : ""),
+    [file, turns],
+  );
+
+  async function exportMarkdown() {
+    const markdownPath = file.path.replace(/\.jsonl$/, ".md");
+    try {
+      await fs.writeFile(markdownPath, markdown, "utf-8");
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Transcript exported",
+        message: markdownPath,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Export failed",
+        message,
+      });
+    }
+  }
+
+  return (
+    <List
+      isLoading={isLoading}
+      isShowingDetail
+      navigationTitle={`${file.issueKey} — ${file.label}`}
+      searchBarPlaceholder="Filter turns..."
+    >
+      {turns?.map((turn, index) => (
+        <List.Item
+          key={index}
+          title={describeTurn(turn, turns)}
+          subtitle={
+            turn.toolCalls.map((call) => call.name).join(", ") ||
+            turn.text.split("\n")[0]
+          }
+          keywords={[turn.text, ...turn.toolCalls.map((call) => call.name)]}
+          icon={
+            turn.toolCalls.some((call) => call.isError)
+              ? { source: Icon.ExclamationMark, tintColor: Color.Red }
+              : TURN_ICONS[turn.kind]
+          }
+          detail={
+            <List.Item.Detail
+              markdown={formatTurnMarkdown(turn, turns, { expandToolResults })}
+            />
+          }
+          actions={
+            <ActionPanel>
+              <Action
+                title={
+                  expandToolResults
+                    ? "Collapse Tool Results"
+                    : "Expand Tool Results"
+                }
+                icon={expandToolResults ? Icon.ChevronUp : Icon.ChevronDown}
+                shortcut={{ modifiers: ["cmd"], key: "e" }}
+                onAction={() => setExpandToolResults((e) => !e)}
+              />
+              <Action.CopyToClipboard
+                title="Copy Turn as Markdown"
+                content={formatTurnMarkdown(turn, turns, {
+                  expandToolResults: true,
+                })}
+              />
+              <Action.CopyToClipboard
+                title="Copy Transcript as Markdown"
+                content={markdown}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+              />
+              <Action
+                title="Export Transcript to Markdown File"
+                icon={Icon.Download}
+                shortcut={{ modifiers: ["cmd"], key: "s" }}
+                onAction={exportMarkdown}
+              />
+              <Action.ShowInFinder path={file.path} />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
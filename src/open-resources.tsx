@@ -9,13 +9,16 @@ import {
 } from "@raycast/api";
 import { usePromise } from "@raycast/utils";
 import { getConfig } from "./utils/preferences";
+import { listTranscripts, type TranscriptFile } from "./utils/transcript";
+import { TranscriptView } from "./components/TranscriptView";
 
 interface ResourceItem {
   name: string;
   path: string;
-  type: "worktree" | "plan";
+  type: "worktree" | "plan" | "transcript";
   repoName?: string;
   modifiedAt: Date;
+  transcript?: TranscriptFile;
 }
 
 export default function OpenResources() {
@@ -76,6 +79,18 @@ export default function OpenResources() {
       }
     }
 
+    // Session transcripts: <logFilesPath>/*.jsonl
+    for (const file of await listTranscripts()) {
+      items.push({
+        name: `${file.issueKey} — ${file.label}`,
+        path: file.path,
+        type: "transcript",
+        repoName: file.repoName,
+        modifiedAt: new Date(file.startedAt),
+        transcript: file,
+      });
+    }
+
     // Sort by most recently modified first
     items.sort((a, b) => b.modifiedAt.getTime() - a.modifiedAt.getTime());
 
@@ -92,9 +107,10 @@ export default function OpenResources() {
 
   const worktrees = data?.filter(i => i.type === "worktree") ?? [];
   const plans = data?.filter(i => i.type === "plan") ?? [];
+  const transcripts = data?.filter(i => i.type === "transcript") ?? [];
 
   return (
-    <List isLoading={isLoading} searchBarPlaceholder="Filter worktrees and plans...">
+    <List isLoading={isLoading} searchBarPlaceholder="Filter worktrees, plans and transcripts...">
       {worktrees.length > 0 && (
         <List.Section title="Worktrees">
           {worktrees.map(item => (
@@ -150,10 +166,39 @@ export default function OpenResources() {
         </List.Section>
       )}
 
-      {!isLoading && !worktrees.length && !plans.length && (
+      {transcripts.length > 0 && (
+        <List.Section title="Transcripts">
+          {transcripts.map(item => (
+            <List.Item
+              key={item.path}
+              title={item.name}
+              subtitle={item.repoName}
+              icon={{ source: Icon.Text, tintColor: Color.Orange }}
+              accessories={[
+                { date: item.modifiedAt, tooltip: `Started: ${item.modifiedAt.toLocaleString()}` },
+              ]}
+              actions={
+                <ActionPanel>
+                  {item.transcript && (
+                    <Action.Push
+                      title="View Transcript"
+                      icon={Icon.Eye}
+                      target={<TranscriptView file={item.transcript} />}
+                    />
+                  )}
+                  <Action.ShowInFinder title="Show in Finder" path={item.path} />
+                  <Action.CopyToClipboard title="Copy Path" content={item.path} />
+                </ActionPanel>
+              }
+            />
+          ))}
+        </List.Section>
+      )}
+
+      {!isLoading && !worktrees.length && !plans.length && !transcripts.length && (
         <List.EmptyView
           title="No resources found"
-          description="No worktrees or plan files exist yet."
+          description="No worktrees, plan files or transcripts exist yet."
           icon={Icon.Folder}
         />
       )}
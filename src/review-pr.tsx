@@ -0,0 +1,5 @@
+import { ReviewRequestList } from "./components/ReviewRequestList";
+
+export default function ReviewPr() {
+  return <ReviewRequestList />;
+}
@@ -13,15 +13,22 @@ import {
   clearOrchestrationParams,
   isCancellationRequested,
   clearCancellation,
+  takeSteeringMessages,
   getTask,
   appendProgressLog,
   updateTaskStatus,
+  recordHeartbeat,
+  clearHeartbeat,
+  HEARTBEAT_INTERVAL_MS,
 } from "./utils/storage";
 import { getConfig } from "./utils/preferences";
+import { launchQueuedTasks } from "./utils/orchestration";
 import {
   orchestrateImplementation,
   orchestratePlan,
   orchestrateFeedback,
+  orchestrateFixCi,
+  orchestrateResolveConflicts,
 } from "./services/claude";
 
 interface LaunchContext {
@@ -60,6 +67,13 @@ export default async function RunOrchestration(
     }
   }, 2000);
 
+  // Heartbeat so view commands can tell a live run from one whose worker died
+  await recordHeartbeat(issueKey);
+  const heartbeatInterval = setInterval(
+    () => recordHeartbeat(issueKey),
+    HEARTBEAT_INTERVAL_MS,
+  );
+
   try {
     if (params.mode === "plan") {
       const config = getConfig();
@@ -81,17 +95,23 @@ export default async function RunOrchestration(
         userInstructions: params.userInstructions,
         abortController,
         updateExistingPlan: params.updateExistingPlan,
+        excludedImageUrls: params.excludedImageUrls,
+        resume: params.resume,
       });
 
       // Keep params but switch mode so "Implement Plan" can re-launch
-      await saveOrchestrationParams(issueKey, {
-        mode: "implement",
-        issue: params.issue,
-        repoName: params.repoName,
-        branchName: params.branchName,
-        baseBranch: params.baseBranch,
-        userInstructions: params.userInstructions,
-      });
+      if ((await getTask(issueKey))?.status === "plan_complete") {
+        await saveOrchestrationParams(issueKey, {
+          mode: "implement",
+          issue: params.issue,
+          repoName: params.repoName,
+          branchName: params.branchName,
+          baseBranch: params.baseBranch,
+          userInstructions: params.userInstructions,
+          linkedRepoNames: params.linkedRepoNames,
+          excludedImageUrls: params.excludedImageUrls,
+        });
+      }
     } else if (params.mode === "implement") {
       const config = getConfig();
       const repo = config.repos.find((r) => r.name === params.repoName);
@@ -104,6 +124,10 @@ export default async function RunOrchestration(
         return;
       }
 
+      const linkedRepos = (params.linkedRepoNames ?? []).flatMap(
+        (name) => config.repos.find((r) => r.name === name) ?? [],
+      );
+
       await orchestrateImplementation({
         issue: params.issue,
         repo,
@@ -111,6 +135,9 @@ export default async function RunOrchestration(
         baseBranch: params.baseBranch,
         userInstructions: params.userInstructions,
         abortController,
+        linkedRepos,
+        excludedImageUrls: params.excludedImageUrls,
+        resume: params.resume,
       });
     } else if (params.mode === "feedback") {
       const config = getConfig();
@@ -139,8 +166,44 @@ export default async function RunOrchestration(
         repo,
         feedbackText: params.feedbackText,
         postAsComment: params.postAsComment,
-        newCommentsContext: params.newCommentsContext,
+        comments: params.comments,
         abortController,
+        resume: params.resume,
+      });
+    } else if (
+      params.mode === "fix_ci" ||
+      params.mode === "resolve_conflicts"
+    ) {
+      const config = getConfig();
+      const repo = config.repos.find((r) => r.name === params.repoName);
+      if (!repo) {
+        await safeShowToast({
+          style: Toast.Style.Failure,
+          title: "Repository not found",
+          message: params.repoName,
+        });
+        return;
+      }
+
+      const task = await getTask(params.issueKey);
+      if (!task) {
+        await safeShowToast({
+          style: Toast.Style.Failure,
+          title: "Task state not found",
+          message: params.issueKey,
+        });
+        return;
+      }
+
+      const orchestrate =
+        params.mode === "fix_ci"
+          ? orchestrateFixCi
+          : orchestrateResolveConflicts;
+      await orchestrate({
+        task,
+        repo,
+        abortController,
+        resume: params.resume,
       });
     }
   } catch (error) {
@@ -157,11 +220,25 @@ export default async function RunOrchestration(
     }
   } finally {
     clearInterval(cancelInterval);
+    clearInterval(heartbeatInterval);
+    await clearHeartbeat(issueKey);
     // After plan mode, params are kept (switched to implement) for "Implement Plan".
+    // A run parked by the spend guard keeps its params so it can be resumed.
     // For all other modes, clean up.
-    if (params.mode !== "plan") {
+    const finalStatus = (await getTask(issueKey))?.status;
+    if (params.mode !== "plan" && finalStatus !== "budget_exceeded") {
       await clearOrchestrationParams(issueKey);
     }
     await clearCancellation(issueKey);
+    // Messages sent after the last Claude session finished have no one to read them
+    const undelivered = await takeSteeringMessages(issueKey);
+    if (undelivered.length > 0) {
+      await appendProgressLog(
+        issueKey,
+        `${undelivered.length} message(s) to Claude arrived after its last session ended and were not delivered`,
+      );
+    }
+    // This worker's slot is free — start the next queued task, if any
+    await launchQueuedTasks();
   }
 }
@@ -0,0 +1,101 @@
+import {
+  fetchCheckRuns,
+  fetchCheckRunAnnotations,
+  fetchJobLog,
+} from "./github";
+import type {
+  CiFailure,
+  GitHubCheckRun,
+  GitHubCheckSuiteResponse,
+} from "../types/github";
+
+/** Job log lines kept per failed check; failures are usually at the end. */
+const LOG_TAIL_LINES = 150;
+
+/** Upper bound on a log tail, for jobs that print very long lines. */
+const MAX_LOG_TAIL_CHARS = 20_000;
+
+/** Failed checks included in one Fix CI prompt. */
+const MAX_FAILURES = 5;
+
+const FAILED_CONCLUSIONS: ReadonlySet<GitHubCheckRun["conclusion"]> = new Set([
+  "failure",
+  "timed_out",
+]);
+
+/** Overall status of a commit's check runs, as shown in the PR list. */
+export function deriveChecksStatus(
+  checks: GitHubCheckSuiteResponse,
+): "success" | "failure" | "pending" | "none" {
+  if (checks.total_count === 0) return "none";
+  if (checks.check_runs.some((c) => FAILED_CONCLUSIONS.has(c.conclusion))) {
+    return "failure";
+  }
+  if (checks.check_runs.some((c) => c.status !== "completed")) {
+    return "pending";
+  }
+  return "success";
+}
+
+/**
+ * The end of a job log, without the timestamp GitHub prefixes to every line.
+ */
+function tailLog(log: string): string {
+  const lines = log
+    .split("\n")
+    .map((line) => line.replace(/^\d{4}-\d{2}-\d{2}T[\d:.]+Z /, ""));
+  const tail = lines.slice(-LOG_TAIL_LINES).join("\n").trim();
+  return tail.length > MAX_LOG_TAIL_CHARS
+    ? `...\n${tail.slice(-MAX_LOG_TAIL_CHARS)}`
+    : tail;
+}
+
+async function describeFailure(
+  owner: string,
+  repo: string,
+  run: GitHubCheckRun,
+): Promise<CiFailure> {
+  const failure: CiFailure = {
+    name: run.name,
+    url: run.html_url,
+    summary: run.output?.summary?.trim() || run.output?.title || undefined,
+    annotations: [],
+  };
+
+  if (run.output?.annotations_count) {
+    try {
+      const annotations = await fetchCheckRunAnnotations(owner, repo, run.id);
+      failure.annotations = annotations.filter(
+        (a) => a.annotation_level !== "notice",
+      );
+    } catch {
+      // Annotations are a bonus — the log usually has the same errors
+    }
+  }
+
+  if (run.app?.slug === "github-actions") {
+    try {
+      failure.logTail = tailLog(await fetchJobLog(owner, repo, run.id));
+    } catch {
+      // Logs expire or may not be readable with the token
+    }
+  }
+
+  return failure;
+}
+
+/**
+ * The failed check runs on a commit, with their annotations and the tail of
+ * their job logs. Empty when nothing failed.
+ */
+export async function fetchCiFailures(
+  owner: string,
+  repo: string,
+  sha: string,
+): Promise<CiFailure[]> {
+  const checks = await fetchCheckRuns(owner, repo, sha);
+  const failed = checks.check_runs
+    .filter((run) => FAILED_CONCLUSIONS.has(run.conclusion))
+    .slice(0, MAX_FAILURES);
+  return Promise.all(failed.map((run) => describeFailure(owner, repo, run)));
+}
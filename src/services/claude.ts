@@ -5,27 +5,67 @@ import {
   query,
   type SDKResultMessage,
   type SDKMessage,
+  type HookCallback,
+  type SDKUserMessage,
 } from "@anthropic-ai/claude-agent-sdk";
 import { getConfig } from "../utils/preferences";
 import { NODE_BIN_PATH } from "../config";
-import { updateTaskStatus, appendProgressLog } from "../utils/storage";
+import {
+  getTask,
+  updateTaskStatus,
+  appendProgressLog,
+  appendRunTelemetry,
+  appendModelAttempt,
+  queueSteeringMessage,
+  takeSteeringMessages,
+} from "../utils/storage";
+import {
+  resolveToolPolicy,
+  checkToolUse,
+  type ToolPolicy,
+} from "../utils/tool-policy";
+import {
+  routeModel,
+  nextStrongerModel,
+  type ModelRoute,
+} from "../utils/model-routing";
 import {
   createWorktree,
+  worktreeExists,
   installDependencies,
   commitAllChanges,
   pushBranch,
   pullBranch,
+  getBranchChangeSummary,
+  getBranchDiff,
+  readPullRequestTemplate,
+  readPromptTemplate,
   getPlanFilePath,
   readPlanFile,
   ensurePlanFilesDir,
+  mergeBaseBranch,
+  findUnresolvedConflicts,
+  concludeMerge,
+  abortMerge,
+  discardUnfinishedMerge,
+  getHeadCommit,
+  getWorktreePath,
+  discardWorktree,
 } from "./worktree";
+import { runSetupSteps } from "./setup";
+import { describeInstall } from "./dependency-cache";
+import { fetchFigmaDesigns, cleanupFigmaImages } from "./figma";
+import { describeIssueImage, loadIssueImages } from "./issue-images";
+import { fetchCiFailures } from "./ci";
 import {
   createPullRequest,
+  updatePullRequest,
   addPRComment,
+  submitPullRequestReview,
   fetchPullRequest,
-  fetchPRCommits,
-  getLastCommitDate,
-  markNewCommentsAsAddressed,
+  replyToReviewComment,
+  resolveReviewThread,
+  addReactionToIssueComment,
 } from "./github";
 import { addComment as addLinearComment, transitionIssue } from "./linear";
 import {
@@ -33,10 +73,62 @@ import {
   buildPlanPrompt,
   buildPlanUpdatePrompt,
   buildFeedbackPrompt,
+  buildFixCiPrompt,
+  buildConflictResolutionPrompt,
+  buildResumePrompt,
+  buildVerificationFixPrompt,
+  buildCrossRepoSection,
+  buildFigmaSection,
+  buildIssueImagesSection,
+  buildPullRequestDescriptionPrompt,
+  buildSelfReviewPrompt,
+  buildReviewFindingsFixPrompt,
+  buildPullRequestReviewPrompt,
+  buildCommitMessagePrompt,
 } from "../utils/prompt-builder";
+import {
+  parseCommitMessage,
+  fallbackCommitSubject,
+  formatCommitMessage,
+  type AddressedComment,
+} from "../utils/commit-message";
+import {
+  parseFeedbackReport,
+  describeFeedbackComment,
+} from "../utils/feedback-report";
+import {
+  parseReviewFindings,
+  formatSelfReviewMarkdown,
+} from "../utils/self-review";
+import { parseReviewDraft } from "../utils/review-draft";
+import { openTranscript } from "../utils/transcript";
+import {
+  runVerificationCommands,
+  formatVerificationMarkdown,
+} from "./verification";
+import type {
+  GitHubPullRequest,
+  PullRequestReviewDraft,
+} from "../types/github";
 import type { LinearIssue } from "../types/linear";
+import type { PromptImage } from "../types/prompt";
 import type { RepoConfig } from "../types/preferences";
-import type { TaskState } from "../types/storage";
+import type {
+  ClaudePhase,
+  FeedbackComment,
+  FeedbackOutcome,
+  LinkedRepoState,
+  ModelAttempt,
+  ResumeParams,
+  ReviewFinding,
+  RunTelemetry,
+  SelfReviewResult,
+  TaskState,
+  TaskStatus,
+  ToolCallTelemetry,
+  TurnTelemetry,
+  VerificationResult,
+} from "../types/storage";
 
 /** showToast silently fails in background no-view commands — guard every call. */
 async function safeShowToast(options: Toast.Options): Promise<void> {
@@ -55,6 +147,224 @@ interface OrchestrateParams {
   userInstructions: string;
   abortController?: AbortController;
   updateExistingPlan?: boolean;
+  /** Further repos to implement the issue in after `repo`, each with its own PR. */
+  linkedRepos?: RepoConfig[];
+  /** Issue screenshots not to attach to the prompt. */
+  excludedImageUrls?: string[];
+  resume?: ResumeParams;
+}
+
+const RESUME_REASONS: Record<ResumeParams["reason"], string> = {
+  budget_exceeded:
+    "Your previous run was stopped because it reached its spending limit. The limit has since been raised.",
+  stalled:
+    "Your previous run was interrupted before it finished because the background worker stopped unexpectedly.",
+};
+
+/** Whether an interrupted run already got past the given step. */
+function reachedCheckpoint(
+  task: TaskState | null,
+  status: TaskStatus,
+): task is TaskState {
+  return task?.checkpoints?.includes(status) ?? false;
+}
+
+/**
+ * Reuse the interrupted run's worktree when it is still on disk, otherwise
+ * create a fresh one.
+ */
+async function ensureWorktree(
+  issueKey: string,
+  resumedTask: TaskState | null,
+  params: { repo: RepoConfig; branchName: string; baseBranch: string },
+): Promise<string> {
+  if (
+    reachedCheckpoint(resumedTask, "worktree_created") &&
+    (await worktreeExists(resumedTask.worktreePath))
+  ) {
+    await appendProgressLog(
+      issueKey,
+      `Reusing worktree at ${resumedTask.worktreePath}`,
+    );
+    return resumedTask.worktreePath;
+  }
+
+  await appendProgressLog(issueKey, "Creating git worktree...");
+  const worktreePath = await createWorktree(params);
+  await appendProgressLog(issueKey, `Worktree created at ${worktreePath}`);
+  await setUpWorktree(issueKey, params.repo, worktreePath);
+  await updateTaskStatus(issueKey, "worktree_created", { worktreePath });
+  return worktreePath;
+}
+
+/** Run the repo's setup steps in a newly created worktree. */
+async function setUpWorktree(
+  issueKey: string,
+  repo: RepoConfig,
+  worktreePath: string,
+): Promise<void> {
+  if (repo.setupSteps.length === 0) return;
+  await appendProgressLog(issueKey, "Running setup steps...");
+  await runSetupSteps(repo, worktreePath, (message) =>
+    appendProgressLog(issueKey, message),
+  );
+  await appendProgressLog(issueKey, "Setup steps complete");
+}
+
+/** Install dependencies unless the interrupted run already did. */
+async function ensureDependencies(
+  issueKey: string,
+  resumedTask: TaskState | null,
+  repo: RepoConfig,
+  worktreePath: string,
+): Promise<void> {
+  if (
+    reachedCheckpoint(resumedTask, "dependencies_installed") &&
+    resumedTask.worktreePath === worktreePath
+  ) {
+    await appendProgressLog(issueKey, "Dependencies already installed");
+    return;
+  }
+  if (!repo.installDependencies) {
+    // The repo's setup steps install dependencies their own way
+    await updateTaskStatus(issueKey, "dependencies_installed");
+    return;
+  }
+
+  await appendProgressLog(issueKey, "Installing dependencies...");
+  const install = await installDependencies(worktreePath);
+  await updateTaskStatus(issueKey, "dependencies_installed");
+  await appendProgressLog(issueKey, describeInstall(install));
+}
+
+/** Thrown by runClaude when a run reaches its spend cap. */
+class BudgetExceededError extends Error {
+  constructor(
+    readonly costUsd: number,
+    readonly sessionId?: string,
+  ) {
+    super(`Spend cap reached ($${costUsd.toFixed(2)} spent in this run)`);
+    this.name = "BudgetExceededError";
+  }
+}
+
+/** Thrown by runClaude when a run fails; carries what it spent before failing. */
+class ClaudeRunError extends Error {
+  constructor(
+    message: string,
+    readonly costUsd: number,
+    readonly sessionId?: string,
+  ) {
+    super(message);
+    this.name = "ClaudeRunError";
+  }
+}
+
+/**
+ * Return how much of the task's spend cap is left, given what earlier phases
+ * and feedback rounds have already spent.
+ */
+async function getRemainingBudget(
+  issueKey: string,
+  priorCostUsd: number,
+): Promise<number> {
+  const task = await getTask(issueKey);
+  const budgetUsd = task?.budgetUsd ?? getConfig().claudeMaxBudgetUsd;
+  return Math.max(budgetUsd - priorCostUsd, 0);
+}
+
+/**
+ * Park the task in "budget_exceeded" so it can be resumed with a higher cap.
+ */
+async function handleBudgetExceeded(
+  issueKey: string,
+  phase: ClaudePhase,
+  error: BudgetExceededError,
+  priorCostUsd: number,
+): Promise<void> {
+  const costUsd = priorCostUsd + error.costUsd;
+  await updateTaskStatus(issueKey, "budget_exceeded", {
+    costUsd,
+    budgetExceededPhase: phase,
+    ...(error.sessionId ? { claudeSessionId: error.sessionId } : {}),
+  });
+  await appendProgressLog(
+    issueKey,
+    `Spend cap reached — stopped after $${costUsd.toFixed(2)}. Raise the budget to resume.`,
+  );
+  await safeShowToast({
+    style: Toast.Style.Failure,
+    title: `${issueKey}: Budget Exceeded`,
+    message: `$${costUsd.toFixed(2)} spent`,
+  });
+}
+
+/**
+ * Fetch the issue's linked Figma designs and embedded screenshots for the
+ * prompt. Both are optional context: failures are logged and the run goes on
+ * without them.
+ */
+async function gatherVisualContext(
+  issueKey: string,
+  issue: LinearIssue,
+  excludedImageUrls: string[] = [],
+): Promise<{
+  figmaContext: string;
+  attachmentsContext: string;
+  images: PromptImage[];
+}> {
+  let figmaContext = "";
+  const images: PromptImage[] = [];
+  try {
+    const figmaDesigns = await fetchFigmaDesigns(issue);
+    if (figmaDesigns.length > 0) {
+      figmaContext = buildFigmaSection(figmaDesigns);
+      const rendered = figmaDesigns.filter((d) => d.imageBase64);
+      images.push(
+        ...rendered.map((d) => ({
+          mediaType: "image/png" as const,
+          data: d.imageBase64,
+        })),
+      );
+      await appendProgressLog(
+        issueKey,
+        `Found ${figmaDesigns.length} Figma design reference(s), ${rendered.length} attached as images`,
+      );
+    }
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    await appendProgressLog(
+      issueKey,
+      `Warning: Figma fetch failed (${msg}). Continuing without design context.`,
+    );
+  }
+
+  const { attached, skipped } = await loadIssueImages(issue, excludedImageUrls);
+  for (const { image, reason } of skipped) {
+    await appendProgressLog(
+      issueKey,
+      `Warning: screenshot ${describeIssueImage(image)} not attached (${reason})`,
+    );
+  }
+  if (excludedImageUrls.length > 0) {
+    await appendProgressLog(
+      issueKey,
+      `${excludedImageUrls.length} screenshot(s) left out at launch`,
+    );
+  }
+  if (attached.length > 0) {
+    images.push(...attached.map((a) => a.content));
+    await appendProgressLog(
+      issueKey,
+      `Attached ${attached.length} screenshot(s) from Linear`,
+    );
+  }
+
+  return {
+    figmaContext,
+    attachmentsContext: buildIssueImagesSection(attached.map((a) => a.image)),
+    images,
+  };
 }
 
 /**
@@ -71,9 +381,19 @@ export async function orchestrateImplementation(
     baseBranch,
     userInstructions,
     abortController,
+    linkedRepos = [],
+    resume,
   } = params;
   const issueKey = issue.identifier;
   const config = getConfig();
+  // A resumed run continues the previous spend and skips finished steps. A
+  // run started by "Implement Plan" continues the planning spend; a fresh run
+  // starts from zero, as startOrchestration saved a new task state.
+  const existingTask = await getTask(issueKey);
+  const resumedTask = resume ? existingTask : null;
+  const resumeSessionId = resume?.sessionId;
+  const priorCostUsd = existingTask?.costUsd ?? 0;
+  let costUsd = priorCostUsd;
 
   const notify = (title: string, message?: string) =>
     safeShowToast({ style: Toast.Style.Animated, title, message });
@@ -81,24 +401,27 @@ export async function orchestrateImplementation(
   try {
     // Step 1: Create worktree
     await notify(`${issueKey}: Creating worktree`);
-    await appendProgressLog(issueKey, "Creating git worktree...");
-    const worktreePath = await createWorktree({ repo, branchName, baseBranch });
-    await updateTaskStatus(issueKey, "worktree_created", { worktreePath });
-    await appendProgressLog(issueKey, `Worktree created at ${worktreePath}`);
+    const worktreePath = await ensureWorktree(issueKey, resumedTask, {
+      repo,
+      branchName,
+      baseBranch,
+    });
 
-    // Move Linear issue to In Progress
-    try {
-      await transitionIssue(issue.id, "In Progress");
-      await appendProgressLog(issueKey, "Linear issue moved to In Progress");
-    } catch {
-      await appendProgressLog(
-        issueKey,
-        "Warning: Failed to transition Linear issue to In Progress",
-      );
+    // Move Linear issue to In Progress (already done on the original run)
+    if (!resume) {
+      try {
+        await transitionIssue(issue.id, "In Progress");
+        await appendProgressLog(issueKey, "Linear issue moved to In Progress");
+      } catch {
+        await appendProgressLog(
+          issueKey,
+          "Warning: Failed to transition Linear issue to In Progress",
+        );
+      }
     }
 
     // Attach extra context to Linear as a comment
-    if (userInstructions.trim()) {
+    if (userInstructions.trim() && !resume) {
       try {
         await addLinearComment(
           issue.id,
@@ -115,82 +438,169 @@ export async function orchestrateImplementation(
 
     // Step 2: Install dependencies
     await notify(`${issueKey}: Installing dependencies`);
-    await appendProgressLog(issueKey, "Installing dependencies...");
-    await installDependencies(worktreePath);
-    await updateTaskStatus(issueKey, "dependencies_installed");
-    await appendProgressLog(issueKey, "Dependencies installed");
+    await ensureDependencies(issueKey, resumedTask, repo, worktreePath);
 
-    // Step 3: Fetch Figma design context (if configured)
-    let figmaContext = "";
-    try {
-      const figmaDesigns = await fetchFigmaContext(issue);
-      if (figmaDesigns.length > 0) {
-        figmaContext = buildFigmaPromptSection(figmaDesigns);
+    let sessionId: string | undefined;
+    let implementationSummary: string | undefined;
+    const implementRoute = routeModel({
+      mode: "implement",
+      repoName: repo.name,
+      priority: issue.priority,
+      labels: issue.labels.nodes.map((l) => l.name),
+    });
+    // Fix-ups continue the session on whichever model finished it
+    let sessionModel = implementRoute.model;
+    if (
+      reachedCheckpoint(resumedTask, "implementation_complete") &&
+      resumedTask.claudeSessionId
+    ) {
+      // Claude already finished before the interruption — go straight to checks
+      sessionId = resumedTask.claudeSessionId;
+      await appendProgressLog(
+        issueKey,
+        "Implementation already complete — skipping Claude run",
+      );
+    } else {
+      // Step 3: Gather design and screenshot context
+      const visual = await gatherVisualContext(
+        issueKey,
+        issue,
+        params.excludedImageUrls,
+      );
+
+      // Step 4: Build prompt and run Claude
+      await notify(`${issueKey}: Claude is implementing`);
+      await updateTaskStatus(issueKey, "implementing");
+      await appendProgressLog(
+        issueKey,
+        "Starting Claude Code implementation...",
+      );
+
+      // Check for an existing plan file and include it in the prompt
+      const existingPlan = await readPlanFile(branchName);
+      if (existingPlan) {
         await appendProgressLog(
           issueKey,
-          `Found ${figmaDesigns.length} Figma design reference(s)`,
+          "Found existing plan file — including in prompt",
         );
       }
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error);
-      await appendProgressLog(
-        issueKey,
-        `Warning: Figma fetch failed (${msg}). Continuing without design context.`,
+
+      const template = await readPromptTemplate(
+        repo,
+        "implement",
+        worktreePath,
       );
-    }
+      if (template) {
+        await appendProgressLog(issueKey, "Using the repo's prompt template");
+      }
 
-    // Step 4: Build prompt and run Claude
-    await notify(`${issueKey}: Claude is implementing`);
-    await updateTaskStatus(issueKey, "implementing");
-    await appendProgressLog(issueKey, "Starting Claude Code implementation...");
+      const taskPrompt = buildImplementationPrompt({
+        issue,
+        descriptionMarkdown: issue.description ?? "",
+        userInstructions,
+        repoName: repo.name,
+        baseBranch,
+        figmaContext: visual.figmaContext,
+        attachmentsContext: visual.attachmentsContext,
+        plan: existingPlan,
+        template,
+        crossRepoContext:
+          linkedRepos.length > 0
+            ? buildCrossRepoSection({
+                currentRepo: repo.name,
+                laterRepos: linkedRepos.map((r) => r.name),
+                completed: [],
+              })
+            : undefined,
+      });
+      const prompt =
+        resume && resumeSessionId
+          ? buildResumePrompt({
+              taskPrompt,
+              reason: RESUME_REASONS[resume.reason],
+            })
+          : taskPrompt;
+
+      const result = await runRoutedSession({
+        route: implementRoute,
+        prompt,
+        // A resumed session already has the images
+        images: resumeSessionId ? undefined : visual.images,
+        cwd: worktreePath,
+        resumeSessionId,
+        abortController,
+        maxBudgetUsd: await getRemainingBudget(issueKey, priorCostUsd),
+        onProgress: (entry) => appendProgressLog(issueKey, entry),
+        telemetry: {
+          issueKey,
+          repoName: repo.name,
+          phase: "implement",
+          label: "Implementation",
+        },
+        toolPolicy: resolveToolPolicy(repo),
+      });
 
-    // Check for an existing plan file and include it in the prompt
-    const existingPlan = await readPlanFile(branchName);
-    let extraInstructions = userInstructions;
-    if (existingPlan) {
+      // Store session ID for potential resume
+      sessionId = result.sessionId;
+      sessionModel = result.model;
+      implementationSummary = result.summary;
+      costUsd += result.costUsd ?? 0;
+      await updateTaskStatus(issueKey, "implementation_complete", {
+        claudeSessionId: result.sessionId,
+        costUsd,
+      });
       await appendProgressLog(
         issueKey,
-        "Found existing plan file — including in prompt",
+        `Implementation complete (cost: $${costUsd.toFixed(2)})`,
       );
-      extraInstructions =
-        (userInstructions ? userInstructions + "\n\n" : "") +
-        "## Implementation Plan\n\n" +
-        "A plan was prepared in a prior session. Follow it closely:\n\n" +
-        existingPlan;
     }
 
-    const prompt = buildImplementationPrompt({
-      issue,
-      descriptionMarkdown: issue.description ?? "",
-      userInstructions: extraInstructions,
-      repoName: repo.name,
-      baseBranch,
-      figmaContext,
-    });
-
-    const result = await runClaude({
-      prompt,
-      cwd: worktreePath,
+    // Step 5: Run the repo's checks, feeding failures back to Claude
+    const verified = await verifyWithFixups({
+      issueKey,
+      repo,
+      worktreePath,
+      sessionId,
+      model: sessionModel,
       abortController,
-      onProgress: (entry) => appendProgressLog(issueKey, entry),
-    });
-
-    // Store session ID for potential resume
-    const costUsd = result.costUsd ?? 0;
-    await updateTaskStatus(issueKey, "implementation_complete", {
-      claudeSessionId: result.sessionId,
       costUsd,
     });
-    await appendProgressLog(
-      issueKey,
-      `Implementation complete (cost: $${costUsd.toFixed(2)})`,
-    );
+    costUsd = verified.costUsd;
+    let { verification } = verified;
+
+    // Step 6: Have a second session review the diff before the PR opens
+    let selfReview = resumedTask?.selfReview;
+    if (repo.selfReview && !selfReview) {
+      await notify(`${issueKey}: Reviewing the changes`);
+      const reviewed = await selfReviewWithFixups({
+        issue,
+        repo,
+        worktreePath,
+        baseBranch,
+        branchName,
+        sessionId: verified.sessionId,
+        model: sessionModel,
+        abortController,
+        costUsd,
+      });
+      costUsd = reviewed.costUsd;
+      verification = reviewed.verification ?? verification;
+      selfReview = reviewed.selfReview;
+    }
 
-    // Step 4: Commit any uncommitted changes, then push
+    // Step 7: Commit any uncommitted changes, then push
     await notify(`${issueKey}: Committing & pushing`);
     await updateTaskStatus(issueKey, "pushing");
-    const didCommit = await commitAllChanges(worktreePath);
-    if (didCommit) {
+    const commit = await commitRemainingChanges({
+      issueKey,
+      issueTitle: issue.title,
+      repo,
+      worktreePath,
+      phase: "implement",
+      costUsd,
+    });
+    costUsd = commit.costUsd;
+    if (commit.committed) {
       await appendProgressLog(
         issueKey,
         "Committed remaining uncommitted changes",
@@ -200,56 +610,146 @@ export async function orchestrateImplementation(
     await pushBranch(worktreePath, branchName, repo.name);
     await appendProgressLog(issueKey, "Branch pushed");
 
-    // Step 5: Create PR
-    await notify(`${issueKey}: Creating pull request`);
-    await appendProgressLog(issueKey, "Creating pull request...");
-    const prBody = [
-      `## ${issueKey}: ${issue.title}`,
-      "",
-      issue.description ? issue.description.slice(0, 2000) : "",
-      "",
-      `[Linear Issue](${issue.url})`,
-      "",
-      "---",
-      `*Implemented by Claude Code (cost: $${costUsd.toFixed(2)})*`,
-    ].join("\n");
-
-    const pr = await createPullRequest({
-      owner: config.githubOwner,
-      repo: repo.name,
-      title: `${issueKey}: ${issue.title}`,
-      body: prBody,
-      head: branchName,
-      base: baseBranch,
-      labels: ["auto"],
-    });
-
-    await updateTaskStatus(issueKey, "pr_created", {
-      prUrl: pr.html_url,
-      prNumber: pr.number,
-    });
-    await appendProgressLog(issueKey, `PR created: ${pr.html_url}`);
-
-    // Move Linear issue to In Review
-    try {
-      await transitionIssue(issue.id, "In Review");
-      await appendProgressLog(issueKey, "Linear issue moved to In Review");
-    } catch {
-      await appendProgressLog(
-        issueKey,
-        "Warning: Failed to transition Linear issue to In Review",
-      );
+    // Step 8: Repeat the pipeline in each linked repo, briefing every
+    // session on what the repos before it changed
+    let linkedRepoStates: LinkedRepoState[] = [];
+    if (linkedRepos.length > 0) {
+      const linked = await implementLinkedRepos({
+        issue,
+        primaryRepo: repo,
+        primaryWorktreePath: worktreePath,
+        primaryBaseBranch: baseBranch,
+        linkedRepos,
+        branchName,
+        userInstructions,
+        abortController,
+        resume,
+        costUsd,
+      });
+      linkedRepoStates = linked.linkedRepos;
+      costUsd = linked.costUsd;
     }
 
-    // Step 6: Add comment to Linear
-    try {
-      await addLinearComment(issue.id, `Pull request created: ${pr.html_url}`);
-      await appendProgressLog(issueKey, "Linear comment added");
-    } catch {
-      await appendProgressLog(
-        issueKey,
-        "Warning: Failed to add Linear comment",
-      );
+    // Step 9: Create PR (as a draft when checks are still failing)
+    let prUrl: string;
+    let prNumber: number;
+    const prAlreadyOpen =
+      reachedCheckpoint(resumedTask, "pr_created") &&
+      !!resumedTask.prUrl &&
+      !!resumedTask.prNumber;
+    if (prAlreadyOpen) {
+      // The push above already updated the PR opened by the interrupted run
+      prUrl = resumedTask.prUrl!;
+      prNumber = resumedTask.prNumber!;
+      await appendProgressLog(issueKey, `PR already open: ${prUrl}`);
+    } else {
+      await notify(`${issueKey}: Creating pull request`);
+      const content = await composePullRequest({
+        issue,
+        repoName: repo.name,
+        worktreePath,
+        baseBranch,
+        branchName,
+        summary: implementationSummary,
+        verification,
+        phase: "implement",
+        costUsd,
+        log: (entry) => appendProgressLog(issueKey, entry),
+      });
+      costUsd = content.costUsd;
+      await appendProgressLog(issueKey, "Creating pull request...");
+      const pr = await createPullRequest({
+        owner: config.githubOwner,
+        repo: repo.name,
+        title: content.title,
+        body: content.body,
+        head: branchName,
+        base: baseBranch,
+        labels: ["auto"],
+        draft: verification ? !verification.passed : false,
+      });
+
+      await updateTaskStatus(issueKey, "pr_created", {
+        prUrl: pr.html_url,
+        prNumber: pr.number,
+        prCreatedAt: Date.now(),
+        costUsd,
+      });
+      prUrl = pr.html_url;
+      prNumber = pr.number;
+      await appendProgressLog(issueKey, `PR created: ${prUrl}`);
+
+      if (selfReview) {
+        try {
+          await submitPullRequestReview(
+            config.githubOwner,
+            repo.name,
+            pr.number,
+            { body: formatSelfReviewMarkdown(selfReview) },
+          );
+          await appendProgressLog(issueKey, "Self-review posted on the PR");
+        } catch (error) {
+          const msg = error instanceof Error ? error.message : String(error);
+          await appendProgressLog(
+            issueKey,
+            `Warning: Failed to post the self-review (${msg})`,
+          );
+        }
+      }
+    }
+
+    // Cross-repo PRs each link to their siblings
+    const allPrs = [
+      { repoName: repo.name, prNumber, prUrl },
+      ...linkedRepoStates.map((r) => ({
+        repoName: r.repoName,
+        prNumber: r.prNumber!,
+        prUrl: r.prUrl!,
+      })),
+    ];
+    if (allPrs.length > 1) {
+      try {
+        await linkSiblingPullRequests(allPrs);
+        await appendProgressLog(issueKey, "Linked sibling PRs");
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        await appendProgressLog(
+          issueKey,
+          `Warning: Failed to link sibling PRs (${msg})`,
+        );
+      }
+    }
+
+    if (!prAlreadyOpen) {
+      // Move Linear issue to In Review
+      try {
+        await transitionIssue(issue.id, "In Review");
+        await appendProgressLog(issueKey, "Linear issue moved to In Review");
+      } catch {
+        await appendProgressLog(
+          issueKey,
+          "Warning: Failed to transition Linear issue to In Review",
+        );
+      }
+
+      // Step 10: Add comment to Linear
+      try {
+        await addLinearComment(
+          issue.id,
+          allPrs.length > 1
+            ? [
+                "Pull requests created:",
+                ...allPrs.map((p) => `- ${p.repoName}: ${p.prUrl}`),
+              ].join("\n")
+            : `Pull request created: ${prUrl}`,
+        );
+        await appendProgressLog(issueKey, "Linear comment added");
+      } catch {
+        await appendProgressLog(
+          issueKey,
+          "Warning: Failed to add Linear comment",
+        );
+      }
     }
 
     // Done
@@ -259,10 +759,12 @@ export async function orchestrateImplementation(
     await safeShowToast({
       style: Toast.Style.Success,
       title: `${issueKey}: PR Created`,
-      message: pr.html_url,
+      message: prUrl,
     });
   } catch (error) {
-    if (abortController?.signal.aborted) {
+    if (error instanceof BudgetExceededError) {
+      await handleBudgetExceeded(issueKey, "implement", error, costUsd);
+    } else if (abortController?.signal.aborted) {
       await updateTaskStatus(issueKey, "cancelled");
       await appendProgressLog(issueKey, "Task cancelled by user");
       await safeShowToast({
@@ -300,8 +802,12 @@ export async function orchestratePlan(
     userInstructions,
     abortController,
     updateExistingPlan,
+    resume,
   } = params;
   const issueKey = issue.identifier;
+  const resumedTask = resume ? await getTask(issueKey) : null;
+  const resumeSessionId = resume?.sessionId;
+  const priorCostUsd = resumedTask?.costUsd ?? 0;
 
   const notify = (title: string, message?: string) =>
     safeShowToast({ style: Toast.Style.Animated, title, message });
@@ -309,24 +815,27 @@ export async function orchestratePlan(
   try {
     // Step 1: Create worktree
     await notify(`${issueKey}: Creating worktree`);
-    await appendProgressLog(issueKey, "Creating git worktree...");
-    const worktreePath = await createWorktree({ repo, branchName, baseBranch });
-    await updateTaskStatus(issueKey, "worktree_created", { worktreePath });
-    await appendProgressLog(issueKey, `Worktree created at ${worktreePath}`);
+    const worktreePath = await ensureWorktree(issueKey, resumedTask, {
+      repo,
+      branchName,
+      baseBranch,
+    });
 
-    // Move Linear issue to In Progress
-    try {
-      await transitionIssue(issue.id, "In Progress");
-      await appendProgressLog(issueKey, "Linear issue moved to In Progress");
-    } catch {
-      await appendProgressLog(
-        issueKey,
-        "Warning: Failed to transition Linear issue to In Progress",
-      );
+    // Move Linear issue to In Progress (already done on the original run)
+    if (!resume) {
+      try {
+        await transitionIssue(issue.id, "In Progress");
+        await appendProgressLog(issueKey, "Linear issue moved to In Progress");
+      } catch {
+        await appendProgressLog(
+          issueKey,
+          "Warning: Failed to transition Linear issue to In Progress",
+        );
+      }
     }
 
     // Attach extra context to Linear as a comment
-    if (userInstructions.trim()) {
+    if (userInstructions.trim() && !resume) {
       try {
         await addLinearComment(
           issue.id,
@@ -343,29 +852,14 @@ export async function orchestratePlan(
 
     // Step 2: Install dependencies
     await notify(`${issueKey}: Installing dependencies`);
-    await appendProgressLog(issueKey, "Installing dependencies...");
-    await installDependencies(worktreePath);
-    await updateTaskStatus(issueKey, "dependencies_installed");
-    await appendProgressLog(issueKey, "Dependencies installed");
+    await ensureDependencies(issueKey, resumedTask, repo, worktreePath);
 
-    // Step 3: Fetch Figma design context (if configured)
-    let figmaContext = "";
-    try {
-      const figmaDesigns = await fetchFigmaContext(issue);
-      if (figmaDesigns.length > 0) {
-        figmaContext = buildFigmaPromptSection(figmaDesigns);
-        await appendProgressLog(
-          issueKey,
-          `Found ${figmaDesigns.length} Figma design reference(s)`,
-        );
-      }
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error);
-      await appendProgressLog(
-        issueKey,
-        `Warning: Figma fetch failed (${msg}). Continuing without design context.`,
-      );
-    }
+    // Step 3: Gather design and screenshot context
+    const visual = await gatherVisualContext(
+      issueKey,
+      issue,
+      params.excludedImageUrls,
+    );
 
     // Step 4: Run Claude in plan-only mode
     await notify(`${issueKey}: Claude is planning`);
@@ -379,7 +873,7 @@ export async function orchestratePlan(
     // freely, then copy it to the persistent planFilePath afterwards.
     const inWorktreePlanPath = path.join(worktreePath, ".autozerts-plan.md");
 
-    let prompt: string;
+    let taskPrompt: string;
     if (updateExistingPlan) {
       const existingPlan = await readPlanFile(branchName);
       if (existingPlan) {
@@ -387,7 +881,7 @@ export async function orchestratePlan(
           issueKey,
           "Updating existing plan based on feedback...",
         );
-        prompt = buildPlanUpdatePrompt({
+        taskPrompt = buildPlanUpdatePrompt({
           issue,
           descriptionMarkdown: issue.description ?? "",
           userInstructions,
@@ -395,21 +889,25 @@ export async function orchestratePlan(
           baseBranch,
           planFilePath: inWorktreePlanPath,
           existingPlan,
-          figmaContext,
+          figmaContext: visual.figmaContext,
+          attachmentsContext: visual.attachmentsContext,
+          template: await readPromptTemplate(repo, "plan-update", worktreePath),
         });
       } else {
         await appendProgressLog(
           issueKey,
           "No existing plan found, creating new plan...",
         );
-        prompt = buildPlanPrompt({
+        taskPrompt = buildPlanPrompt({
           issue,
           descriptionMarkdown: issue.description ?? "",
           userInstructions,
           repoName: repo.name,
           baseBranch,
           planFilePath: inWorktreePlanPath,
-          figmaContext,
+          figmaContext: visual.figmaContext,
+          attachmentsContext: visual.attachmentsContext,
+          template: await readPromptTemplate(repo, "plan", worktreePath),
         });
       }
     } else {
@@ -417,22 +915,47 @@ export async function orchestratePlan(
         issueKey,
         "Starting Claude Code planning session...",
       );
-      prompt = buildPlanPrompt({
+      taskPrompt = buildPlanPrompt({
         issue,
         descriptionMarkdown: issue.description ?? "",
         userInstructions,
         repoName: repo.name,
         baseBranch,
         planFilePath: inWorktreePlanPath,
-        figmaContext,
+        figmaContext: visual.figmaContext,
+        attachmentsContext: visual.attachmentsContext,
+        template: await readPromptTemplate(repo, "plan", worktreePath),
       });
     }
-
-    const result = await runClaude({
+    const prompt =
+      resume && resumeSessionId
+        ? buildResumePrompt({
+            taskPrompt,
+            reason: RESUME_REASONS[resume.reason],
+          })
+        : taskPrompt;
+
+    const result = await runRoutedSession({
+      route: routeModel({
+        mode: "plan",
+        repoName: repo.name,
+        priority: issue.priority,
+        labels: issue.labels.nodes.map((l) => l.name),
+      }),
       prompt,
+      images: resumeSessionId ? undefined : visual.images,
       cwd: worktreePath,
+      resumeSessionId,
       abortController,
+      maxBudgetUsd: await getRemainingBudget(issueKey, priorCostUsd),
       onProgress: (entry) => appendProgressLog(issueKey, entry),
+      telemetry: {
+        issueKey,
+        repoName: repo.name,
+        phase: "plan",
+        label: "Planning",
+      },
+      toolPolicy: resolveToolPolicy(repo),
     });
 
     // Copy plan from the worktree to the persistent plan files directory,
@@ -450,7 +973,7 @@ export async function orchestratePlan(
       );
     }
 
-    const costUsd = result.costUsd ?? 0;
+    const costUsd = priorCostUsd + (result.costUsd ?? 0);
     await updateTaskStatus(issueKey, "plan_complete", {
       claudeSessionId: result.sessionId,
       costUsd,
@@ -466,7 +989,9 @@ export async function orchestratePlan(
       message: "Review the plan, then launch implementation.",
     });
   } catch (error) {
-    if (abortController?.signal.aborted) {
+    if (error instanceof BudgetExceededError) {
+      await handleBudgetExceeded(issueKey, "plan", error, priorCostUsd);
+    } else if (abortController?.signal.aborted) {
       await updateTaskStatus(issueKey, "cancelled");
       await appendProgressLog(issueKey, "Task cancelled by user");
       await safeShowToast({
@@ -497,22 +1022,26 @@ export async function orchestrateFeedback(params: {
   repo: RepoConfig;
   feedbackText: string;
   postAsComment: boolean;
-  newCommentsContext?: string;
+  comments?: FeedbackComment[];
   abortController?: AbortController;
+  resume?: ResumeParams;
 }): Promise<void> {
-  const {
-    task,
-    repo,
-    feedbackText,
-    postAsComment,
-    newCommentsContext,
-    abortController,
-  } = params;
+  const { task, repo, feedbackText, postAsComment, abortController, resume } =
+    params;
+  const comments = params.comments ?? [];
   const issueKey = task.issueKey;
+  const resumeSessionId = resume?.sessionId;
+  // Feedback rounds accumulate onto the task's total spend
+  let costUsd = task.costUsd ?? 0;
 
   try {
-    // Post comment to GitHub if requested
-    if (postAsComment && feedbackText.trim().length > 0 && task.prNumber) {
+    // Post comment to GitHub if requested (already done on the original run)
+    if (
+      postAsComment &&
+      !resume &&
+      feedbackText.trim().length > 0 &&
+      task.prNumber
+    ) {
       await addPRComment(
         getConfig().githubOwner,
         repo.name,
@@ -522,170 +1051,1625 @@ export async function orchestrateFeedback(params: {
       await appendProgressLog(issueKey, "Feedback posted as GitHub comment");
     }
 
-    // Ensure worktree exists
-    let worktreePath = task.worktreePath;
-    const fs = await import("fs/promises");
-    try {
-      await fs.access(worktreePath);
-    } catch {
-      // Recreate worktree
-      await appendProgressLog(issueKey, "Recreating worktree...");
-      worktreePath = await createWorktree({
-        repo,
-        branchName: task.branchName,
-        baseBranch: task.baseBranch,
-      });
-      await updateTaskStatus(issueKey, "worktree_created", { worktreePath });
-    }
-
-    // Commit any uncommitted local changes first
-    const hadLocalChanges = await commitAllChanges(worktreePath);
-    if (hadLocalChanges) {
-      await appendProgressLog(issueKey, "Committed uncommitted local changes");
-    }
+    const synced = await syncPullRequestWorktree({
+      task,
+      repo,
+      phase: "feedback",
+      costUsd,
+    });
+    const worktreePath = synced.worktreePath;
+    costUsd = synced.costUsd;
 
-    // Pull latest changes from origin (with rebase)
-    await appendProgressLog(issueKey, "Pulling latest changes from origin...");
-    try {
-      await pullBranch(worktreePath, task.branchName, repo.name);
-      await appendProgressLog(issueKey, "Branch synced with origin");
-    } catch (pullError) {
-      const msg =
-        pullError instanceof Error ? pullError.message : String(pullError);
-      await appendProgressLog(
-        issueKey,
-        `Warning: Pull failed (${msg}). Continuing with local state.`,
-      );
-    }
+    // Run Claude with feedback prompt
+    await updateTaskStatus(issueKey, "feedback_implementing");
+    await appendProgressLog(issueKey, "Starting Claude Code for feedback...");
 
-    // Capture the last commit date before Claude makes changes (for marking comments later)
-    let commentCutoffDate: string | null = null;
-    let prAuthor: string | null = null;
-    if (task.prNumber) {
-      try {
-        const config = getConfig();
-        const [pr, commits] = await Promise.all([
-          fetchPullRequest(config.githubOwner, repo.name, task.prNumber),
-          fetchPRCommits(config.githubOwner, repo.name, task.prNumber),
-        ]);
-        prAuthor = pr.user.login;
-        commentCutoffDate = getLastCommitDate(commits);
-      } catch {
-        // Ignore - we'll skip marking comments
+    const taskPrompt = buildFeedbackPrompt({
+      issueKey,
+      prNumber: task.prNumber ?? 0,
+      feedbackText,
+      comments,
+      template: await readPromptTemplate(repo, "feedback", worktreePath),
+    });
+    const prompt =
+      resume && resumeSessionId
+        ? buildResumePrompt({
+            taskPrompt,
+            reason: RESUME_REASONS[resume.reason],
+          })
+        : taskPrompt;
+
+    const result = await runRoutedSession({
+      route: routeModel({
+        mode: "feedback",
+        repoName: repo.name,
+        priority: task.priority,
+        labels: task.labels,
+      }),
+      prompt,
+      cwd: worktreePath,
+      resumeSessionId: resumeSessionId ?? task.claudeSessionId,
+      abortController,
+      maxBudgetUsd: await getRemainingBudget(issueKey, costUsd),
+      onProgress: (entry) => appendProgressLog(issueKey, entry),
+      telemetry: {
+        issueKey,
+        repoName: repo.name,
+        phase: "feedback",
+        label: "Feedback",
+      },
+      toolPolicy: resolveToolPolicy(repo),
+    });
+
+    costUsd += result.costUsd ?? 0;
+    const outcomes = parseFeedbackReport(result.summary ?? "", comments);
+    await updateTaskStatus(issueKey, "pushing", {
+      costUsd,
+      claudeSessionId: result.sessionId,
+      feedbackOutcomes: outcomes.length > 0 ? outcomes : undefined,
+    });
+    await appendProgressLog(
+      issueKey,
+      "Feedback implemented, committing & pushing...",
+    );
+
+    // Commit any uncommitted changes, then push (PR auto-updates)
+    const commit = await commitRemainingChanges({
+      issueKey,
+      issueTitle: task.issueSummary,
+      repo,
+      worktreePath,
+      addressedComments: outcomes
+        .filter((o) => o.status === "addressed")
+        .map(({ comment }) => ({
+          author: comment.author,
+          body: comment.body,
+          path: comment.path,
+        })),
+      phase: "feedback",
+      costUsd,
+    });
+    costUsd = commit.costUsd;
+    if (commit.committed) {
+      await appendProgressLog(
+        issueKey,
+        "Committed remaining uncommitted changes",
+      );
+    }
+    await pushBranch(worktreePath, task.branchName, repo.name);
+    await appendProgressLog(issueKey, "Feedback changes pushed");
+
+    // Refresh the PR title and description so they match the branch as it is now
+    if (task.prNumber) {
+      const content = await composePullRequest({
+        issue: {
+          identifier: issueKey,
+          title: task.issueSummary,
+          url: task.issueUrl,
+          description: null,
+        },
+        repoName: repo.name,
+        worktreePath,
+        baseBranch: task.baseBranch,
+        branchName: task.branchName,
+        summary: result.summary,
+        phase: "feedback",
+        costUsd,
+        log: (entry) => appendProgressLog(issueKey, entry),
+      });
+      costUsd = content.costUsd;
+      await updateTaskStatus(issueKey, "pushing", { costUsd });
+      try {
+        await updatePullRequest(
+          getConfig().githubOwner,
+          repo.name,
+          task.prNumber,
+          { title: content.title, body: content.body },
+        );
+        const siblings = (task.linkedRepos ?? []).flatMap((r) =>
+          r.prUrl && r.prNumber
+            ? [{ repoName: r.repoName, prNumber: r.prNumber, prUrl: r.prUrl }]
+            : [],
+        );
+        if (siblings.length > 0 && task.prUrl) {
+          await linkSiblingPullRequests([
+            { repoName: repo.name, prNumber: task.prNumber, prUrl: task.prUrl },
+            ...siblings,
+          ]);
+        }
+        await appendProgressLog(issueKey, "PR title and description updated");
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        await appendProgressLog(
+          issueKey,
+          `Warning: Failed to update PR description (${msg})`,
+        );
       }
     }
 
-    // Run Claude with feedback prompt
-    await updateTaskStatus(issueKey, "feedback_implementing");
-    await appendProgressLog(issueKey, "Starting Claude Code for feedback...");
+    // Reply to and resolve each addressed comment; surface the ones left alone
+    const unaddressed = outcomes.filter((o) => o.status !== "addressed");
+    if (task.prNumber && outcomes.length > 0) {
+      await reportFeedbackOutcomes({
+        issueKey,
+        repo,
+        prNumber: task.prNumber,
+        outcomes,
+        commitSha: await getHeadCommit(worktreePath),
+      });
+    }
+
+    await updateTaskStatus(issueKey, "complete");
+
+    await safeShowToast({
+      style: Toast.Style.Success,
+      title: "Feedback Implemented",
+      message:
+        unaddressed.length > 0
+          ? `${unaddressed.length} comment(s) not addressed — see progress`
+          : `Changes pushed to ${task.branchName}`,
+    });
+  } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      await handleBudgetExceeded(issueKey, "feedback", error, costUsd);
+    } else if (abortController?.signal.aborted) {
+      await updateTaskStatus(issueKey, "cancelled");
+      await appendProgressLog(issueKey, "Task cancelled by user");
+      await safeShowToast({
+        style: Toast.Style.Failure,
+        title: "Feedback Cancelled",
+        message: issueKey,
+      });
+    } else {
+      const message = error instanceof Error ? error.message : String(error);
+      await updateTaskStatus(issueKey, "error", { error: message });
+      await appendProgressLog(issueKey, `Error: ${message}`);
+
+      await safeShowToast({
+        style: Toast.Style.Failure,
+        title: "Feedback Implementation Failed",
+        message,
+      });
+    }
+  }
+}
+
+/**
+ * Act on Claude's per-comment report: reply "Addressed in <sha>" in each
+ * addressed inline thread and resolve it, react to addressed conversation
+ * comments, and log the comments that were skipped or not reported on.
+ */
+async function reportFeedbackOutcomes(params: {
+  issueKey: string;
+  repo: RepoConfig;
+  prNumber: number;
+  outcomes: FeedbackOutcome[];
+  commitSha: string;
+}): Promise<void> {
+  const { issueKey, repo, prNumber, outcomes, commitSha } = params;
+  const { githubOwner } = getConfig();
+
+  let replied = 0;
+  let resolved = 0;
+  for (const { comment, status, note } of outcomes) {
+    const label = `${comment.ref} (${describeFeedbackComment(comment)})`;
+    if (status !== "addressed") {
+      await appendProgressLog(
+        issueKey,
+        status === "skipped"
+          ? `Not addressed: ${label} — ${note}`
+          : `Not reported on: ${label}`,
+      );
+      continue;
+    }
+
+    try {
+      if (comment.kind === "thread") {
+        await replyToReviewComment(
+          githubOwner,
+          repo.name,
+          prNumber,
+          comment.id,
+          `Addressed in ${commitSha}: ${note}`,
+        );
+        replied++;
+        if (comment.threadId) {
+          await resolveReviewThread(comment.threadId);
+          resolved++;
+        }
+      } else if (comment.kind === "comment") {
+        await addReactionToIssueComment(githubOwner, repo.name, comment.id);
+      }
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      await appendProgressLog(
+        issueKey,
+        `Warning: Could not mark ${label} as addressed (${msg})`,
+      );
+    }
+  }
+
+  const addressed = outcomes.filter((o) => o.status === "addressed").length;
+  await appendProgressLog(
+    issueKey,
+    `Addressed ${addressed} of ${outcomes.length} comment(s); replied in ${replied} thread(s), resolved ${resolved}`,
+  );
+}
+
+/**
+ * Bring an existing PR's worktree up to date before another round of work:
+ * recreate it if it was removed, commit anything left uncommitted, pull the
+ * branch and refresh dependencies.
+ */
+async function syncPullRequestWorktree(params: {
+  task: TaskState;
+  repo: RepoConfig;
+  phase: ClaudePhase;
+  costUsd: number;
+}): Promise<{ worktreePath: string; costUsd: number }> {
+  const { task, repo, phase } = params;
+  const issueKey = task.issueKey;
+  let costUsd = params.costUsd;
+
+  // Ensure worktree exists
+  let worktreePath = task.worktreePath;
+  try {
+    await fs.access(worktreePath);
+  } catch {
+    // Recreate worktree
+    await appendProgressLog(issueKey, "Recreating worktree...");
+    worktreePath = await createWorktree({
+      repo,
+      branchName: task.branchName,
+      baseBranch: task.baseBranch,
+    });
+    await setUpWorktree(issueKey, repo, worktreePath);
+    await updateTaskStatus(issueKey, "worktree_created", { worktreePath });
+  }
+
+  // An interrupted conflict resolution leaves a half-done merge behind
+  if (await discardUnfinishedMerge(worktreePath)) {
+    await appendProgressLog(issueKey, "Discarded an unfinished merge");
+  }
+
+  // Commit any uncommitted local changes first
+  const localCommit = await commitRemainingChanges({
+    issueKey,
+    issueTitle: task.issueSummary,
+    repo,
+    worktreePath,
+    phase,
+    costUsd,
+  });
+  costUsd = localCommit.costUsd;
+  if (localCommit.committed) {
+    await appendProgressLog(issueKey, "Committed uncommitted local changes");
+  }
+
+  // Pull latest changes from origin (with rebase)
+  await appendProgressLog(issueKey, "Pulling latest changes from origin...");
+  try {
+    await pullBranch(worktreePath, task.branchName, repo.name);
+    await appendProgressLog(issueKey, "Branch synced with origin");
+  } catch (pullError) {
+    const msg =
+      pullError instanceof Error ? pullError.message : String(pullError);
+    await appendProgressLog(
+      issueKey,
+      `Warning: Pull failed (${msg}). Continuing with local state.`,
+    );
+  }
+
+  // The pull may have changed the lockfile; otherwise this is a no-op
+  if (repo.installDependencies) {
+    await appendProgressLog(issueKey, "Checking dependencies...");
+    const install = await installDependencies(worktreePath);
+    await appendProgressLog(issueKey, describeInstall(install));
+  }
+
+  return { worktreePath, costUsd };
+}
+
+/**
+ * Fix a PR's failing CI: fetch the failed checks on its head commit with
+ * their annotations and job logs, have Claude repair the branch in the
+ * existing worktree and push the fix.
+ */
+export async function orchestrateFixCi(params: {
+  task: TaskState;
+  repo: RepoConfig;
+  abortController?: AbortController;
+  resume?: ResumeParams;
+}): Promise<void> {
+  const { task, repo, abortController, resume } = params;
+  const issueKey = task.issueKey;
+  const resumeSessionId = resume?.sessionId;
+  let costUsd = task.costUsd ?? 0;
+
+  try {
+    if (!task.prNumber) {
+      throw new Error("Task has no pull request to fix CI for");
+    }
+
+    const config = getConfig();
+    await appendProgressLog(issueKey, "Fetching failed checks...");
+    const pr = await fetchPullRequest(
+      config.githubOwner,
+      repo.name,
+      task.prNumber,
+    );
+    const failures = await fetchCiFailures(
+      config.githubOwner,
+      repo.name,
+      pr.head.sha,
+    );
+    if (failures.length === 0) {
+      await appendProgressLog(
+        issueKey,
+        `No failed checks on ${pr.head.sha.slice(0, 7)} — nothing to fix`,
+      );
+      await updateTaskStatus(issueKey, "complete");
+      await safeShowToast({
+        style: Toast.Style.Success,
+        title: "No Failing Checks",
+        message: `PR #${task.prNumber}`,
+      });
+      return;
+    }
+    for (const failure of failures) {
+      const details = [
+        failure.annotations.length > 0 &&
+          `${failure.annotations.length} annotation(s)`,
+        failure.logTail && "job log",
+      ].filter(Boolean);
+      await appendProgressLog(
+        issueKey,
+        `Failed: ${failure.name}${details.length ? ` (${details.join(", ")})` : ""}`,
+      );
+    }
+
+    const synced = await syncPullRequestWorktree({
+      task,
+      repo,
+      phase: "fix_ci",
+      costUsd,
+    });
+    const worktreePath = synced.worktreePath;
+    costUsd = synced.costUsd;
+
+    await updateTaskStatus(issueKey, "fixing_ci", { costUsd });
+    await appendProgressLog(issueKey, "Starting Claude Code to fix CI...");
+
+    const taskPrompt = buildFixCiPrompt({
+      issueKey,
+      prNumber: task.prNumber,
+      failures,
+      template: await readPromptTemplate(repo, "fix-ci", worktreePath),
+    });
+    const prompt =
+      resume && resumeSessionId
+        ? buildResumePrompt({
+            taskPrompt,
+            reason: RESUME_REASONS[resume.reason],
+          })
+        : taskPrompt;
+
+    const result = await runRoutedSession({
+      route: routeModel({
+        mode: "fix_ci",
+        repoName: repo.name,
+        priority: task.priority,
+        labels: task.labels,
+      }),
+      prompt,
+      cwd: worktreePath,
+      resumeSessionId: resumeSessionId ?? task.claudeSessionId,
+      abortController,
+      maxBudgetUsd: await getRemainingBudget(issueKey, costUsd),
+      onProgress: (entry) => appendProgressLog(issueKey, entry),
+      telemetry: {
+        issueKey,
+        repoName: repo.name,
+        phase: "fix_ci",
+        label: "Fix CI",
+      },
+      toolPolicy: resolveToolPolicy(repo),
+    });
+
+    costUsd += result.costUsd ?? 0;
+    await updateTaskStatus(issueKey, "pushing", {
+      costUsd,
+      claudeSessionId: result.sessionId,
+    });
+    await appendProgressLog(issueKey, "CI fix done, committing & pushing...");
+
+    const commit = await commitRemainingChanges({
+      issueKey,
+      issueTitle: task.issueSummary,
+      repo,
+      worktreePath,
+      phase: "fix_ci",
+      costUsd,
+    });
+    costUsd = commit.costUsd;
+    if (commit.committed) {
+      await appendProgressLog(
+        issueKey,
+        "Committed remaining uncommitted changes",
+      );
+    }
+    await pushBranch(worktreePath, task.branchName, repo.name);
+    await appendProgressLog(issueKey, "CI fix pushed — checks will re-run");
+
+    await updateTaskStatus(issueKey, "complete", { costUsd });
+
+    await safeShowToast({
+      style: Toast.Style.Success,
+      title: "CI Fix Pushed",
+      message: `Changes pushed to ${task.branchName}`,
+    });
+  } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      await handleBudgetExceeded(issueKey, "fix_ci", error, costUsd);
+    } else if (abortController?.signal.aborted) {
+      await updateTaskStatus(issueKey, "cancelled");
+      await appendProgressLog(issueKey, "Task cancelled by user");
+      await safeShowToast({
+        style: Toast.Style.Failure,
+        title: "Fix CI Cancelled",
+        message: issueKey,
+      });
+    } else {
+      const message = error instanceof Error ? error.message : String(error);
+      await updateTaskStatus(issueKey, "error", { error: message });
+      await appendProgressLog(issueKey, `Error: ${message}`);
+
+      await safeShowToast({
+        style: Toast.Style.Failure,
+        title: "Fix CI Failed",
+        message,
+      });
+    }
+  }
+}
+
+/**
+ * Bring a PR branch up to date with its base: merge the base in, have Claude
+ * resolve any conflicts, verify and push. If conflicts remain, the merge is
+ * thrown away and the task stops in "conflict" rather than pushing
+ * half-merged code.
+ */
+export async function orchestrateResolveConflicts(params: {
+  task: TaskState;
+  repo: RepoConfig;
+  abortController?: AbortController;
+  resume?: ResumeParams;
+}): Promise<void> {
+  const { task, repo, abortController, resume } = params;
+  const issueKey = task.issueKey;
+  const resumeSessionId = resume?.sessionId;
+  let costUsd = task.costUsd ?? 0;
+
+  try {
+    const synced = await syncPullRequestWorktree({
+      task,
+      repo,
+      phase: "resolve_conflicts",
+      costUsd,
+    });
+    const worktreePath = synced.worktreePath;
+    costUsd = synced.costUsd;
+
+    await updateTaskStatus(issueKey, "resolving_conflicts", { costUsd });
+    await appendProgressLog(
+      issueKey,
+      `Merging origin/${task.baseBranch} into ${task.branchName}...`,
+    );
+    const { headBefore, conflicts } = await mergeBaseBranch(
+      worktreePath,
+      task.baseBranch,
+      repo.name,
+    );
+
+    // Until the merged result passes its checks, every way out resets the
+    // branch to where it was, so a retry or resume starts from a clean worktree
+    let verified: Awaited<ReturnType<typeof verifyWithFixups>>;
+    try {
+      let sessionId: string | undefined;
+      let sessionModel: string | undefined;
+      if (conflicts.length === 0) {
+        await appendProgressLog(issueKey, "Merged cleanly — no conflicts");
+      } else {
+        await appendProgressLog(
+          issueKey,
+          `${conflicts.length} conflicted file(s): ${conflicts.map((c) => c.path).join(", ")}`,
+        );
+        await appendProgressLog(
+          issueKey,
+          "Starting Claude Code to resolve conflicts...",
+        );
+
+        const taskPrompt = buildConflictResolutionPrompt({
+          issueKey,
+          issueTitle: task.issueSummary,
+          baseBranch: task.baseBranch,
+          conflicts,
+          template: await readPromptTemplate(
+            repo,
+            "resolve-conflicts",
+            worktreePath,
+          ),
+        });
+        const prompt =
+          resume && resumeSessionId
+            ? buildResumePrompt({
+                taskPrompt,
+                reason: RESUME_REASONS[resume.reason],
+              })
+            : taskPrompt;
+
+        const result = await runRoutedSession({
+          route: routeModel({
+            mode: "resolve_conflicts",
+            repoName: repo.name,
+            priority: task.priority,
+            labels: task.labels,
+          }),
+          prompt,
+          cwd: worktreePath,
+          resumeSessionId: resumeSessionId ?? task.claudeSessionId,
+          abortController,
+          maxBudgetUsd: await getRemainingBudget(issueKey, costUsd),
+          onProgress: (entry) => appendProgressLog(issueKey, entry),
+          telemetry: {
+            issueKey,
+            repoName: repo.name,
+            phase: "resolve_conflicts",
+            label: "Conflict resolution",
+          },
+          toolPolicy: resolveToolPolicy(repo),
+        });
+        costUsd += result.costUsd ?? 0;
+        sessionId = result.sessionId;
+        sessionModel = result.model;
+        await updateTaskStatus(issueKey, "resolving_conflicts", {
+          costUsd,
+          claudeSessionId: sessionId,
+        });
+
+        const unresolved = await findUnresolvedConflicts(
+          worktreePath,
+          conflicts.map((c) => c.path),
+        );
+        if (unresolved.length > 0) {
+          await abortMerge(worktreePath, headBefore);
+          const message = `Could not resolve conflicts in ${unresolved.join(", ")}. The merge was discarded and nothing was pushed.`;
+          await updateTaskStatus(issueKey, "conflict", { error: message });
+          await appendProgressLog(issueKey, message);
+          await safeShowToast({
+            style: Toast.Style.Failure,
+            title: `${issueKey}: Merge Conflict`,
+            message: `${unresolved.length} file(s) still conflicted`,
+          });
+          return;
+        }
+
+        await concludeMerge(worktreePath);
+        await appendProgressLog(
+          issueKey,
+          "Conflicts resolved and merge committed",
+        );
+      }
+
+      // Run the repo's checks on the merged result, feeding failures back to Claude
+      verified = await verifyWithFixups({
+        issueKey,
+        repo,
+        worktreePath,
+        sessionId,
+        model: sessionModel,
+        phase: "resolve_conflicts",
+        abortController,
+        costUsd,
+      });
+    } catch (error) {
+      await abortMerge(worktreePath, headBefore);
+      if (
+        error instanceof BudgetExceededError ||
+        abortController?.signal.aborted
+      ) {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      await updateTaskStatus(issueKey, "conflict", { error: message });
+      await appendProgressLog(
+        issueKey,
+        `Error: ${message}. The merge was discarded and nothing was pushed.`,
+      );
+      await safeShowToast({
+        style: Toast.Style.Failure,
+        title: "Conflict Resolution Failed",
+        message,
+      });
+      return;
+    }
+    costUsd = verified.costUsd;
+
+    if (verified.verification && !verified.verification.passed) {
+      await abortMerge(worktreePath, headBefore);
+      const { attempts } = verified.verification;
+      const failing = attempts[attempts.length - 1].checks
+        .filter((c) => !c.passed)
+        .map((c) => c.name);
+      const message = `Checks still failing after the merge: ${failing.join(", ")}. The merge was discarded and nothing was pushed.`;
+      await updateTaskStatus(issueKey, "conflict", { error: message, costUsd });
+      await appendProgressLog(issueKey, message);
+      await safeShowToast({
+        style: Toast.Style.Failure,
+        title: `${issueKey}: Merge Conflict`,
+        message: `${failing.length} check(s) still failing`,
+      });
+      return;
+    }
+
+    await updateTaskStatus(issueKey, "pushing", { costUsd });
+    const commit = await commitRemainingChanges({
+      issueKey,
+      issueTitle: task.issueSummary,
+      repo,
+      worktreePath,
+      phase: "resolve_conflicts",
+      costUsd,
+    });
+    costUsd = commit.costUsd;
+    if (commit.committed) {
+      await appendProgressLog(
+        issueKey,
+        "Committed remaining uncommitted changes",
+      );
+    }
+    await pushBranch(worktreePath, task.branchName, repo.name);
+    await appendProgressLog(
+      issueKey,
+      `Branch is up to date with ${task.baseBranch} and pushed`,
+    );
+
+    await updateTaskStatus(issueKey, "complete", { costUsd });
+
+    await safeShowToast({
+      style: Toast.Style.Success,
+      title: "Conflicts Resolved",
+      message: `Changes pushed to ${task.branchName}`,
+    });
+  } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      await handleBudgetExceeded(issueKey, "resolve_conflicts", error, costUsd);
+    } else if (abortController?.signal.aborted) {
+      await updateTaskStatus(issueKey, "cancelled");
+      await appendProgressLog(issueKey, "Task cancelled by user");
+      await safeShowToast({
+        style: Toast.Style.Failure,
+        title: "Conflict Resolution Cancelled",
+        message: issueKey,
+      });
+    } else {
+      const message = error instanceof Error ? error.message : String(error);
+      await updateTaskStatus(issueKey, "error", { error: message });
+      await appendProgressLog(issueKey, `Error: ${message}`);
+
+      await safeShowToast({
+        style: Toast.Style.Failure,
+        title: "Conflict Resolution Failed",
+        message,
+      });
+    }
+  }
+}
+
+/** Turns the reviewer of a teammate's PR gets to read around the diff. */
+const PR_REVIEW_MAX_TURNS = 40;
+
+/**
+ * Draft a review of someone else's pull request: check its head out in a
+ * throwaway worktree, let a read-only Claude session review the diff, and
+ * return the draft for editing. Nothing is posted; the worktree is removed
+ * afterwards.
+ */
+export async function draftPullRequestReview(params: {
+  pr: GitHubPullRequest;
+  repo: RepoConfig;
+  abortController?: AbortController;
+  onProgress?: (entry: string) => Promise<void>;
+}): Promise<{ draft: PullRequestReviewDraft; costUsd: number }> {
+  const { pr, repo, abortController } = params;
+  const log = params.onProgress ?? (async () => {});
+  if (pr.head.repo.full_name !== pr.base.repo.full_name) {
+    throw new Error("Pull requests from forks can't be checked out for review");
+  }
+
+  const branchName = `review/pr-${pr.number}`;
+  const worktreePath = getWorktreePath(repo.name, branchName);
+  try {
+    await log(`Checking out ${pr.head.ref}...`);
+    // Start from a clean checkout even if an earlier review was interrupted
+    await discardWorktree(repo, worktreePath, branchName);
+    await createWorktree({ repo, branchName, baseBranch: pr.head.ref });
+
+    const diff = await getBranchDiff(worktreePath, pr.base.ref);
+    const route = routeModel({ mode: "review", repoName: repo.name });
+    await log(`Reviewing with ${route.model}...`);
+    const result = await runClaude({
+      prompt: buildPullRequestReviewPrompt({
+        pr: {
+          number: pr.number,
+          title: pr.title,
+          body: pr.body,
+          author: pr.user.login,
+        },
+        repoName: repo.name,
+        baseBranch: pr.base.ref,
+        diff:
+          diff.length > MAX_PR_DIFF_CHARS
+            ? `${diff.slice(0, MAX_PR_DIFF_CHARS)}\n...(diff truncated)`
+            : diff,
+      }),
+      cwd: worktreePath,
+      tools: ["Read", "Grep", "Glob"],
+      maxTurns: PR_REVIEW_MAX_TURNS,
+      model: route.model,
+      abortController,
+      maxBudgetUsd: getConfig().claudeMaxBudgetUsd,
+      onProgress: log,
+      toolPolicy: resolveToolPolicy(repo),
+    });
+
+    const draft = parseReviewDraft(result.summary ?? "", diff);
+    if (!draft) {
+      throw new Error("Claude's reply did not contain a review draft");
+    }
+    return { draft, costUsd: result.costUsd ?? 0 };
+  } finally {
+    await discardWorktree(repo, worktreePath, branchName);
+  }
+}
+
+/** Enough of the staged diff to summarise it in one commit message. */
+const MAX_COMMIT_DIFF_CHARS = 30_000;
+
+/**
+ * Commit whatever Claude left uncommitted, with a conventional-commit message
+ * summarising the staged diff in the repo's commit conventions. Falls back to
+ * a generic subject when no message can be generated.
+ */
+async function commitRemainingChanges(params: {
+  issueKey: string;
+  issueTitle: string;
+  repo: RepoConfig;
+  worktreePath: string;
+  /** Review comments a feedback round addressed, listed in the message body. */
+  addressedComments?: AddressedComment[];
+  phase: ClaudePhase;
+  costUsd: number;
+}): Promise<{ committed: boolean; costUsd: number }> {
+  const { issueKey, repo, addressedComments } = params;
+  let { costUsd } = params;
+
+  const committed = await commitAllChanges(
+    params.worktreePath,
+    async (stagedDiff) => {
+      let parsed: ReturnType<typeof parseCommitMessage> = null;
+      try {
+        const result = await runClaude({
+          prompt: buildCommitMessagePrompt({
+            issueKey,
+            issueTitle: params.issueTitle,
+            stagedDiff:
+              stagedDiff.length > MAX_COMMIT_DIFF_CHARS
+                ? `${stagedDiff.slice(0, MAX_COMMIT_DIFF_CHARS)}\n...(diff truncated)`
+                : stagedDiff,
+            scope: repo.commitScope,
+            addressedComments,
+          }),
+          cwd: params.worktreePath,
+          tools: [],
+          maxTurns: 1,
+          maxBudgetUsd: await getRemainingBudget(issueKey, costUsd),
+          telemetry: {
+            issueKey,
+            repoName: repo.name,
+            phase: params.phase,
+            label: "Commit message",
+          },
+        });
+        costUsd += result.costUsd ?? 0;
+        parsed = parseCommitMessage(result.summary ?? "", repo.commitScope);
+      } catch (error) {
+        if (error instanceof BudgetExceededError) costUsd += error.costUsd;
+      }
+      return formatCommitMessage({
+        issueKey,
+        repo,
+        subject: parsed?.subject ?? fallbackCommitSubject(repo.commitScope),
+        body: parsed?.body,
+        addressedComments,
+      });
+    },
+  );
+
+  return { committed, costUsd };
+}
+
+/** Enough of the diff for a good description without blowing the context. */
+const MAX_PR_DIFF_CHARS = 60_000;
+
+type PullRequestIssue = Pick<
+  LinearIssue,
+  "identifier" | "title" | "url" | "description"
+>;
+
+/** Parse the "TITLE: …" reply asked for by buildPullRequestDescriptionPrompt. */
+function parsePullRequestContent(
+  text: string,
+): { title: string; description: string } | null {
+  const match = text.trim().match(/^TITLE:\s*(.+)\n+([\s\S]+)$/);
+  if (!match) return null;
+  return {
+    // Claude sometimes repeats the issue key even when told not to
+    title: match[1].trim().replace(/^[A-Z]+-\d+:?\s*/, ""),
+    description: match[2].trim(),
+  };
+}
+
+/**
+ * Title and body for one of a task's PRs. Claude writes the title and
+ * description from the branch's diff, the plan file and the implementing
+ * session's summary, filling in the repo's PR template if it has one. Falls
+ * back to the issue description if that fails. Verification results and the
+ * cost footer are appended; sibling links are added by linkSiblingPullRequests.
+ */
+async function composePullRequest(params: {
+  issue: PullRequestIssue;
+  repoName: string;
+  worktreePath: string;
+  baseBranch: string;
+  branchName: string;
+  summary?: string;
+  verification?: VerificationResult;
+  phase: ClaudePhase;
+  costUsd: number;
+  log: (entry: string) => Promise<void>;
+}): Promise<{ title: string; body: string; costUsd: number }> {
+  const { issue, worktreePath, verification, log } = params;
+  let { costUsd } = params;
+  let title = `${issue.identifier}: ${issue.title}`;
+  let description = [
+    `## ${issue.identifier}: ${issue.title}`,
+    "",
+    issue.description ? issue.description.slice(0, 2000) : "",
+  ].join("\n");
+
+  try {
+    await log("Writing PR description...");
+    const [diff, plan, template] = await Promise.all([
+      getBranchDiff(worktreePath, params.baseBranch),
+      readPlanFile(params.branchName),
+      readPullRequestTemplate(worktreePath),
+    ]);
+    const result = await runClaude({
+      prompt: buildPullRequestDescriptionPrompt({
+        issue,
+        repoName: params.repoName,
+        diff:
+          diff.length > MAX_PR_DIFF_CHARS
+            ? `${diff.slice(0, MAX_PR_DIFF_CHARS)}\n...(diff truncated)`
+            : diff,
+        plan,
+        summary: params.summary,
+        template,
+      }),
+      cwd: worktreePath,
+      tools: [],
+      maxTurns: 1,
+      maxBudgetUsd: await getRemainingBudget(issue.identifier, costUsd),
+      telemetry: {
+        issueKey: issue.identifier,
+        repoName: params.repoName,
+        phase: params.phase,
+        label: "PR description",
+      },
+    });
+    costUsd += result.costUsd ?? 0;
+    const parsed = parsePullRequestContent(result.summary ?? "");
+    if (!parsed) throw new Error("Unexpected response format");
+    title = `${issue.identifier}: ${parsed.title}`;
+    description = parsed.description;
+  } catch (error) {
+    if (error instanceof BudgetExceededError) costUsd += error.costUsd;
+    const msg = error instanceof Error ? error.message : String(error);
+    await log(
+      `Warning: PR description generation failed (${msg}). Using the issue description.`,
+    );
+  }
+
+  const body = [
+    description,
+    "",
+    `[Linear Issue](${issue.url})`,
+    "",
+    ...(verification ? [formatVerificationMarkdown(verification), ""] : []),
+    "---",
+    `*Implemented by Claude Code (cost: $${costUsd.toFixed(2)})*`,
+  ].join("\n");
+
+  return { title, body, costUsd };
+}
+
+/** Insert or replace one linked repo's entry on the task, keeping order. */
+async function saveLinkedRepo(
+  issueKey: string,
+  status: TaskStatus,
+  linked: LinkedRepoState,
+  extra?: Partial<TaskState>,
+): Promise<void> {
+  const linkedRepos = [...((await getTask(issueKey))?.linkedRepos ?? [])];
+  const index = linkedRepos.findIndex((r) => r.repoName === linked.repoName);
+  if (index === -1) linkedRepos.push(linked);
+  else linkedRepos[index] = linked;
+  await updateTaskStatus(issueKey, status, { ...extra, linkedRepos });
+}
+
+/**
+ * Implement the issue in each linked repo in turn: worktree → deps → Claude →
+ * verification → push → PR. Each session is told which repos came before it
+ * and what they changed. Repos whose PR already exists (from an interrupted
+ * run) are skipped.
+ */
+async function implementLinkedRepos(params: {
+  issue: LinearIssue;
+  primaryRepo: RepoConfig;
+  primaryWorktreePath: string;
+  primaryBaseBranch: string;
+  linkedRepos: RepoConfig[];
+  branchName: string;
+  userInstructions: string;
+  abortController?: AbortController;
+  resume?: ResumeParams;
+  costUsd: number;
+}): Promise<{ linkedRepos: LinkedRepoState[]; costUsd: number }> {
+  const { issue, branchName, abortController, resume } = params;
+  const issueKey = issue.identifier;
+  const config = getConfig();
+  let { costUsd } = params;
+
+  const completed = [
+    {
+      repoName: params.primaryRepo.name,
+      changeSummary: await getBranchChangeSummary(
+        params.primaryWorktreePath,
+        params.primaryBaseBranch,
+      ),
+    },
+  ];
+  const previous = (await getTask(issueKey))?.linkedRepos ?? [];
+  const results: LinkedRepoState[] = [];
+
+  try {
+    for (const [index, repo] of params.linkedRepos.entries()) {
+      const log = (entry: string) =>
+        appendProgressLog(issueKey, `[${repo.name}] ${entry}`);
+      const existing = previous.find((r) => r.repoName === repo.name);
+      const baseBranch = existing?.baseBranch ?? repo.defaultBranch;
+
+      await log("Creating git worktree...");
+      const worktreePath = await createWorktree({
+        repo,
+        branchName,
+        baseBranch,
+      });
+      let linked: LinkedRepoState = {
+        ...existing,
+        repoName: repo.name,
+        worktreePath,
+        baseBranch,
+      };
+
+      if (existing?.prUrl && existing.prNumber) {
+        await log(`PR already open: ${existing.prUrl}`);
+      } else {
+        await saveLinkedRepo(issueKey, "implementing", linked);
+        if (repo.setupSteps.length > 0) {
+          await log("Running setup steps...");
+          await runSetupSteps(repo, worktreePath, log, abortController?.signal);
+        }
+        if (repo.installDependencies) {
+          await log("Installing dependencies...");
+          await log(describeInstall(await installDependencies(worktreePath)));
+        }
+
+        await log("Starting Claude Code implementation...");
+        const taskPrompt = buildImplementationPrompt({
+          issue,
+          descriptionMarkdown: issue.description ?? "",
+          userInstructions: params.userInstructions,
+          repoName: repo.name,
+          baseBranch,
+          crossRepoContext: buildCrossRepoSection({
+            currentRepo: repo.name,
+            laterRepos: params.linkedRepos.slice(index + 1).map((r) => r.name),
+            completed,
+          }),
+          template: await readPromptTemplate(repo, "implement", worktreePath),
+        });
+        const resumeSessionId = resume ? existing?.claudeSessionId : undefined;
+        const result = await runRoutedSession({
+          route: routeModel({
+            mode: "implement",
+            repoName: repo.name,
+            priority: issue.priority,
+            labels: issue.labels.nodes.map((l) => l.name),
+          }),
+          prompt:
+            resume && resumeSessionId
+              ? buildResumePrompt({
+                  taskPrompt,
+                  reason: RESUME_REASONS[resume.reason],
+                })
+              : taskPrompt,
+          cwd: worktreePath,
+          resumeSessionId,
+          abortController,
+          maxBudgetUsd: await getRemainingBudget(issueKey, costUsd),
+          onProgress: log,
+          telemetry: {
+            issueKey,
+            repoName: repo.name,
+            phase: "implement",
+            label: "Implementation",
+          },
+          toolPolicy: resolveToolPolicy(repo),
+        });
+        costUsd += result.costUsd ?? 0;
+        linked = { ...linked, claudeSessionId: result.sessionId };
+        await saveLinkedRepo(issueKey, "implementation_complete", linked, {
+          costUsd,
+        });
+
+        const verified = await verifyWithFixups({
+          issueKey,
+          repo,
+          worktreePath,
+          sessionId: linked.claudeSessionId,
+          model: result.model,
+          abortController,
+          costUsd,
+          persist: (status, state) =>
+            saveLinkedRepo(
+              issueKey,
+              status,
+              {
+                ...linked,
+                verification: state.verification,
+                claudeSessionId: state.sessionId,
+              },
+              { costUsd: state.costUsd },
+            ),
+        });
+        costUsd = verified.costUsd;
+        linked = {
+          ...linked,
+          verification: verified.verification,
+          claudeSessionId: verified.sessionId,
+        };
+
+        await saveLinkedRepo(issueKey, "pushing", linked);
+        const commit = await commitRemainingChanges({
+          issueKey,
+          issueTitle: issue.title,
+          repo,
+          worktreePath,
+          phase: "implement",
+          costUsd,
+        });
+        costUsd = commit.costUsd;
+        if (commit.committed) {
+          await log("Committed remaining uncommitted changes");
+        }
+        await pushBranch(worktreePath, branchName, repo.name);
+        await log("Branch pushed");
+
+        const content = await composePullRequest({
+          issue,
+          repoName: repo.name,
+          worktreePath,
+          baseBranch,
+          branchName,
+          summary: result.summary,
+          verification: verified.verification,
+          phase: "implement",
+          costUsd,
+          log,
+        });
+        costUsd = content.costUsd;
+        const pr = await createPullRequest({
+          owner: config.githubOwner,
+          repo: repo.name,
+          title: content.title,
+          body: content.body,
+          head: branchName,
+          base: baseBranch,
+          labels: ["auto"],
+          draft: verified.verification ? !verified.verification.passed : false,
+        });
+        linked = { ...linked, prUrl: pr.html_url, prNumber: pr.number };
+        await saveLinkedRepo(issueKey, "pushing", linked);
+        await log(`PR created: ${pr.html_url}`);
+      }
+
+      results.push(linked);
+      completed.push({
+        repoName: repo.name,
+        changeSummary: await getBranchChangeSummary(worktreePath, baseBranch),
+      });
+    }
+  } catch (error) {
+    // Report what the linked repos spent on top of what the caller knows
+    if (error instanceof BudgetExceededError) {
+      throw new BudgetExceededError(
+        costUsd - params.costUsd + error.costUsd,
+        error.sessionId,
+      );
+    }
+    throw error;
+  }
+
+  return { linkedRepos: results, costUsd };
+}
+
+const RELATED_PRS_HEADING = "## Related PRs";
 
-    const prompt = buildFeedbackPrompt({
-      issueKey,
-      prNumber: task.prNumber ?? 0,
-      feedbackText,
-      newCommentsContext,
+/**
+ * Append (or refresh) a "Related PRs" section on each PR listing the others.
+ */
+async function linkSiblingPullRequests(
+  prs: { repoName: string; prNumber: number; prUrl: string }[],
+): Promise<void> {
+  const owner = getConfig().githubOwner;
+  for (const pr of prs) {
+    const current = await fetchPullRequest(owner, pr.repoName, pr.prNumber);
+    const body = (current.body ?? "").split(`\n${RELATED_PRS_HEADING}\n`)[0];
+    const siblings = prs
+      .filter((p) => p !== pr)
+      .map((p) => `- ${p.repoName}: ${p.prUrl}`);
+    await updatePullRequest(owner, pr.repoName, pr.prNumber, {
+      body: [body.trimEnd(), "", RELATED_PRS_HEADING, "", ...siblings].join(
+        "\n",
+      ),
     });
+  }
+}
 
-    const result = await runClaude({
-      prompt,
-      cwd: worktreePath,
-      resumeSessionId: task.claudeSessionId,
-      abortController,
-      onProgress: (entry) => appendProgressLog(issueKey, entry),
+/**
+ * Run the repo's verification commands in the worktree. Failures are fed back
+ * into the Claude session for up to `repo.maxFixAttempts` fix-up rounds; after
+ * that the result is returned as failing and the caller decides what to do.
+ * Returns no verification when the repo has no commands configured.
+ */
+async function verifyWithFixups(params: {
+  issueKey: string;
+  repo: RepoConfig;
+  worktreePath: string;
+  sessionId?: string;
+  /** Model the session ran on, so fix-ups stay on it. */
+  model?: string;
+  /** Phase the fix-up runs are recorded under; defaults to "implement". */
+  phase?: ClaudePhase;
+  abortController?: AbortController;
+  costUsd: number;
+  /** Where progress is stored; defaults to the task's own fields. */
+  persist?: (
+    status: TaskStatus,
+    state: {
+      verification: VerificationResult;
+      sessionId?: string;
+      costUsd: number;
+    },
+  ) => Promise<void>;
+}): Promise<{
+  verification?: VerificationResult;
+  sessionId?: string;
+  costUsd: number;
+}> {
+  const { issueKey, repo, worktreePath, abortController } = params;
+  let { sessionId, costUsd } = params;
+  if (repo.verifyCommands.length === 0) return { sessionId, costUsd };
+
+  const verification: VerificationResult = { passed: false, attempts: [] };
+  const persist =
+    params.persist ??
+    (async (status: TaskStatus) => {
+      await updateTaskStatus(issueKey, status, {
+        verification,
+        claudeSessionId: sessionId,
+        costUsd,
+      });
     });
+  const save = (status: TaskStatus) =>
+    persist(status, { verification, sessionId, costUsd });
 
-    const costUsd = (task.costUsd ?? 0) + (result.costUsd ?? 0);
-    await updateTaskStatus(issueKey, "pushing", {
-      costUsd,
-      claudeSessionId: result.sessionId,
-    });
+  for (let attempt = 1; ; attempt++) {
+    await save("verifying");
     await appendProgressLog(
       issueKey,
-      "Feedback implemented, committing & pushing...",
+      `Running verification (attempt ${attempt})...`,
     );
+    const checks = await runVerificationCommands(
+      worktreePath,
+      repo.verifyCommands,
+      abortController?.signal,
+    );
+    if (abortController?.signal.aborted) {
+      throw new Error("Verification cancelled");
+    }
 
-    // Commit any uncommitted changes, then push (PR auto-updates)
-    const didCommit = await commitAllChanges(worktreePath);
-    if (didCommit) {
+    const passed = checks.every((c) => c.passed);
+    verification.attempts.push({ attempt, passed, checks });
+    verification.passed = passed;
+    for (const check of checks) {
       await appendProgressLog(
         issueKey,
-        "Committed remaining uncommitted changes",
+        `[verify] ${check.name} ${check.passed ? "passed" : "failed"} (${(check.durationMs / 1000).toFixed(0)}s)`,
       );
     }
-    await pushBranch(worktreePath, task.branchName, repo.name);
-    await appendProgressLog(issueKey, "Feedback changes pushed");
 
-    // Mark addressed comments with a reaction
-    if (task.prNumber && prAuthor && commentCutoffDate) {
-      try {
-        const config = getConfig();
-        const markedCount = await markNewCommentsAsAddressed(
-          config.githubOwner,
-          repo.name,
-          task.prNumber,
-          prAuthor,
-          commentCutoffDate,
-        );
-        if (markedCount > 0) {
-          await appendProgressLog(
-            issueKey,
-            `Marked ${markedCount} comment(s) as addressed`,
-          );
-        }
-      } catch {
-        await appendProgressLog(
+    if (passed) {
+      await save("verifying");
+      await appendProgressLog(issueKey, "Verification passed");
+      break;
+    }
+    if (attempt > repo.maxFixAttempts) {
+      await save("verifying");
+      await appendProgressLog(
+        issueKey,
+        `Warning: Verification still failing after ${repo.maxFixAttempts} fix-up attempt(s)`,
+      );
+      break;
+    }
+
+    const failedChecks = checks.filter((c) => !c.passed);
+    await save("fixing_verification");
+    await appendProgressLog(
+      issueKey,
+      `Sending ${failedChecks.length} failing check(s) back to Claude (fix-up ${attempt} of ${repo.maxFixAttempts})...`,
+    );
+
+    try {
+      const result = await runClaude({
+        prompt: buildVerificationFixPrompt({
+          attempt,
+          maxAttempts: repo.maxFixAttempts,
+          failedChecks,
+        }),
+        cwd: worktreePath,
+        resumeSessionId: sessionId,
+        model: params.model,
+        abortController,
+        maxBudgetUsd: await getRemainingBudget(issueKey, costUsd),
+        onProgress: (entry) => appendProgressLog(issueKey, entry),
+        telemetry: {
           issueKey,
-          "Warning: Could not mark comments as addressed",
+          repoName: repo.name,
+          phase: params.phase ?? "implement",
+          label: `Verification fix-up ${attempt}`,
+        },
+        toolPolicy: resolveToolPolicy(repo),
+        steerable: true,
+      });
+      sessionId = result.sessionId ?? sessionId;
+      costUsd += result.costUsd ?? 0;
+      await save("fixing_verification");
+    } catch (error) {
+      // Report what the fix-up rounds spent on top of what the caller knows
+      if (error instanceof BudgetExceededError) {
+        throw new BudgetExceededError(
+          costUsd - params.costUsd + error.costUsd,
+          error.sessionId ?? sessionId,
         );
       }
+      throw error;
     }
+  }
 
-    await updateTaskStatus(issueKey, "complete");
+  return { verification, sessionId, costUsd };
+}
 
-    await safeShowToast({
-      style: Toast.Style.Success,
-      title: "Feedback Implemented",
-      message: `Changes pushed to ${task.branchName}`,
+/** Turns the reviewer gets to read around the diff before reporting. */
+const SELF_REVIEW_MAX_TURNS = 30;
+
+/**
+ * Pre-PR review: a fresh Claude session, without the implementer's context,
+ * reads the branch's diff with the issue and plan and reports findings.
+ * Blocking findings are sent back to the implementing session once and the
+ * checks re-run. A review that fails or can't be parsed is skipped with a
+ * warning rather than holding up the PR.
+ */
+async function selfReviewWithFixups(params: {
+  issue: LinearIssue;
+  repo: RepoConfig;
+  worktreePath: string;
+  baseBranch: string;
+  branchName: string;
+  sessionId?: string;
+  /** Model the implementing session ran on, so fixes stay on it. */
+  model?: string;
+  abortController?: AbortController;
+  costUsd: number;
+}): Promise<{
+  selfReview?: SelfReviewResult;
+  /** Set when fixes were made and the checks re-ran. */
+  verification?: VerificationResult;
+  sessionId?: string;
+  costUsd: number;
+}> {
+  const { issue, repo, worktreePath, abortController } = params;
+  const issueKey = issue.identifier;
+  let { sessionId, costUsd } = params;
+
+  await updateTaskStatus(issueKey, "self_reviewing", { costUsd });
+  await appendProgressLog(issueKey, "Starting self-review of the diff...");
+
+  // The reviewer sees the branch as it will be pushed
+  const commit = await commitRemainingChanges({
+    issueKey,
+    issueTitle: issue.title,
+    repo,
+    worktreePath,
+    phase: "self_review",
+    costUsd,
+  });
+  costUsd = commit.costUsd;
+
+  let findings: ReviewFinding[] | null = null;
+  try {
+    const [diff, plan] = await Promise.all([
+      getBranchDiff(worktreePath, params.baseBranch),
+      readPlanFile(params.branchName),
+    ]);
+    const route = routeModel({
+      mode: "self_review",
+      repoName: repo.name,
+      priority: issue.priority,
+      labels: issue.labels.nodes.map((l) => l.name),
+    });
+    const result = await runClaude({
+      prompt: buildSelfReviewPrompt({
+        issue,
+        repoName: repo.name,
+        baseBranch: params.baseBranch,
+        diff:
+          diff.length > MAX_PR_DIFF_CHARS
+            ? `${diff.slice(0, MAX_PR_DIFF_CHARS)}\n...(diff truncated)`
+            : diff,
+        plan,
+      }),
+      cwd: worktreePath,
+      tools: ["Read", "Grep", "Glob"],
+      maxTurns: SELF_REVIEW_MAX_TURNS,
+      model: route.model,
+      abortController,
+      maxBudgetUsd: await getRemainingBudget(issueKey, costUsd),
+      onProgress: (entry) => appendProgressLog(issueKey, entry),
+      telemetry: {
+        issueKey,
+        repoName: repo.name,
+        phase: "self_review",
+        label: "Self-review",
+      },
+      toolPolicy: resolveToolPolicy(repo),
     });
+    costUsd += result.costUsd ?? 0;
+    findings = parseReviewFindings(result.summary ?? "");
+    if (!findings) throw new Error("Unexpected response format");
   } catch (error) {
-    if (abortController?.signal.aborted) {
-      await updateTaskStatus(issueKey, "cancelled");
-      await appendProgressLog(issueKey, "Task cancelled by user");
-      await safeShowToast({
-        style: Toast.Style.Failure,
-        title: "Feedback Cancelled",
-        message: issueKey,
-      });
-    } else {
-      const message = error instanceof Error ? error.message : String(error);
-      await updateTaskStatus(issueKey, "error", { error: message });
-      await appendProgressLog(issueKey, `Error: ${message}`);
+    if (error instanceof BudgetExceededError) throw error;
+    if (abortController?.signal.aborted) throw error;
+    const msg = error instanceof Error ? error.message : String(error);
+    await appendProgressLog(
+      issueKey,
+      `Warning: Self-review failed (${msg}). Opening the PR without it.`,
+    );
+    return { sessionId, costUsd };
+  }
 
-      await safeShowToast({
-        style: Toast.Style.Failure,
-        title: "Feedback Implementation Failed",
-        message,
-      });
+  for (const finding of findings) {
+    await appendProgressLog(
+      issueKey,
+      `[review] ${finding.blocking ? "Blocking " : ""}${finding.category}${finding.path ? ` ${finding.path}${finding.line ? `:${finding.line}` : ""}` : ""}: ${finding.description}`,
+    );
+  }
+  const blocking = findings.filter((f) => f.blocking);
+  const selfReview: SelfReviewResult = {
+    findings,
+    fixesRequested: blocking.length > 0,
+  };
+  await updateTaskStatus(issueKey, "self_reviewing", { selfReview, costUsd });
+  await appendProgressLog(
+    issueKey,
+    `Self-review found ${findings.length} issue(s), ${blocking.length} blocking`,
+  );
+  if (blocking.length === 0) return { selfReview, sessionId, costUsd };
+
+  await appendProgressLog(
+    issueKey,
+    `Sending ${blocking.length} blocking finding(s) back to Claude...`,
+  );
+  try {
+    const result = await runClaude({
+      prompt: buildReviewFindingsFixPrompt(blocking),
+      cwd: worktreePath,
+      resumeSessionId: sessionId,
+      model: params.model,
+      abortController,
+      maxBudgetUsd: await getRemainingBudget(issueKey, costUsd),
+      onProgress: (entry) => appendProgressLog(issueKey, entry),
+      telemetry: {
+        issueKey,
+        repoName: repo.name,
+        phase: "self_review",
+        label: "Self-review fixes",
+      },
+      toolPolicy: resolveToolPolicy(repo),
+      steerable: true,
+    });
+    sessionId = result.sessionId ?? sessionId;
+    costUsd += result.costUsd ?? 0;
+    await updateTaskStatus(issueKey, "self_reviewing", {
+      claudeSessionId: sessionId,
+      costUsd,
+    });
+  } catch (error) {
+    // Report what the review stage spent on top of what the caller knows
+    if (error instanceof BudgetExceededError) {
+      throw new BudgetExceededError(
+        costUsd - params.costUsd + error.costUsd,
+        error.sessionId ?? sessionId,
+      );
     }
+    throw error;
   }
+
+  // The fixes may have broken the checks
+  const verified = await verifyWithFixups({
+    issueKey,
+    repo,
+    worktreePath,
+    sessionId,
+    model: params.model,
+    abortController,
+    costUsd,
+  });
+  return {
+    selfReview,
+    verification: verified.verification,
+    sessionId: verified.sessionId,
+    costUsd: verified.costUsd,
+  };
 }
 
 interface RunClaudeParams {
   prompt: string;
+  /** Attached after the prompt text in the first message. */
+  images?: PromptImage[];
   cwd: string;
   resumeSessionId?: string;
   abortController?: AbortController;
+  /** Spend cap for this run in USD; the run is aborted once it is reached. */
+  maxBudgetUsd?: number;
+  /** Built-in tools to offer; `[]` for a plain text completion. Defaults to all. */
+  tools?: string[];
+  maxTurns?: number;
+  /** Defaults to the model from preferences/.env. */
+  model?: string;
+  /** Tool calls breaking this policy are denied and logged. */
+  toolPolicy?: ToolPolicy;
   onProgress?: (entry: string) => Promise<void>;
+  /**
+   * Stream steering messages queued from the progress view into the session.
+   * Only for the implementer's working sessions: helper runs (commit message,
+   * PR description, the self-reviewer) leave them queued for the next one.
+   */
+  steerable?: boolean;
+  /** Where to record the run's telemetry; runs without it aren't recorded. */
+  telemetry?: {
+    issueKey: string;
+    repoName: string;
+    phase: ClaudePhase;
+    label: string;
+  };
 }
 
 interface ClaudeResult {
   sessionId?: string;
   costUsd?: number;
+  /** Claude's final message for the run. */
+  summary?: string;
+  model: string;
+  /** The run stopped at maxTurns rather than finishing. */
+  hitMaxTurns?: boolean;
+}
+
+/** A user message as the SDK streams it; images ride along after the text. */
+function userMessage(text: string, images: PromptImage[] = []): SDKUserMessage {
+  return {
+    type: "user",
+    session_id: "",
+    parent_tool_use_id: null,
+    message: {
+      role: "user",
+      content: [
+        { type: "text", text },
+        ...images.map((image) => ({
+          type: "image" as const,
+          source: {
+            type: "base64" as const,
+            media_type: image.mediaType,
+            data: image.data,
+          },
+        })),
+      ],
+    },
+  };
+}
+
+const STEERING_POLL_INTERVAL_MS = 2000;
+
+/**
+ * The prompt as a stream of user messages, which is the only way to send
+ * image blocks along with the text. With `steering`, the stream stays open
+ * while the session runs and forwards messages queued from the progress view
+ * (queueSteeringMessage), so they reach Claude without a restart.
+ */
+async function* streamPrompt(
+  prompt: SDKUserMessage,
+  steering?: {
+    issueKey: string;
+    isOpen: () => boolean;
+    onMessage: (text: string) => Promise<void>;
+  },
+): AsyncGenerator<SDKUserMessage> {
+  yield prompt;
+  if (!steering) return;
+
+  while (steering.isOpen()) {
+    await new Promise((resolve) =>
+      setTimeout(resolve, STEERING_POLL_INTERVAL_MS),
+    );
+    if (!steering.isOpen()) return;
+    const messages = await takeSteeringMessages(steering.issueKey);
+    if (messages.length === 0) continue;
+    // The session may have ended while they were being taken: put them back
+    // for the next session, or for the worker to report as undelivered
+    if (!steering.isOpen()) {
+      for (const text of messages) {
+        await queueSteeringMessage(steering.issueKey, text);
+      }
+      return;
+    }
+    // One user turn per poll, so no taken message waits behind a yield that
+    // may never resume
+    yield userMessage(messages.join("\n\n"));
+    for (const text of messages) await steering.onMessage(text);
+  }
 }
 
 async function runClaude(params: RunClaudeParams): Promise<ClaudeResult> {
   const config = getConfig();
-  const { onProgress } = params;
+  const { onProgress, maxBudgetUsd } = params;
+  const model = params.model ?? config.claudeModel;
+  const abortController = params.abortController ?? new AbortController();
+
+  if (maxBudgetUsd !== undefined && maxBudgetUsd <= 0) {
+    throw new BudgetExceededError(0, params.resumeSessionId);
+  }
 
   // Raycast bundles the extension with esbuild, which breaks the SDK's
   // internal resolution of its bundled cli.js. Point to the globally installed
@@ -711,41 +2695,119 @@ async function runClaude(params: RunClaudeParams): Promise<ClaudeResult> {
     GIT_COMMITTER_EMAIL: config.gitAuthorEmail,
   };
 
+  const transcript = params.telemetry
+    ? await openTranscript({ ...params.telemetry, model })
+    : null;
+  await transcript?.appendUserMessage(params.prompt);
+
+  // Steerable runs take messages until their result arrives; the CLI only
+  // finishes once the input stream ends
+  let inputOpen = true;
+  const steering =
+    params.steerable && params.telemetry
+      ? {
+          issueKey: params.telemetry.issueKey,
+          isOpen: () => inputOpen && !abortController.signal.aborted,
+          onMessage: async (text: string) => {
+            await onProgress?.(`[steer] ${text}`);
+            await transcript?.appendUserMessage(text);
+          },
+        }
+      : undefined;
+
   const options: Parameters<typeof query>[0] = {
-    prompt: params.prompt,
+    prompt:
+      steering || params.images?.length
+        ? streamPrompt(userMessage(params.prompt, params.images), steering)
+        : params.prompt,
     options: {
       cwd: params.cwd,
       pathToClaudeCodeExecutable: executablePath,
       permissionMode: "bypassPermissions" as const,
       allowDangerouslySkipPermissions: true,
-      maxTurns: config.claudeMaxTurns,
-      model: config.claudeModel,
+      maxTurns: params.maxTurns ?? config.claudeMaxTurns,
+      model,
       env,
       stderr: (data: string) => stderrChunks.push(data),
-      ...(params.abortController
-        ? { abortController: params.abortController }
-        : {}),
+      abortController,
+      // The CLI enforces the cap too, as a backstop to the live estimate below
+      ...(maxBudgetUsd !== undefined ? { maxBudgetUsd } : {}),
       ...(params.resumeSessionId ? { resume: params.resumeSessionId } : {}),
+      ...(params.tools ? { tools: params.tools } : {}),
+      ...(params.toolPolicy
+        ? {
+            hooks: {
+              PreToolUse: [
+                {
+                  hooks: [
+                    toolPolicyHook(params.toolPolicy, params.cwd, onProgress),
+                  ],
+                },
+              ],
+            },
+          }
+        : {}),
     },
   };
 
-  let sessionId: string | undefined;
+  let sessionId: string | undefined = params.resumeSessionId;
   let costUsd = 0;
+  let summary: string | undefined;
+  let hitMaxTurns = false;
+  // The SDK only reports cost on the final result, so estimate spend from each
+  // turn's usage while the run is going
+  const recorder = createRunRecorder(model);
+  let outcome: RunTelemetry["outcome"] = "error";
+  let budgetExceeded = false;
 
   try {
     for await (const message of query(options)) {
       await processSDKMessage(message, onProgress);
+      recordRunMessage(recorder, message);
+      await transcript?.append(message);
+
+      if ("session_id" in message && message.session_id) {
+        sessionId = message.session_id;
+      }
+
+      if (message.type === "assistant") {
+        costUsd = estimateRunCost(recorder);
+        if (maxBudgetUsd !== undefined && costUsd >= maxBudgetUsd) {
+          budgetExceeded = true;
+          await onProgress?.(
+            `[budget] Spend cap of $${maxBudgetUsd.toFixed(2)} reached (~$${costUsd.toFixed(2)}) — stopping`,
+          );
+          abortController.abort();
+          break;
+        }
+      }
 
       if (message.type === "result") {
+        inputOpen = false;
         const result = message as SDKResultMessage;
         sessionId = result.session_id;
         costUsd = result.total_cost_usd ?? 0;
+        if (result.subtype === "success") {
+          summary = result.result;
+          outcome = "success";
+        }
+        if (result.subtype === "error_max_budget_usd") {
+          budgetExceeded = true;
+          break;
+        }
+        if (result.subtype === "error_max_turns") {
+          hitMaxTurns = true;
+          break;
+        }
         if (result.is_error && "errors" in result && result.errors?.length) {
           throw new Error(result.errors.join("\n"));
         }
       }
     }
   } catch (error) {
+    if (budgetExceeded) {
+      throw new BudgetExceededError(costUsd, sessionId);
+    }
     const stderr = stderrChunks.join("").trim();
     const msg = error instanceof Error ? error.message : String(error);
     const diagnostics = [
@@ -756,10 +2818,339 @@ async function runClaude(params: RunClaudeParams): Promise<ClaudeResult> {
     ]
       .filter(Boolean)
       .join("");
-    throw new Error(diagnostics);
+    throw new ClaudeRunError(diagnostics, costUsd, sessionId);
+  } finally {
+    inputOpen = false;
+    if (budgetExceeded) outcome = "budget_exceeded";
+    if (params.telemetry) {
+      const { issueKey, ...run } = params.telemetry;
+      await appendRunTelemetry(
+        issueKey,
+        finishRunRecorder(recorder, { ...run, outcome, costUsd }),
+      ).catch(() => {
+        // Telemetry is best-effort — never fail a run over it
+      });
+    }
+  }
+
+  if (budgetExceeded) {
+    throw new BudgetExceededError(costUsd, sessionId);
+  }
+
+  return { sessionId, costUsd, summary, model, hitMaxTurns };
+}
+
+/**
+ * Run a phase's main session on the model the routing policy picks. If it
+ * fails or runs out of turns and MODEL_ESCALATION allows, retry once on the
+ * next stronger model, resuming the same session where there is one. Each
+ * attempt is recorded on the task with its cost.
+ */
+async function runRoutedSession(
+  params: RunClaudeParams & {
+    route: ModelRoute;
+    telemetry: NonNullable<RunClaudeParams["telemetry"]>;
+  },
+): Promise<ClaudeResult> {
+  const { route, telemetry, ...runParams } = params;
+  const { issueKey, repoName, phase } = telemetry;
+  const record = (
+    attempt: Pick<ModelAttempt, "model" | "reason" | "outcome" | "costUsd">,
+  ) =>
+    appendModelAttempt(issueKey, {
+      ...attempt,
+      phase,
+      repoName,
+      at: Date.now(),
+    });
+
+  let firstCostUsd: number;
+  let sessionId: string | undefined;
+  let failure: string;
+  let firstError: unknown;
+  let firstResult: ClaudeResult | undefined;
+  try {
+    firstResult = await runClaude({
+      ...runParams,
+      telemetry,
+      model: route.model,
+      steerable: true,
+    });
+    firstCostUsd = firstResult.costUsd ?? 0;
+    await record({
+      model: route.model,
+      reason: route.reason,
+      outcome: firstResult.hitMaxTurns ? "max_turns" : "success",
+      costUsd: firstCostUsd,
+    });
+    if (!firstResult.hitMaxTurns) return firstResult;
+    sessionId = firstResult.sessionId;
+    failure = "ran out of turns";
+  } catch (error) {
+    if (
+      !(error instanceof ClaudeRunError) ||
+      runParams.abortController?.signal.aborted
+    ) {
+      throw error;
+    }
+    firstError = error;
+    firstCostUsd = error.costUsd;
+    sessionId = error.sessionId;
+    failure = "failed";
+    await record({
+      model: route.model,
+      reason: route.reason,
+      outcome: "error",
+      costUsd: firstCostUsd,
+    });
+  }
+
+  const stronger = nextStrongerModel(route.model);
+  if (!stronger) {
+    if (firstResult) return firstResult;
+    throw firstError;
+  }
+
+  await runParams.onProgress?.(
+    `[model] ${route.model} ${failure} — retrying on ${stronger}`,
+  );
+  const reason = `Escalated after ${route.model} ${failure}`;
+  const maxBudgetUsd =
+    runParams.maxBudgetUsd === undefined
+      ? undefined
+      : runParams.maxBudgetUsd - firstCostUsd;
+  try {
+    const result = await runClaude({
+      ...runParams,
+      model: stronger,
+      maxBudgetUsd,
+      prompt: sessionId
+        ? buildResumePrompt({
+            taskPrompt: runParams.prompt,
+            reason: `Your previous attempt on ${route.model} ${failure === "failed" ? "failed with an error" : "ran out of turns"}. You are now running on a stronger model.`,
+          })
+        : runParams.prompt,
+      // Resuming keeps the images from the first attempt
+      images: sessionId ? undefined : runParams.images,
+      resumeSessionId: sessionId ?? runParams.resumeSessionId,
+      steerable: true,
+      telemetry: { ...telemetry, label: `${telemetry.label} (escalated)` },
+    });
+    await record({
+      model: stronger,
+      reason,
+      outcome: result.hitMaxTurns ? "max_turns" : "success",
+      costUsd: result.costUsd ?? 0,
+    });
+    return { ...result, costUsd: firstCostUsd + (result.costUsd ?? 0) };
+  } catch (error) {
+    // Callers only see the error, so it has to carry both attempts' spend
+    if (error instanceof BudgetExceededError) {
+      throw new BudgetExceededError(
+        firstCostUsd + error.costUsd,
+        error.sessionId,
+      );
+    }
+    if (error instanceof ClaudeRunError) {
+      await record({
+        model: stronger,
+        reason,
+        outcome: "error",
+        costUsd: error.costUsd,
+      });
+      throw new ClaudeRunError(
+        error.message,
+        firstCostUsd + error.costUsd,
+        error.sessionId,
+      );
+    }
+    throw error;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Spend estimation
+// ---------------------------------------------------------------------------
+
+/** Token usage shape from the Anthropic API (not importing the type directly). */
+interface Usage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+}
+
+/** USD per million tokens. */
+interface ModelPricing {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+const SONNET_PRICING: ModelPricing = {
+  input: 3,
+  output: 15,
+  cacheWrite: 3.75,
+  cacheRead: 0.3,
+};
+
+const MODEL_PRICING: { prefix: string; pricing: ModelPricing }[] = [
+  {
+    prefix: "claude-opus",
+    pricing: { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  },
+  { prefix: "claude-sonnet", pricing: SONNET_PRICING },
+  {
+    prefix: "claude-haiku",
+    pricing: { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  },
+];
+
+function estimateUsageCost(model: string, usage: Usage): number {
+  const pricing =
+    MODEL_PRICING.find((p) => model.startsWith(p.prefix))?.pricing ??
+    SONNET_PRICING;
+  const tokens =
+    (usage.input_tokens ?? 0) * pricing.input +
+    (usage.output_tokens ?? 0) * pricing.output +
+    (usage.cache_creation_input_tokens ?? 0) * pricing.cacheWrite +
+    (usage.cache_read_input_tokens ?? 0) * pricing.cacheRead;
+  return tokens / 1_000_000;
+}
+
+/**
+ * PreToolUse hook that denies tool calls breaking the repo's policy. Hooks run
+ * even under bypassPermissions, and Claude sees the reason so it can adapt.
+ */
+function toolPolicyHook(
+  policy: ToolPolicy,
+  worktreePath: string,
+  onProgress?: (entry: string) => Promise<void>,
+): HookCallback {
+  return async (input) => {
+    if (input.hook_event_name !== "PreToolUse") return {};
+    const reason = checkToolUse(
+      policy,
+      worktreePath,
+      input.tool_name,
+      (input.tool_input ?? {}) as Record<string, unknown>,
+    );
+    if (!reason) return {};
+    await onProgress?.(`[denied] ${input.tool_name}: ${reason}`);
+    return {
+      hookSpecificOutput: {
+        hookEventName: "PreToolUse",
+        permissionDecision: "deny",
+        permissionDecisionReason: reason,
+      },
+    };
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Run telemetry
+// ---------------------------------------------------------------------------
+
+interface RunRecorder {
+  model: string;
+  startedAt: number;
+  /**
+   * Keyed by API message id: responses with several content blocks arrive as
+   * several messages sharing an id, so only the latest usage is kept.
+   */
+  turns: Map<string, TurnTelemetry>;
+  /** Tool calls still waiting for their result, keyed by tool_use id. */
+  pendingToolCalls: Map<string, { tool: string; startedAt: number }>;
+  toolCalls: ToolCallTelemetry[];
+}
+
+function createRunRecorder(model: string): RunRecorder {
+  return {
+    model,
+    startedAt: Date.now(),
+    turns: new Map(),
+    pendingToolCalls: new Map(),
+    toolCalls: [],
+  };
+}
+
+/** Pick token usage and tool call timings out of an SDK message. */
+function recordRunMessage(recorder: RunRecorder, message: SDKMessage): void {
+  if (message.type === "assistant") {
+    const apiMessage = message.message as {
+      id: string;
+      usage?: Usage;
+      content: ContentBlock[];
+    };
+    if (apiMessage.usage) {
+      const usage = apiMessage.usage;
+      recorder.turns.set(apiMessage.id, {
+        inputTokens: usage.input_tokens ?? 0,
+        outputTokens: usage.output_tokens ?? 0,
+        cacheReadTokens: usage.cache_read_input_tokens ?? 0,
+        cacheCreationTokens: usage.cache_creation_input_tokens ?? 0,
+        costUsd: estimateUsageCost(recorder.model, usage),
+      });
+    }
+    for (const block of apiMessage.content) {
+      if (block.type === "tool_use" && block.id && block.name) {
+        recorder.pendingToolCalls.set(block.id, {
+          tool: block.name,
+          startedAt: Date.now(),
+        });
+      }
+    }
+  }
+
+  if (message.type === "user") {
+    const content = (message.message as { content: string | ContentBlock[] })
+      .content;
+    if (typeof content === "string") return;
+    for (const block of content) {
+      const pending =
+        block.type === "tool_result" && block.tool_use_id
+          ? recorder.pendingToolCalls.get(block.tool_use_id)
+          : undefined;
+      if (!pending || !block.tool_use_id) continue;
+      recorder.pendingToolCalls.delete(block.tool_use_id);
+      recorder.toolCalls.push({
+        tool: pending.tool,
+        durationMs: Date.now() - pending.startedAt,
+        isError: block.is_error === true,
+      });
+    }
   }
+}
+
+function estimateRunCost(recorder: RunRecorder): number {
+  let total = 0;
+  for (const turn of recorder.turns.values()) total += turn.costUsd;
+  return total;
+}
 
-  return { sessionId, costUsd };
+function finishRunRecorder(
+  recorder: RunRecorder,
+  run: Pick<
+    RunTelemetry,
+    "phase" | "label" | "repoName" | "outcome" | "costUsd"
+  >,
+): RunTelemetry {
+  const now = Date.now();
+  // Calls cut off by an abort or error never got a result
+  const unfinished = [...recorder.pendingToolCalls.values()].map((call) => ({
+    tool: call.tool,
+    durationMs: now - call.startedAt,
+    isError: true,
+  }));
+  return {
+    ...run,
+    model: recorder.model,
+    startedAt: recorder.startedAt,
+    durationMs: now - recorder.startedAt,
+    turns: [...recorder.turns.values()],
+    toolCalls: [...recorder.toolCalls, ...unfinished],
+  };
 }
 
 // ---------------------------------------------------------------------------
@@ -830,40 +3221,10 @@ interface ContentBlock {
   name?: string;
   id?: string;
   input?: Record<string, unknown>;
+  tool_use_id?: string;
+  is_error?: boolean;
 }
 
-// ---------------------------------------------------------------------------
-// Figma design context helpers (stub — no Figma integration configured yet)
-// ---------------------------------------------------------------------------
-
-interface FigmaDesign {
-  url: string;
-  name: string;
-  imageBase64: string;
-}
-
-async function fetchFigmaContext(_issue: LinearIssue): Promise<FigmaDesign[]> {
-  // TODO: implement Figma API integration when needed
-  return [];
-}
-
-function buildFigmaPromptSection(designs: FigmaDesign[]): string {
-  if (designs.length === 0) return "";
-  const lines = ["## Figma Designs", ""];
-  for (const d of designs) {
-    lines.push(`### ${d.name}`);
-    lines.push(`URL: ${d.url}`);
-    lines.push("");
-  }
-  return lines.join("\n");
-}
-
-async function cleanupFigmaImages(_issueKey: string): Promise<void> {
-  // no-op until Figma integration is implemented
-}
-
-// ---------------------------------------------------------------------------
-
 function formatToolUse(
   toolName: string,
   input: Record<string, unknown> | undefined,
@@ -0,0 +1,260 @@
+import { execFile } from "child_process";
+import { createHash } from "crypto";
+import { promisify } from "util";
+import fs from "fs/promises";
+import path from "path";
+import { getConfig } from "../utils/preferences";
+import { formatDuration } from "../utils/telemetry";
+
+const execFileAsync = promisify(execFile);
+
+/** Snapshots kept per cache; the least recently used beyond this are pruned. */
+const MAX_CACHED_SNAPSHOTS = 5;
+
+/** Written into a worktree's node_modules once it matches a lockfile. */
+const INSTALLED_HASH_FILE = ".autozerts-lockfile-hash";
+
+const SNAPSHOT_META_FILE = "meta.json";
+
+interface SnapshotMeta {
+  /** How long the install that produced the snapshot took. */
+  installMs: number;
+  sizeBytes: number;
+}
+
+/** How a worktree's dependencies were brought up to date. */
+export interface InstallResult {
+  outcome: "installed" | "restored" | "unchanged" | "failed" | "none";
+  durationMs: number;
+  /** Install time avoided by restoring a snapshot. */
+  savedMs?: number;
+  /** Disk shared with the snapshot instead of duplicated. */
+  savedBytes?: number;
+}
+
+function snapshotsRoot(): string {
+  return path.join(getConfig().dependencyCachePath, "snapshots");
+}
+
+function snapshotDir(hash: string): string {
+  return path.join(snapshotsRoot(), hash);
+}
+
+/** Shared pnpm store, so installs on a cache miss hardlink packages too. */
+export function getPnpmStorePath(): string {
+  return path.join(getConfig().dependencyCachePath, "pnpm-store");
+}
+
+/**
+ * Cache key for a worktree's dependencies: the lockfile's name and contents.
+ */
+export async function hashLockFile(
+  worktreePath: string,
+  lockFile: string,
+): Promise<string> {
+  const contents = await fs.readFile(path.join(worktreePath, lockFile));
+  return createHash("sha256")
+    .update(lockFile)
+    .update(contents)
+    .digest("hex")
+    .slice(0, 32);
+}
+
+/**
+ * Whether the project is a pnpm, yarn, npm or bun workspace. Its packages keep
+ * their own node_modules, which a snapshot of the root one doesn't cover, so
+ * workspaces are never cached.
+ */
+export async function declaresWorkspaces(
+  worktreePath: string,
+): Promise<boolean> {
+  try {
+    await fs.access(path.join(worktreePath, "pnpm-workspace.yaml"));
+    return true;
+  } catch {
+    // Not a pnpm workspace
+  }
+  try {
+    const pkg = JSON.parse(
+      await fs.readFile(path.join(worktreePath, "package.json"), "utf-8"),
+    ) as { workspaces?: unknown };
+    return pkg.workspaces !== undefined;
+  } catch {
+    return false;
+  }
+}
+
+/** The lockfile hash the worktree's node_modules was last installed from. */
+export async function readInstalledHash(
+  worktreePath: string,
+): Promise<string | null> {
+  try {
+    const hash = await fs.readFile(
+      path.join(worktreePath, "node_modules", INSTALLED_HASH_FILE),
+      "utf-8",
+    );
+    return hash.trim();
+  } catch {
+    return null;
+  }
+}
+
+export async function markInstalled(
+  worktreePath: string,
+  hash: string,
+): Promise<void> {
+  try {
+    await fs.writeFile(
+      path.join(worktreePath, "node_modules", INSTALLED_HASH_FILE),
+      hash,
+    );
+  } catch {
+    // No node_modules (nothing to install) — the next run installs again
+  }
+}
+
+/**
+ * Copy a directory tree as a copy-on-write clone (APFS clonefile), which
+ * shares disk with the source until either side changes. Returns whether
+ * the copy was a clone or had to fall back to a full copy.
+ */
+async function cloneDir(source: string, target: string): Promise<boolean> {
+  try {
+    await execFileAsync("cp", ["-c", "-R", source, target]);
+    return true;
+  } catch {
+    await fs.rm(target, { recursive: true, force: true });
+    await execFileAsync("cp", ["-R", source, target]);
+    return false;
+  }
+}
+
+async function diskUsageBytes(dir: string): Promise<number> {
+  try {
+    const { stdout } = await execFileAsync("du", ["-sk", dir]);
+    return parseInt(stdout, 10) * 1024 || 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Restore node_modules from the snapshot for this lockfile hash, if there is
+ * one. Returns what restoring saved, or null on a cache miss.
+ */
+export async function restoreSnapshot(
+  worktreePath: string,
+  hash: string,
+): Promise<{ savedMs: number; savedBytes?: number } | null> {
+  const dir = snapshotDir(hash);
+  let meta: SnapshotMeta;
+  try {
+    meta = JSON.parse(
+      await fs.readFile(path.join(dir, SNAPSHOT_META_FILE), "utf-8"),
+    );
+  } catch {
+    return null;
+  }
+
+  const startedAt = Date.now();
+  const target = path.join(worktreePath, "node_modules");
+  try {
+    await fs.rm(target, { recursive: true, force: true });
+    const cloned = await cloneDir(path.join(dir, "node_modules"), target);
+    // Keep recently used snapshots from being pruned
+    const now = new Date();
+    await fs.utimes(dir, now, now);
+    return {
+      savedMs: Math.max(0, meta.installMs - (Date.now() - startedAt)),
+      savedBytes: cloned ? meta.sizeBytes : undefined,
+    };
+  } catch {
+    // Broken snapshot — fall back to a normal install
+    await fs.rm(target, { recursive: true, force: true });
+    return null;
+  }
+}
+
+/**
+ * Snapshot the worktree's freshly installed node_modules for other worktrees
+ * with the same lockfile. Best effort: a failed snapshot only costs the next
+ * task a full install.
+ */
+export async function saveSnapshot(
+  worktreePath: string,
+  hash: string,
+  installMs: number,
+): Promise<void> {
+  const dir = snapshotDir(hash);
+  const source = path.join(worktreePath, "node_modules");
+  try {
+    await fs.access(path.join(dir, SNAPSHOT_META_FILE));
+    return; // Another task already saved it
+  } catch {
+    // Not cached yet
+  }
+
+  // Build in a temp dir and rename, so concurrent tasks never see half a snapshot
+  const temp = `${dir}.tmp-${process.pid}-${Date.now()}`;
+  try {
+    await fs.access(source);
+    await fs.mkdir(temp, { recursive: true });
+    await cloneDir(source, path.join(temp, "node_modules"));
+    const meta: SnapshotMeta = {
+      installMs,
+      sizeBytes: await diskUsageBytes(source),
+    };
+    await fs.writeFile(
+      path.join(temp, SNAPSHOT_META_FILE),
+      JSON.stringify(meta),
+    );
+    await fs.rename(temp, dir);
+    await pruneSnapshots();
+  } catch {
+    await fs.rm(temp, { recursive: true, force: true });
+  }
+}
+
+async function pruneSnapshots(): Promise<void> {
+  const root = snapshotsRoot();
+  const entries = await fs.readdir(root, { withFileTypes: true });
+  const snapshots = await Promise.all(
+    entries
+      .filter((e) => e.isDirectory() && !e.name.includes(".tmp-"))
+      .map(async (e) => {
+        const dir = path.join(root, e.name);
+        return { dir, mtimeMs: (await fs.stat(dir)).mtimeMs };
+      }),
+  );
+  snapshots.sort((a, b) => b.mtimeMs - a.mtimeMs);
+  for (const { dir } of snapshots.slice(MAX_CACHED_SNAPSHOTS)) {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+  return `${Math.round(bytes / 1024 ** 2)} MB`;
+}
+
+/** One progress log line describing an install. */
+export function describeInstall(result: InstallResult): string {
+  const took = formatDuration(result.durationMs);
+  switch (result.outcome) {
+    case "unchanged":
+      return "Lockfile unchanged — skipped dependency install";
+    case "restored": {
+      const saved = [`~${formatDuration(result.savedMs ?? 0)}`];
+      if (result.savedBytes) {
+        saved.push(`${formatBytes(result.savedBytes)} disk`);
+      }
+      return `Dependencies restored from cache in ${took} (saved ${saved.join(" and ")})`;
+    }
+    case "installed":
+      return `Dependencies installed in ${took}`;
+    case "failed":
+      return `Warning: dependency install failed after ${took} — continuing without it`;
+    case "none":
+      return "No dependencies to install";
+  }
+}
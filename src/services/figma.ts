@@ -0,0 +1,156 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { getConfig } from "../utils/preferences";
+import type { LinearIssue } from "../types/linear";
+import type {
+  FigmaDesign,
+  FigmaFileResponse,
+  FigmaImagesResponse,
+  FigmaLink,
+  FigmaNodesResponse,
+} from "../types/figma";
+
+/** Links fetched per task; any beyond this are ignored. */
+const MAX_DESIGNS = 5;
+
+/** Largest base64 image the Messages API accepts. */
+const MAX_IMAGE_BASE64_BYTES = 5 * 1024 * 1024;
+
+const FIGMA_URL =
+  /https:\/\/(?:www\.)?figma\.com\/(?:file|design|proto|board)\/([A-Za-z0-9]+)[^\s)\]>"'`]*/g;
+
+async function figmaFetch<T>(apiPath: string): Promise<T> {
+  const { figmaToken, figmaApiBaseUrl } = getConfig();
+  const response = await fetch(`${figmaApiBaseUrl}${apiPath}`, {
+    headers: { "X-Figma-Token": figmaToken },
+  });
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => "");
+    throw new Error(`Figma API ${response.status}: ${body}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+/**
+ * Find Figma file, design and prototype links in text, one per file/node.
+ * URL node-ids ("12-34") are converted to the API's form ("12:34").
+ */
+export function findFigmaLinks(text: string): FigmaLink[] {
+  const links = new Map<string, FigmaLink>();
+  for (const match of text.matchAll(FIGMA_URL)) {
+    const url = match[0].replace(/[.,;:!?]+$/, "");
+    let nodeId: string | undefined;
+    try {
+      nodeId =
+        new URL(url).searchParams.get("node-id")?.replace(/-/g, ":") ||
+        undefined;
+    } catch {
+      // Unparseable query — treat as a whole-file link
+    }
+    const fileKey = match[1];
+    links.set(`${fileKey}/${nodeId ?? ""}`, { url, fileKey, nodeId });
+  }
+  return [...links.values()];
+}
+
+/** The node a link points at; whole-file links use the first frame. */
+async function resolveNode(
+  link: FigmaLink,
+): Promise<{ nodeId: string; name: string }> {
+  if (link.nodeId) {
+    const data = await figmaFetch<FigmaNodesResponse>(
+      `/v1/files/${link.fileKey}/nodes?ids=${encodeURIComponent(link.nodeId)}&depth=1`,
+    );
+    const node = data.nodes[link.nodeId];
+    if (!node) throw new Error(`Node ${link.nodeId} not found`);
+    return { nodeId: link.nodeId, name: node.document.name };
+  }
+
+  const file = await figmaFetch<FigmaFileResponse>(
+    `/v1/files/${link.fileKey}?depth=2`,
+  );
+  const page = file.document.children?.[0];
+  if (!page) throw new Error("File has no pages");
+  const frame = page.children?.[0];
+  return frame
+    ? { nodeId: frame.id, name: `${file.name} — ${frame.name}` }
+    : { nodeId: page.id, name: file.name };
+}
+
+async function renderNode(fileKey: string, nodeId: string): Promise<Buffer> {
+  const data = await figmaFetch<FigmaImagesResponse>(
+    `/v1/images/${fileKey}?ids=${encodeURIComponent(nodeId)}&format=png&scale=1`,
+  );
+  const imageUrl = data.images[nodeId];
+  if (!imageUrl) throw new Error(data.err ?? `Node ${nodeId} not rendered`);
+
+  const response = await fetch(imageUrl);
+  if (!response.ok) {
+    throw new Error(`Image download ${response.status}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/** Where a task's rendered designs are kept while it runs. */
+function getFigmaImageDir(issueKey: string): string {
+  return path.join(os.tmpdir(), "autozerts-figma", issueKey);
+}
+
+/**
+ * Fetch and render the designs linked from an issue's description and
+ * comments. A link that can't be fetched is returned with its error rather
+ * than failing the rest.
+ */
+export async function fetchFigmaDesigns(
+  issue: LinearIssue,
+): Promise<FigmaDesign[]> {
+  const text = [
+    issue.description ?? "",
+    ...(issue.comments?.nodes ?? []).map((c) => c.body),
+  ].join("\n");
+  const links = findFigmaLinks(text).slice(0, MAX_DESIGNS);
+  if (links.length === 0) return [];
+
+  if (!getConfig().figmaToken) {
+    throw new Error(
+      `${links.length} Figma link(s) found but FIGMA_TOKEN is not set`,
+    );
+  }
+
+  const dir = getFigmaImageDir(issue.identifier);
+  await fs.mkdir(dir, { recursive: true });
+
+  const designs: FigmaDesign[] = [];
+  for (const [index, link] of links.entries()) {
+    try {
+      const { nodeId, name } = await resolveNode(link);
+      const image = await renderNode(link.fileKey, nodeId);
+      const imagePath = path.join(dir, `${index + 1}.png`);
+      await fs.writeFile(imagePath, image);
+      const imageBase64 = image.toString("base64");
+      designs.push({
+        url: link.url,
+        name,
+        imagePath,
+        imageBase64:
+          imageBase64.length <= MAX_IMAGE_BASE64_BYTES ? imageBase64 : "",
+      });
+    } catch (error) {
+      designs.push({
+        url: link.url,
+        name: link.url,
+        imageBase64: "",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return designs;
+}
+
+/** Remove a task's rendered designs. */
+export async function cleanupFigmaImages(issueKey: string): Promise<void> {
+  await fs.rm(getFigmaImageDir(issueKey), { recursive: true, force: true });
+}
@@ -3,7 +3,11 @@ import type {
   GitHubPullRequest,
   GitHubReview,
   GitHubComment,
+  GitHubReviewThread,
+  GitHubReviewEvent,
+  GitHubDraftReviewComment,
   GitHubCheckSuiteResponse,
+  GitHubCheckAnnotation,
   GitHubSearchResponse,
   GitHubSearchItem,
   GitHubCommit,
@@ -39,16 +43,33 @@ async function ghFetch<T>(path: string, init?: RequestInit): Promise<T> {
   return response.json() as Promise<T>;
 }
 
+async function ghGraphql<T>(
+  query: string,
+  variables?: Record<string, unknown>,
+): Promise<T> {
+  const json = await ghFetch<{ data?: T; errors?: { message: string }[] }>(
+    "/graphql",
+    { method: "POST", body: JSON.stringify({ query, variables }) },
+  );
+  if (json.errors?.length) {
+    throw new Error(`GitHub GraphQL: ${json.errors[0].message}`);
+  }
+  if (!json.data) {
+    throw new Error("GitHub GraphQL: no data returned");
+  }
+  return json.data;
+}
+
 /**
- * Fetch open PRs authored by the current user, scoped to repos from .env config.
+ * Search open PRs in the repos from .env config and fetch each in full.
  */
-export async function fetchMyOpenPRs(): Promise<GitHubPullRequest[]> {
+async function searchOpenPRs(filter: string): Promise<GitHubPullRequest[]> {
   const { githubOwner, repos } = getConfig();
   if (repos.length === 0) return [];
 
   // Build a search query scoped to configured repos
   const repoFilters = repos.map((r) => `repo:${githubOwner}/${r.name}`).join(" ");
-  const q = `author:@me type:pr state:open ${repoFilters}`;
+  const q = `${filter} type:pr state:open ${repoFilters}`;
 
   const data = await ghFetch<GitHubSearchResponse>(
     `/search/issues?q=${encodeURIComponent(q)}&sort=updated&order=desc&per_page=50`,
@@ -74,6 +95,21 @@ export async function fetchMyOpenPRs(): Promise<GitHubPullRequest[]> {
   return prs;
 }
 
+/**
+ * Fetch open PRs authored by the current user, scoped to repos from .env config.
+ */
+export async function fetchMyOpenPRs(): Promise<GitHubPullRequest[]> {
+  return searchOpenPRs("author:@me");
+}
+
+/**
+ * Fetch open PRs the current user's review is requested on, scoped to repos
+ * from .env config.
+ */
+export async function fetchReviewRequestedPRs(): Promise<GitHubPullRequest[]> {
+  return searchOpenPRs("review-requested:@me");
+}
+
 /**
  * Fetch a single pull request.
  */
@@ -126,6 +162,88 @@ export async function fetchReviewComments(
   );
 }
 
+interface ReviewThreadsResponse {
+  repository: {
+    pullRequest: {
+      reviewThreads: {
+        nodes: {
+          id: string;
+          isResolved: boolean;
+          isOutdated: boolean;
+          path: string;
+          line: number | null;
+          comments: {
+            nodes: {
+              databaseId: number;
+              author: { login: string } | null;
+              body: string;
+              createdAt: string;
+              url: string;
+            }[];
+          };
+        }[];
+      };
+    } | null;
+  };
+}
+
+/**
+ * Fetch the inline review threads on a pull request, with whether each is
+ * resolved or outdated.
+ */
+export async function fetchReviewThreads(
+  owner: string,
+  repo: string,
+  prNumber: number,
+): Promise<GitHubReviewThread[]> {
+  const data = await ghGraphql<ReviewThreadsResponse>(
+    `query($owner: String!, $repo: String!, $number: Int!) {
+      repository(owner: $owner, name: $repo) {
+        pullRequest(number: $number) {
+          reviewThreads(first: 100) {
+            nodes {
+              id
+              isResolved
+              isOutdated
+              path
+              line
+              comments(first: 50) {
+                nodes { databaseId author { login } body createdAt url }
+              }
+            }
+          }
+        }
+      }
+    }`,
+    { owner, repo, number: prNumber },
+  );
+
+  return (data.repository.pullRequest?.reviewThreads.nodes ?? []).map(
+    (thread) => ({
+      ...thread,
+      comments: thread.comments.nodes.map((c) => ({
+        ...c,
+        author: c.author?.login ?? "ghost",
+      })),
+    }),
+  );
+}
+
+/**
+ * Unresolved threads a reviewer started, i.e. the ones still waiting on the
+ * PR author. Threads opened by bots don't count.
+ */
+export function getUnresolvedThreads(
+  threads: GitHubReviewThread[],
+): GitHubReviewThread[] {
+  return threads.filter(
+    (t) =>
+      !t.isResolved &&
+      t.comments.length > 0 &&
+      !isBotUser(t.comments[0].author),
+  );
+}
+
 /**
  * Fetch check runs for a ref.
  */
@@ -135,8 +253,47 @@ export async function fetchCheckRuns(
   ref: string,
 ): Promise<GitHubCheckSuiteResponse> {
   return ghFetch<GitHubCheckSuiteResponse>(
-    `/repos/${owner}/${repo}/commits/${ref}/check-runs`,
+    `/repos/${owner}/${repo}/commits/${ref}/check-runs?per_page=100`,
+  );
+}
+
+/**
+ * Fetch the annotations (file/line errors and warnings) a check run reported.
+ */
+export async function fetchCheckRunAnnotations(
+  owner: string,
+  repo: string,
+  checkRunId: number,
+): Promise<GitHubCheckAnnotation[]> {
+  return ghFetch<GitHubCheckAnnotation[]>(
+    `/repos/${owner}/${repo}/check-runs/${checkRunId}/annotations?per_page=50`,
+  );
+}
+
+/**
+ * Fetch the plain-text log of a GitHub Actions job. A check run reported by
+ * GitHub Actions has the same id as its job.
+ */
+export async function fetchJobLog(
+  owner: string,
+  repo: string,
+  jobId: number,
+): Promise<string> {
+  const { githubToken } = getConfig();
+  // Redirects to a signed download URL, which fetch follows
+  const response = await fetch(
+    `${API_BASE}/repos/${owner}/${repo}/actions/jobs/${jobId}/logs`,
+    {
+      headers: {
+        Authorization: `token ${githubToken}`,
+        Accept: "application/vnd.github+json",
+      },
+    },
   );
+  if (!response.ok) {
+    throw new Error(`GitHub API ${response.status}: job log unavailable`);
+  }
+  return response.text();
 }
 
 /**
@@ -175,6 +332,7 @@ export async function createPullRequest(
         body: params.body,
         head: params.head,
         base: params.base,
+        draft: params.draft ?? false,
       }),
     },
   );
@@ -186,6 +344,21 @@ export async function createPullRequest(
   return pr;
 }
 
+/**
+ * Update the title and/or body of a pull request.
+ */
+export async function updatePullRequest(
+  owner: string,
+  repo: string,
+  prNumber: number,
+  fields: { title?: string; body?: string },
+): Promise<void> {
+  await ghFetch(`/repos/${owner}/${repo}/pulls/${prNumber}`, {
+    method: "PATCH",
+    body: JSON.stringify(fields),
+  });
+}
+
 /**
  * Add a comment to a pull request.
  */
@@ -201,6 +374,33 @@ export async function addPRComment(
   });
 }
 
+/**
+ * Submit a review on a pull request, with optional inline comments on the
+ * new side of the diff. Only "COMMENT" works on the token owner's own PRs.
+ */
+export async function submitPullRequestReview(
+  owner: string,
+  repo: string,
+  prNumber: number,
+  review: {
+    body: string;
+    event?: GitHubReviewEvent;
+    comments?: GitHubDraftReviewComment[];
+    /** Head commit the comments' line numbers refer to. */
+    commitId?: string;
+  },
+): Promise<void> {
+  await ghFetch(`/repos/${owner}/${repo}/pulls/${prNumber}/reviews`, {
+    method: "POST",
+    body: JSON.stringify({
+      body: review.body,
+      event: review.event ?? "COMMENT",
+      comments: (review.comments ?? []).map((c) => ({ ...c, side: "RIGHT" })),
+      ...(review.commitId ? { commit_id: review.commitId } : {}),
+    }),
+  });
+}
+
 /**
  * Add labels to an issue or pull request.
  */
@@ -270,44 +470,34 @@ export async function addReactionToReviewComment(
 }
 
 /**
- * Mark all comments on a PR that were created after a cutoff date with a reaction.
- * Excludes comments from the PR author.
+ * Reply in an inline review comment's thread.
  */
-export async function markNewCommentsAsAddressed(
+export async function replyToReviewComment(
   owner: string,
   repo: string,
   prNumber: number,
-  prAuthor: string,
-  cutoffDate: string,
-): Promise<number> {
-  const cutoff = new Date(cutoffDate).getTime();
-  let markedCount = 0;
-
-  // Fetch and react to issue comments
-  const issueComments = await fetchPRComments(owner, repo, prNumber);
-  for (const comment of issueComments) {
-    if (comment.user.login !== prAuthor && !isBotUser(comment.user.login) && new Date(comment.created_at).getTime() > cutoff) {
-      try {
-        await addReactionToIssueComment(owner, repo, comment.id);
-        markedCount++;
-      } catch {
-        // Ignore reaction failures (might already exist)
-      }
-    }
-  }
+  commentId: number,
+  body: string,
+): Promise<void> {
+  await ghFetch(
+    `/repos/${owner}/${repo}/pulls/${prNumber}/comments/${commentId}/replies`,
+    {
+      method: "POST",
+      body: JSON.stringify({ body }),
+    },
+  );
+}
 
-  // Fetch and react to review comments (inline)
-  const reviewComments = await fetchReviewComments(owner, repo, prNumber);
-  for (const comment of reviewComments) {
-    if (comment.user.login !== prAuthor && !isBotUser(comment.user.login) && new Date(comment.created_at).getTime() > cutoff) {
-      try {
-        await addReactionToReviewComment(owner, repo, comment.id);
-        markedCount++;
-      } catch {
-        // Ignore reaction failures
+/**
+ * Mark a review thread as resolved.
+ */
+export async function resolveReviewThread(threadId: string): Promise<void> {
+  await ghGraphql(
+    `mutation($threadId: ID!) {
+      resolveReviewThread(input: { threadId: $threadId }) {
+        thread { id }
       }
-    }
-  }
-
-  return markedCount;
+    }`,
+    { threadId },
+  );
 }
@@ -0,0 +1,152 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { getConfig } from "../utils/preferences";
+import type { LinearIssue } from "../types/linear";
+import type { IssueImage, PromptImage } from "../types/prompt";
+
+const execFileAsync = promisify(execFile);
+
+/** Screenshots attached per task; later ones are left as links. */
+const MAX_ISSUE_IMAGES = 10;
+
+/** Longest edge Claude uses without downscaling the image itself. */
+const MAX_IMAGE_DIMENSION = 1568;
+
+/** Largest base64 image the Messages API accepts. */
+const MAX_IMAGE_BASE64_BYTES = 5 * 1024 * 1024;
+
+const LINEAR_UPLOAD_IMAGE =
+  /!\[([^\]]*)\]\((https:\/\/uploads\.linear\.app\/[^\s)]+)\)/g;
+
+const SUPPORTED_TYPES: ReadonlySet<string> = new Set<PromptImage["mediaType"]>([
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+]);
+
+/**
+ * Screenshots embedded in the issue's description and comments as Linear
+ * uploads, in the order they appear. An image embedded twice is listed once.
+ */
+export function findIssueImages(issue: LinearIssue): IssueImage[] {
+  const sources = [
+    { source: "Description", text: issue.description ?? "" },
+    ...(issue.comments?.nodes ?? []).map((c) => ({
+      source: `Comment by ${c.user?.name ?? "Unknown"}`,
+      text: c.body,
+    })),
+  ];
+
+  const images = new Map<string, IssueImage>();
+  for (const { source, text } of sources) {
+    for (const [, alt, url] of text.matchAll(LINEAR_UPLOAD_IMAGE)) {
+      if (!images.has(url)) images.set(url, { url, source, alt });
+    }
+  }
+  return [...images.values()];
+}
+
+/** Short label for lists and toggles. */
+export function describeIssueImage(image: IssueImage): string {
+  return image.alt ? `${image.alt} (${image.source})` : image.source;
+}
+
+/**
+ * Shrink an image so its longest edge fits MAX_IMAGE_DIMENSION, using macOS
+ * `sips`. Returns the image unchanged if it already fits or can't be resized.
+ */
+async function downscale(
+  image: Buffer,
+  mediaType: PromptImage["mediaType"],
+): Promise<Buffer> {
+  // sips can read but not reliably write GIF and WebP
+  if (mediaType !== "image/png" && mediaType !== "image/jpeg") return image;
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "autozerts-image-"));
+  const file = path.join(dir, mediaType === "image/png" ? "in.png" : "in.jpg");
+  try {
+    await fs.writeFile(file, image);
+    const { stdout } = await execFileAsync("sips", [
+      "-g",
+      "pixelWidth",
+      "-g",
+      "pixelHeight",
+      file,
+    ]);
+    const [width, height] = [/pixelWidth: (\d+)/, /pixelHeight: (\d+)/].map(
+      (pattern) => parseInt(stdout.match(pattern)?.[1] ?? "0", 10),
+    );
+    if (Math.max(width, height) <= MAX_IMAGE_DIMENSION) return image;
+
+    await execFileAsync("sips", ["-Z", String(MAX_IMAGE_DIMENSION), file]);
+    return await fs.readFile(file);
+  } catch {
+    return image;
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+async function downloadImage(url: string): Promise<PromptImage> {
+  const { linearApiKey } = getConfig();
+  const response = await fetch(url, {
+    headers: { Authorization: linearApiKey },
+  });
+  if (!response.ok) {
+    throw new Error(`download failed (${response.status})`);
+  }
+
+  const mediaType = response.headers.get("content-type")?.split(";")[0];
+  if (!mediaType || !SUPPORTED_TYPES.has(mediaType)) {
+    throw new Error(`unsupported type ${mediaType ?? "unknown"}`);
+  }
+  const image = await downscale(
+    Buffer.from(await response.arrayBuffer()),
+    mediaType as PromptImage["mediaType"],
+  );
+
+  const data = image.toString("base64");
+  if (data.length > MAX_IMAGE_BASE64_BYTES) {
+    throw new Error("too large even after downscaling");
+  }
+  return { mediaType: mediaType as PromptImage["mediaType"], data };
+}
+
+/**
+ * Download the issue's screenshots with the Linear API key, leaving out the
+ * excluded URLs. Images that can't be attached are reported, not fatal.
+ */
+export async function loadIssueImages(
+  issue: LinearIssue,
+  excludedUrls: string[] = [],
+): Promise<{
+  attached: { image: IssueImage; content: PromptImage }[];
+  skipped: { image: IssueImage; reason: string }[];
+}> {
+  const included = findIssueImages(issue).filter(
+    (image) => !excludedUrls.includes(image.url),
+  );
+  const attached: { image: IssueImage; content: PromptImage }[] = [];
+  const skipped: { image: IssueImage; reason: string }[] = [];
+
+  for (const image of included) {
+    if (attached.length >= MAX_ISSUE_IMAGES) {
+      skipped.push({ image, reason: `limit of ${MAX_ISSUE_IMAGES} reached` });
+      continue;
+    }
+    try {
+      attached.push({ image, content: await downloadImage(image.url) });
+    } catch (error) {
+      skipped.push({
+        image,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return { attached, skipped };
+}
@@ -0,0 +1,104 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import fs from "fs/promises";
+import path from "path";
+import { NODE_BIN_PATH } from "../config";
+import type { RepoConfig, SetupStep } from "../types/preferences";
+
+const execFileAsync = promisify(execFile);
+
+/** Per-command limit so a hung install or codegen can't stall the pipeline. */
+const COMMAND_TIMEOUT_MS = 15 * 60 * 1000;
+
+/** How much of a command's output makes it into the progress log. */
+const OUTPUT_TAIL_LINES = 20;
+
+function describeStep(step: SetupStep): string {
+  if ("copy" in step) return `copy ${step.copy.join(", ")}`;
+  if ("run" in step) return step.name ?? step.run;
+  return `env ${Object.keys(step.env).join(", ")}`;
+}
+
+function tailLines(text: string, maxLines: number): string[] {
+  const lines = text.trim().split("\n").filter(Boolean);
+  return lines.length > maxLines
+    ? [
+        `...(${lines.length - maxLines} lines truncated)`,
+        ...lines.slice(-maxLines),
+      ]
+    : lines;
+}
+
+/**
+ * Run the repo's setup steps in a new worktree, logging each step and the
+ * tail of its output. The first failing step throws, naming the step.
+ */
+export async function runSetupSteps(
+  repo: RepoConfig,
+  worktreePath: string,
+  log: (message: string) => Promise<void>,
+  signal?: AbortSignal,
+): Promise<void> {
+  const env: Record<string, string | undefined> = {
+    ...process.env,
+    PATH: `${NODE_BIN_PATH}:${process.env.PATH ?? "/usr/local/bin:/usr/bin:/bin"}`,
+  };
+
+  for (const [index, step] of repo.setupSteps.entries()) {
+    if (signal?.aborted) throw new Error("Setup cancelled");
+    const label = `Setup step ${index + 1} (${describeStep(step)})`;
+    await log(`[setup] ${describeStep(step)}`);
+
+    if ("env" in step) {
+      Object.assign(env, step.env);
+      continue;
+    }
+
+    if ("copy" in step) {
+      for (const file of step.copy) {
+        try {
+          await fs.cp(
+            path.join(repo.localPath, file),
+            path.join(worktreePath, file),
+            { recursive: true },
+          );
+        } catch (error) {
+          const msg = error instanceof Error ? error.message : String(error);
+          throw new Error(`${label} failed: could not copy ${file} — ${msg}`);
+        }
+      }
+      continue;
+    }
+
+    try {
+      const { stdout, stderr } = await execFileAsync(
+        "/bin/sh",
+        ["-c", step.run],
+        {
+          cwd: worktreePath,
+          maxBuffer: 50 * 1024 * 1024,
+          timeout: COMMAND_TIMEOUT_MS,
+          signal,
+          env,
+        },
+      );
+      for (const line of tailLines(
+        [stdout, stderr].filter(Boolean).join("\n"),
+        OUTPUT_TAIL_LINES,
+      )) {
+        await log(`[setup]   ${line}`);
+      }
+    } catch (error) {
+      const { stdout, stderr, message } = error as {
+        stdout?: string;
+        stderr?: string;
+        message: string;
+      };
+      const output = [stdout, stderr].filter(Boolean).join("\n");
+      for (const line of tailLines(output || message, OUTPUT_TAIL_LINES)) {
+        await log(`[setup]   ${line}`);
+      }
+      throw new Error(`${label} failed: \`${step.run}\` exited with an error`);
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { NODE_BIN_PATH } from "../config";
+import type { VerifyCommand } from "../types/preferences";
+import type {
+  VerificationCheckResult,
+  VerificationResult,
+} from "../types/storage";
+
+const execFileAsync = promisify(execFile);
+
+/** Per-command limit so a hung test runner can't stall the pipeline forever. */
+const COMMAND_TIMEOUT_MS = 15 * 60 * 1000;
+
+/** Enough output for Claude to see the failures without flooding the prompt. */
+const OUTPUT_TAIL_CHARS = 6000;
+
+function tail(text: string, maxChars: number): string {
+  return text.length > maxChars
+    ? `...(truncated)\n${text.slice(-maxChars)}`
+    : text;
+}
+
+/**
+ * Run each verification command in the worktree through the shell.
+ * All commands run even if an earlier one fails, so every failure can be
+ * reported back in one go.
+ */
+export async function runVerificationCommands(
+  worktreePath: string,
+  commands: VerifyCommand[],
+  signal?: AbortSignal,
+): Promise<VerificationCheckResult[]> {
+  const results: VerificationCheckResult[] = [];
+
+  for (const { name, command } of commands) {
+    if (signal?.aborted) break;
+    const startedAt = Date.now();
+    try {
+      await execFileAsync("/bin/sh", ["-c", command], {
+        cwd: worktreePath,
+        maxBuffer: 50 * 1024 * 1024,
+        timeout: COMMAND_TIMEOUT_MS,
+        signal,
+        env: {
+          ...process.env,
+          PATH: `${NODE_BIN_PATH}:${process.env.PATH ?? "/usr/local/bin:/usr/bin:/bin"}`,
+          CI: "1",
+        },
+      });
+      results.push({
+        name,
+        command,
+        passed: true,
+        durationMs: Date.now() - startedAt,
+      });
+    } catch (error) {
+      const { stdout, stderr, message } = error as {
+        stdout?: string;
+        stderr?: string;
+        message: string;
+      };
+      const output = [stdout, stderr].filter(Boolean).join("\n").trim();
+      results.push({
+        name,
+        command,
+        passed: false,
+        durationMs: Date.now() - startedAt,
+        output: tail(output || message, OUTPUT_TAIL_CHARS),
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Render a verification result as a markdown section for the PR body.
+ */
+export function formatVerificationMarkdown(result: VerificationResult): string {
+  const last = result.attempts[result.attempts.length - 1];
+  const fixups = result.attempts.length - 1;
+  const lines: string[] = ["## Verification", ""];
+
+  lines.push(
+    result.passed
+      ? `All checks passed${fixups > 0 ? ` after ${fixups} fix-up round${fixups === 1 ? "" : "s"}` : ""}.`
+      : `⚠️ Checks still failing after ${fixups} fix-up round${fixups === 1 ? "" : "s"}.`,
+  );
+  lines.push("");
+
+  for (const check of last?.checks ?? []) {
+    const seconds = (check.durationMs / 1000).toFixed(0);
+    lines.push(
+      `- ${check.passed ? "✅" : "❌"} **${check.name}** — \`${check.command}\` (${seconds}s)`,
+    );
+  }
+
+  return lines.join("\n");
+}
@@ -4,7 +4,17 @@ import fs from "fs/promises";
 import path from "path";
 import { getConfig } from "../utils/preferences";
 import { NODE_BIN_PATH } from "../config";
-import type { RepoConfig } from "../types/preferences";
+import type { PromptTemplateKind, RepoConfig } from "../types/preferences";
+import {
+  declaresWorkspaces,
+  getPnpmStorePath,
+  hashLockFile,
+  markInstalled,
+  readInstalledHash,
+  restoreSnapshot,
+  saveSnapshot,
+  type InstallResult,
+} from "./dependency-cache";
 
 const execFileAsync = promisify(execFile);
 
@@ -189,48 +199,115 @@ export async function removeWorktree(
   }
 }
 
+/**
+ * Remove a throwaway worktree together with its local branch, so the next
+ * checkout under the same name starts fresh.
+ */
+export async function discardWorktree(
+  repo: RepoConfig,
+  worktreePath: string,
+  branchName: string,
+): Promise<void> {
+  await removeWorktree(repo, worktreePath);
+  try {
+    await git(["branch", "-D", branchName], repo.localPath);
+  } catch {
+    // Branch was never created
+  }
+}
+
 /**
  * Detect the package manager used in a project and install dependencies.
+ * node_modules is restored from the shared cache when another worktree
+ * already installed the same lockfile (except in workspaces, see
+ * declaresWorkspaces), and the install is skipped entirely when this
+ * worktree's node_modules already matches it.
  */
-export async function installDependencies(worktreePath: string): Promise<void> {
+export async function installDependencies(
+  worktreePath: string,
+): Promise<InstallResult> {
+  const startedAt = Date.now();
   const lockFiles: Record<string, { cmd: string; args: string[] }> = {
     "bun.lockb": { cmd: "bun", args: ["install"] },
     "bun.lock": { cmd: "bun", args: ["install"] },
-    "pnpm-lock.yaml": { cmd: "pnpm", args: ["install", "--frozen-lockfile"] },
+    "pnpm-lock.yaml": {
+      cmd: "pnpm",
+      args: ["install", "--frozen-lockfile", "--store-dir", getPnpmStorePath()],
+    },
     "yarn.lock": { cmd: "yarn", args: ["install", "--frozen-lockfile"] },
     "package-lock.json": { cmd: "npm", args: ["ci"] },
   };
 
+  const cacheable = !(await declaresWorkspaces(worktreePath));
+  let attempted = false;
   for (const [lockFile, { cmd, args }] of Object.entries(lockFiles)) {
+    let hash: string;
+    try {
+      hash = await hashLockFile(worktreePath, lockFile);
+    } catch {
+      continue; // No such lock file
+    }
+    attempted = true;
+
+    if ((await readInstalledHash(worktreePath)) === hash) {
+      return { outcome: "unchanged", durationMs: Date.now() - startedAt };
+    }
+    const restored = cacheable
+      ? await restoreSnapshot(worktreePath, hash)
+      : null;
+    if (restored) {
+      await markInstalled(worktreePath, hash);
+      return {
+        outcome: "restored",
+        durationMs: Date.now() - startedAt,
+        ...restored,
+      };
+    }
+
     try {
-      await fs.access(path.join(worktreePath, lockFile));
       await execFileAsync(cmd, args, {
         cwd: worktreePath,
         maxBuffer: 50 * 1024 * 1024,
       });
-      return;
     } catch {
-      // Lock file doesn't exist or install failed, try next
+      continue; // Install failed, try the next lock file
     }
+    const installMs = Date.now() - startedAt;
+    if (cacheable) await saveSnapshot(worktreePath, hash, installMs);
+    await markInstalled(worktreePath, hash);
+    return { outcome: "installed", durationMs: installMs };
   }
 
   // Fallback: if package.json exists, try npm install
   try {
     await fs.access(path.join(worktreePath, "package.json"));
+  } catch {
+    // No package.json — nothing to install
+    return {
+      outcome: attempted ? "failed" : "none",
+      durationMs: Date.now() - startedAt,
+    };
+  }
+  try {
     await execFileAsync("npm", ["install"], {
       cwd: worktreePath,
       maxBuffer: 50 * 1024 * 1024,
     });
+    return { outcome: "installed", durationMs: Date.now() - startedAt };
   } catch {
-    // No package.json — nothing to install
+    return { outcome: "failed", durationMs: Date.now() - startedAt };
   }
 }
 
 /**
- * Stage and commit any uncommitted changes in the worktree.
+ * Stage and commit any uncommitted changes in the worktree, with the message
+ * `writeMessage` produces from the staged diff.
  * Returns true if a commit was created, false if the tree was clean.
  */
-export async function commitAllChanges(worktreePath: string): Promise<boolean> {
+export async function commitAllChanges(
+  worktreePath: string,
+  writeMessage: (stagedDiff: string) => Promise<string>,
+): Promise<boolean> {
   const nodePath = `${NODE_BIN_PATH}:${process.env.PATH ?? "/usr/local/bin:/usr/bin:/bin"}`;
 
   // Run prettier on changed files before committing
@@ -265,22 +342,115 @@ export async function commitAllChanges(worktreePath: string): Promise<boolean> {
     // there are staged changes — commit them
   }
 
-  const config = getConfig();
-  await execFileAsync("git", ["commit", "-m", "Apply remaining changes"], {
+  const message = await writeMessage(
+    await git(["diff", "--cached"], worktreePath),
+  );
+
+  await execFileAsync("git", ["commit", "-m", message], {
     cwd: worktreePath,
     maxBuffer: 10 * 1024 * 1024,
-    env: {
-      ...process.env,
-      PATH: nodePath,
-      GIT_AUTHOR_NAME: config.gitAuthorName,
-      GIT_AUTHOR_EMAIL: config.gitAuthorEmail,
-      GIT_COMMITTER_NAME: config.gitAuthorName,
-      GIT_COMMITTER_EMAIL: config.gitAuthorEmail,
-    },
+    env: { ...process.env, PATH: nodePath, ...gitIdentityEnv() },
   });
   return true;
 }
 
+/** Commit as the configured author rather than the machine's git identity. */
+function gitIdentityEnv(): Record<string, string> {
+  const config = getConfig();
+  return {
+    GIT_AUTHOR_NAME: config.gitAuthorName,
+    GIT_AUTHOR_EMAIL: config.gitAuthorEmail,
+    GIT_COMMITTER_NAME: config.gitAuthorName,
+    GIT_COMMITTER_EMAIL: config.gitAuthorEmail,
+  };
+}
+
+/**
+ * Summarise what the branch changed relative to its base: commit subjects
+ * followed by a diff stat.
+ */
+export async function getBranchChangeSummary(
+  worktreePath: string,
+  baseBranch: string,
+): Promise<string> {
+  const [log, stat] = await Promise.all([
+    git(["log", "--format=- %s", `origin/${baseBranch}..HEAD`], worktreePath),
+    git(["diff", "--stat", `origin/${baseBranch}...HEAD`], worktreePath),
+  ]);
+  return [log, stat].filter(Boolean).join("\n\n");
+}
+
+/**
+ * Full diff of the branch against its base.
+ */
+export async function getBranchDiff(
+  worktreePath: string,
+  baseBranch: string,
+): Promise<string> {
+  return git(["diff", `origin/${baseBranch}...HEAD`], worktreePath);
+}
+
+/** Locations GitHub looks for a pull request template, in priority order. */
+const PR_TEMPLATE_PATHS = [
+  ".github/pull_request_template.md",
+  ".github/PULL_REQUEST_TEMPLATE.md",
+  "pull_request_template.md",
+  "PULL_REQUEST_TEMPLATE.md",
+  "docs/pull_request_template.md",
+  "docs/PULL_REQUEST_TEMPLATE.md",
+];
+
+/**
+ * Read the repo's pull request template from the worktree, if it has one.
+ */
+export async function readPullRequestTemplate(
+  worktreePath: string,
+): Promise<string | null> {
+  for (const candidate of PR_TEMPLATE_PATHS) {
+    try {
+      return await fs.readFile(path.join(worktreePath, candidate), "utf-8");
+    } catch {
+      // Not at this location — try the next one
+    }
+  }
+  return null;
+}
+
+/** Where a repo keeps prompt templates not configured in `promptTemplates`. */
+const PROMPT_TEMPLATE_DIR = ".autozerts/prompts";
+
+/**
+ * Read the repo's own template for a prompt from `rootPath` (the worktree, or
+ * the checkout before one exists). A configured path that can't be read is
+ * an error rather than a silent fall back to the built-in prompt.
+ */
+export async function readPromptTemplate(
+  repo: RepoConfig,
+  kind: PromptTemplateKind,
+  rootPath: string,
+): Promise<string | null> {
+  const configured = repo.promptTemplates?.[kind];
+  if (configured) {
+    const templatePath = path.resolve(rootPath, configured);
+    try {
+      return await fs.readFile(templatePath, "utf-8");
+    } catch {
+      throw new Error(
+        `Prompt template for "${kind}" not found at ${templatePath}`,
+      );
+    }
+  }
+
+  try {
+    return await fs.readFile(
+      path.join(rootPath, PROMPT_TEMPLATE_DIR, `${kind}.md`),
+      "utf-8",
+    );
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Push the branch to the canonical remote (GITHUB_OWNER) with PAT auth.
  */
@@ -305,3 +475,155 @@ export async function pullBranch(
   const url = getRepoUrl(repoName);
   await gitAuth(["pull", "--rebase", url, branchName], worktreePath);
 }
+
+/** A file left conflicted by a merge, with the commits behind each side. */
+export interface ConflictedFile {
+  path: string;
+  /** Commits on the PR branch that touched the file. */
+  ours: string[];
+  /** Commits on the base branch that touched the file. */
+  theirs: string[];
+}
+
+/** Commits listed per side of a conflicted file. */
+const MAX_CONFLICT_COMMITS = 10;
+
+async function getUnmergedPaths(worktreePath: string): Promise<string[]> {
+  const output = await git(
+    ["diff", "--name-only", "--diff-filter=U"],
+    worktreePath,
+  );
+  return output.split("\n").filter(Boolean);
+}
+
+async function isMergeInProgress(worktreePath: string): Promise<boolean> {
+  try {
+    await git(["rev-parse", "-q", "--verify", "MERGE_HEAD"], worktreePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Merge the latest base branch into the worktree's branch. Conflicts are left
+ * in the files (with diff3 markers, so the common ancestor is visible too)
+ * and returned; `headBefore` is where to reset to if they can't be resolved.
+ */
+export async function mergeBaseBranch(
+  worktreePath: string,
+  baseBranch: string,
+  repoName: string,
+): Promise<{ headBefore: string; conflicts: ConflictedFile[] }> {
+  await fetchOrigin(repoName, worktreePath);
+  const headBefore = await git(["rev-parse", "HEAD"], worktreePath);
+
+  try {
+    await execFileAsync(
+      "git",
+      [
+        "-c",
+        "merge.conflictStyle=diff3",
+        "merge",
+        "--no-edit",
+        `origin/${baseBranch}`,
+      ],
+      {
+        cwd: worktreePath,
+        maxBuffer: 10 * 1024 * 1024,
+        env: { ...process.env, ...gitIdentityEnv() },
+      },
+    );
+    return { headBefore, conflicts: [] };
+  } catch (error) {
+    const paths = await getUnmergedPaths(worktreePath);
+    if (paths.length === 0) throw error;
+
+    const log = (range: string, file: string) =>
+      git(
+        [
+          "log",
+          `--max-count=${MAX_CONFLICT_COMMITS}`,
+          "--format=%h %s",
+          range,
+          "--",
+          file,
+        ],
+        worktreePath,
+      ).then((out) => out.split("\n").filter(Boolean));
+    const conflicts = await Promise.all(
+      paths.map(async (file) => ({
+        path: file,
+        ours: await log("MERGE_HEAD..HEAD", file),
+        theirs: await log("HEAD..MERGE_HEAD", file),
+      })),
+    );
+    return { headBefore, conflicts };
+  }
+}
+
+/**
+ * Files among `paths` that are still unmerged or still contain conflict
+ * markers.
+ */
+export async function findUnresolvedConflicts(
+  worktreePath: string,
+  paths: string[],
+): Promise<string[]> {
+  const unresolved = new Set(await getUnmergedPaths(worktreePath));
+  try {
+    const output = await git(
+      ["grep", "-l", "-E", "^(<{7}|>{7}|\\|{7})( |$)", "--", ...paths],
+      worktreePath,
+    );
+    for (const file of output.split("\n").filter(Boolean)) {
+      unresolved.add(file);
+    }
+  } catch {
+    // git grep exits 1 when nothing matches
+  }
+  return [...unresolved];
+}
+
+/**
+ * Commit an in-progress merge with its default message. Returns false when
+ * there is no merge to conclude (e.g. it was already committed).
+ */
+export async function concludeMerge(worktreePath: string): Promise<boolean> {
+  if (!(await isMergeInProgress(worktreePath))) return false;
+  await git(["add", "-A"], worktreePath);
+  await execFileAsync("git", ["commit", "--no-edit"], {
+    cwd: worktreePath,
+    maxBuffer: 10 * 1024 * 1024,
+    env: { ...process.env, ...gitIdentityEnv() },
+  });
+  return true;
+}
+
+/**
+ * Throw away an unfinished merge, including anything committed on top of it,
+ * by resetting the branch to where it was before the merge started.
+ */
+export async function abortMerge(
+  worktreePath: string,
+  headBefore: string,
+): Promise<void> {
+  await git(["reset", "--hard", headBefore], worktreePath);
+}
+
+/**
+ * Drop a merge left half-done by an interrupted run, so its conflict markers
+ * are never committed. Returns whether there was one.
+ */
+export async function discardUnfinishedMerge(
+  worktreePath: string,
+): Promise<boolean> {
+  if (!(await isMergeInProgress(worktreePath))) return false;
+  await git(["merge", "--abort"], worktreePath);
+  return true;
+}
+
+/** Abbreviated hash of the worktree's HEAD commit. */
+export async function getHeadCommit(worktreePath: string): Promise<string> {
+  return git(["rev-parse", "--short", "HEAD"], worktreePath);
+}
@@ -0,0 +1,208 @@
+import {
+  List,
+  ActionPanel,
+  Action,
+  Icon,
+  showToast,
+  Toast,
+  showInFinder,
+} from "@raycast/api";
+import { usePromise } from "@raycast/utils";
+import {
+  collectTaskRecords,
+  groupRecords,
+  byRepo,
+  byModel,
+  byWeek,
+  byTeam,
+  recordsToCsv,
+  recordsToJson,
+  type GroupStats,
+  type TaskRecord,
+} from "./utils/analytics";
+
+function percent(part: number, whole: number): string {
+  return whole ? `${Math.round((part / whole) * 100)}%` : "–";
+}
+
+function formatHours(hours: number | undefined): string {
+  if (hours === undefined) return "–";
+  return hours < 48 ? `${hours.toFixed(1)}h` : `${(hours / 24).toFixed(1)}d`;
+}
+
+async function exportRecords(records: TaskRecord[], format: "csv" | "json") {
+  const fs = await import("fs/promises");
+  const os = await import("os");
+  const path = await import("path");
+  const date = new Date().toISOString().slice(0, 10);
+  const filePath = path.join(
+    os.homedir(),
+    "Downloads",
+    `autozerts-analytics-${date}.${format}`,
+  );
+  try {
+    await fs.writeFile(
+      filePath,
+      format === "csv" ? recordsToCsv(records) : recordsToJson(records),
+      "utf-8",
+    );
+    await showToast({
+      style: Toast.Style.Success,
+      title: `Exported ${records.length} task(s)`,
+      message: filePath,
+      primaryAction: {
+        title: "Show in Finder",
+        onAction: () => showInFinder(filePath),
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Export failed",
+      message,
+    });
+  }
+}
+
+export default function TaskAnalytics() {
+  const {
+    data: records,
+    isLoading,
+    revalidate,
+  } = usePromise(collectTaskRecords);
+
+  const sections: { title: string; groups: GroupStats[] }[] = records
+    ? [
+        {
+          title: "Total",
+          groups: groupRecords(records, (r) => [
+            { key: "All tasks", costUsd: r.costUsd },
+          ]),
+        },
+        {
+          title: "By Repository",
+          groups: groupRecords(records, byRepo).sort(
+            (a, b) => b.costUsd - a.costUsd,
+          ),
+        },
+        {
+          title: "By Model",
+          groups: groupRecords(records, byModel).sort(
+            (a, b) => b.costUsd - a.costUsd,
+          ),
+        },
+        {
+          title: "By Week",
+          groups: groupRecords(records, byWeek).sort((a, b) =>
+            b.key.localeCompare(a.key),
+          ),
+        },
+        {
+          title: "By Linear Team",
+          groups: groupRecords(records, byTeam).sort(
+            (a, b) => b.costUsd - a.costUsd,
+          ),
+        },
+      ]
+    : [];
+
+  const actions = (
+    <ActionPanel>
+      <Action
+        title="Export as Csv"
+        icon={Icon.Download}
+        onAction={() => exportRecords(records ?? [], "csv")}
+      />
+      <Action
+        title="Export as JSON"
+        icon={Icon.Download}
+        onAction={() => exportRecords(records ?? [], "json")}
+      />
+      <Action.CopyToClipboard
+        title="Copy as JSON"
+        content={recordsToJson(records ?? [])}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+      />
+      <Action
+        title="Refresh"
+        icon={Icon.ArrowClockwise}
+        shortcut={{ modifiers: ["cmd"], key: "r" }}
+        onAction={revalidate}
+      />
+    </ActionPanel>
+  );
+
+  return (
+    <List isLoading={isLoading} isShowingDetail>
+      {records?.length === 0 && (
+        <List.EmptyView
+          title="No task history yet"
+          description="Launch a task from Implement Task to start collecting figures"
+        />
+      )}
+      {sections.map((section) => (
+        <List.Section key={section.title} title={section.title}>
+          {section.groups.map((group) => (
+            <List.Item
+              key={`${section.title}:${group.key}`}
+              title={group.key}
+              accessories={[{ text: `$${group.costUsd.toFixed(2)}` }]}
+              detail={<GroupDetail group={group} />}
+              actions={actions}
+            />
+          ))}
+        </List.Section>
+      ))}
+    </List>
+  );
+}
+
+function GroupDetail({ group }: { group: GroupStats }) {
+  return (
+    <List.Item.Detail
+      metadata={
+        <List.Item.Detail.Metadata>
+          <List.Item.Detail.Metadata.Label
+            title="Spend"
+            text={`$${group.costUsd.toFixed(2)}`}
+          />
+          <List.Item.Detail.Metadata.Label
+            title="Tasks"
+            text={String(group.tasks)}
+          />
+          <List.Item.Detail.Metadata.Label
+            title="Average per Task"
+            text={`$${(group.costUsd / group.tasks).toFixed(2)}`}
+          />
+          <List.Item.Detail.Metadata.Separator />
+          <List.Item.Detail.Metadata.Label
+            title="Succeeded"
+            text={`${group.succeeded} (${percent(group.succeeded, group.tasks)})`}
+          />
+          <List.Item.Detail.Metadata.Label
+            title="Failed"
+            text={`${group.failed} (${percent(group.failed, group.tasks)})`}
+          />
+          <List.Item.Detail.Metadata.Label
+            title="Cancelled"
+            text={`${group.cancelled} (${percent(group.cancelled, group.tasks)})`}
+          />
+          <List.Item.Detail.Metadata.Separator />
+          <List.Item.Detail.Metadata.Label
+            title="Average Turns"
+            text={group.avgTurns?.toFixed(1) ?? "–"}
+          />
+          <List.Item.Detail.Metadata.Label
+            title="Launch to PR"
+            text={formatHours(group.avgHoursToPr)}
+          />
+          <List.Item.Detail.Metadata.Label
+            title="Launch to Merge"
+            text={formatHours(group.avgHoursToMerge)}
+          />
+        </List.Item.Detail.Metadata>
+      }
+    />
+  );
+}
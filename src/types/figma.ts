@@ -0,0 +1,43 @@
+/** Figma REST API types */
+
+export interface FigmaNode {
+  id: string;
+  name: string;
+  type: string;
+  children?: FigmaNode[];
+}
+
+export interface FigmaFileResponse {
+  name: string;
+  document: FigmaNode;
+}
+
+export interface FigmaNodesResponse {
+  name: string;
+  nodes: Record<string, { document: FigmaNode } | null>;
+}
+
+export interface FigmaImagesResponse {
+  err: string | null;
+  images: Record<string, string | null>;
+}
+
+/** A Figma link found in an issue. */
+export interface FigmaLink {
+  url: string;
+  fileKey: string;
+  /** API form ("12:34") of the link's node-id, if it points at a node. */
+  nodeId?: string;
+}
+
+/** A linked design, rendered for Claude. */
+export interface FigmaDesign {
+  url: string;
+  name: string;
+  /** Rendered PNG on disk, removed when the task finishes. */
+  imagePath?: string;
+  /** Empty when the render is too large to attach or failed. */
+  imageBase64: string;
+  /** Why the design couldn't be fetched, if it couldn't. */
+  error?: string;
+}
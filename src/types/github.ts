@@ -67,6 +67,34 @@ export interface GitHubComment {
   html_url: string;
   path?: string;
   line?: number;
+  /** For inline review comments, the thread's first comment when this is a reply. */
+  in_reply_to_id?: number;
+}
+
+/**
+ * An inline review thread. Only the GraphQL API reports whether a thread is
+ * resolved, so these come from there rather than the REST comment list.
+ */
+export interface GitHubReviewThread {
+  /** GraphQL node id, used to resolve the thread. */
+  id: string;
+  isResolved: boolean;
+  /** The lines the thread was left on have changed since. */
+  isOutdated: boolean;
+  path: string;
+  line: number | null;
+  /** Oldest first; the first comment started the thread. */
+  comments: GitHubReviewThreadComment[];
+}
+
+export interface GitHubReviewThreadComment {
+  /** REST id, which thread replies are posted to. */
+  databaseId: number;
+  /** Login of the author; "ghost" for deleted accounts. */
+  author: string;
+  body: string;
+  createdAt: string;
+  url: string;
 }
 
 export interface GitHubCheckRun {
@@ -83,6 +111,14 @@ export interface GitHubCheckRun {
     | "action_required"
     | null;
   html_url: string;
+  details_url?: string | null;
+  /** The app that reported the run; GitHub Actions jobs are "github-actions". */
+  app?: { slug: string } | null;
+  output?: {
+    title: string | null;
+    summary: string | null;
+    annotations_count: number;
+  };
 }
 
 export interface GitHubCheckSuiteResponse {
@@ -90,6 +126,41 @@ export interface GitHubCheckSuiteResponse {
   check_runs: GitHubCheckRun[];
 }
 
+export interface GitHubCheckAnnotation {
+  path: string;
+  start_line: number;
+  end_line: number;
+  annotation_level: "notice" | "warning" | "failure";
+  title: string | null;
+  message: string;
+}
+
+/** A failed check run on a PR's head commit, with what it reported. */
+export interface CiFailure {
+  name: string;
+  url: string;
+  summary?: string;
+  annotations: GitHubCheckAnnotation[];
+  /** End of the job log, for GitHub Actions jobs whose log could be fetched. */
+  logTail?: string;
+}
+
+export type GitHubReviewEvent = "COMMENT" | "APPROVE" | "REQUEST_CHANGES";
+
+/** An inline comment on the new side of a pull request's diff. */
+export interface GitHubDraftReviewComment {
+  path: string;
+  line: number;
+  body: string;
+}
+
+/** A review of someone else's PR, drafted by Claude and edited before submitting. */
+export interface PullRequestReviewDraft {
+  summary: string;
+  verdict: GitHubReviewEvent;
+  comments: GitHubDraftReviewComment[];
+}
+
 export interface GitHubSearchItem {
   id: number;
   number: number;
@@ -126,4 +197,5 @@ export interface CreatePullRequestParams {
   head: string;
   base: string;
   labels?: string[];
+  draft?: boolean;
 }
@@ -1,10 +1,107 @@
 /** Preferences and configuration types */
 
+import type { ClaudePhase } from "./storage";
+
+export interface VerifyCommand {
+  /** Short label shown in the progress view and PR body, e.g. "lint". */
+  name: string;
+  /** Shell command run in the worktree root. Non-zero exit means failure. */
+  command: string;
+}
+
+/**
+ * One step of preparing a new worktree. Steps run in order: copy files or
+ * directories from the repo's checkout, run a shell command in the worktree,
+ * or set env vars for the commands after it.
+ */
+export type SetupStep =
+  | { copy: string[] }
+  | { run: string; name?: string }
+  | { env: Record<string, string> };
+
+/** What Claude may do in a repo, on top of the built-in rules. */
+export interface ToolPolicyConfig {
+  /** When set, only these tools may be used. */
+  allowedTools?: string[];
+  deniedTools?: string[];
+  /** Bash commands containing any of these (as whole words) are denied. */
+  blockedCommands?: string[];
+  /**
+   * Paths outside the worktree that must never be written. Bash commands are
+   * checked on a best-effort basis: reads are allowed, and paths built at
+   * runtime can't be seen.
+   */
+  protectedPaths?: string[];
+}
+
+/** Prompts a repo can replace with its own template. */
+export type PromptTemplateKind =
+  | "implement"
+  | "plan"
+  | "plan-update"
+  | "feedback"
+  | "fix-ci"
+  | "resolve-conflicts";
+
+export const PROMPT_TEMPLATE_KINDS: PromptTemplateKind[] = [
+  "implement",
+  "plan",
+  "plan-update",
+  "feedback",
+  "fix-ci",
+  "resolve-conflicts",
+];
+
 export interface RepoConfig {
   name: string;
   localPath: string;
   defaultBranch: string;
   issuePrefixes: string[];
+  /** Run right after the worktree is created, before dependencies are installed. */
+  setupSteps: SetupStep[];
+  /**
+   * Install dependencies (through the shared cache) after the setup steps.
+   * Off for repos whose setup steps install them their own way.
+   */
+  installDependencies: boolean;
+  /** Checks run after Claude finishes, before anything is pushed. */
+  verifyCommands: VerifyCommand[];
+  /** How many times failing checks are fed back to Claude before pushing anyway. */
+  maxFixAttempts: number;
+  /** Max tasks running against this repo at once; unset means only the global limit applies. */
+  maxConcurrentTasks?: number;
+  /**
+   * Have a second Claude session review the diff before the PR is opened.
+   * Blocking findings are fixed first; the rest are posted on the PR.
+   */
+  selfReview?: boolean;
+  /** Scope every generated commit subject must carry, e.g. "web" → `feat(web): …`. */
+  commitScope?: string;
+  /**
+   * Prefix for generated commit subjects, with `{issueKey}` replaced, e.g.
+   * "[{issueKey}] ". When unset the issue key goes in a `Refs:` trailer.
+   */
+  commitPrefix?: string;
+  permissions?: ToolPolicyConfig;
+  /**
+   * Template file per prompt, relative to the repo root. Unset kinds use
+   * `.autozerts/prompts/<kind>.md` if the repo has it, else the built-in prompt.
+   */
+  promptTemplates?: Partial<Record<PromptTemplateKind, string>>;
+}
+
+/**
+ * One rule of the model routing policy. Every field given must match for the
+ * rule to apply; the first matching rule picks the model.
+ */
+export interface ModelRouteRule {
+  model: string;
+  modes?: ClaudePhase[];
+  repos?: string[];
+  /** Matches if the issue has any of these labels (case-insensitive). */
+  labels?: string[];
+  /** Linear priorities (1 = urgent … 4 = low, 0 = none). */
+  priorities?: number[];
 }
 
 export interface EnvConfig {
@@ -16,11 +113,23 @@ export interface EnvConfig {
   worktreeBasePath: string;
   planFilesPath: string;
   logFilesPath: string;
+  /** Shared node_modules snapshots keyed by lockfile hash, plus the pnpm store. */
+  dependencyCachePath: string;
   claudeMaxTurns: number;
   claudeMaxBudgetUsd: number;
+  /** Max background orchestrations running at once; the rest wait in the queue. */
+  maxConcurrentTasks: number;
   claudeModel: string;
+  /** Checked in order before falling back to `claudeModel`. */
+  modelRoutes: ModelRouteRule[];
+  /** Models from weakest to strongest; failed runs retry one step up. Empty disables retries. */
+  modelEscalation: string[];
   gitAuthorName: string;
   gitAuthorEmail: string;
+  /** Personal access token for fetching linked designs; unset skips them. */
+  figmaToken: string;
+  /** Overridable so a local stub server can stand in for the Figma API. */
+  figmaApiBaseUrl: string;
 }
 
 export interface RaycastPreferences {
@@ -0,0 +1,17 @@
+/** Content sent to Claude alongside prompt text */
+
+/** An image attached to Claude's first message, after the prompt text. */
+export interface PromptImage {
+  mediaType: "image/png" | "image/jpeg" | "image/gif" | "image/webp";
+  /** Base64-encoded image data. */
+  data: string;
+}
+
+/** A screenshot embedded in a Linear issue's description or comments. */
+export interface IssueImage {
+  url: string;
+  /** Where it was found, e.g. "Description" or "Comment by Ada". */
+  source: string;
+  /** The markdown alt text, often the original file name. */
+  alt: string;
+}
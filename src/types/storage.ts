@@ -4,6 +4,14 @@ import type { LinearIssue } from "./linear";
 
 // Orchestration params passed to the background no-view command via LocalStorage
 
+/** Set on orchestration params when continuing an earlier run instead of starting fresh. */
+export interface ResumeParams {
+  /** Why the earlier run stopped. */
+  reason: "budget_exceeded" | "stalled";
+  /** Claude session to continue, if the earlier run got that far. */
+  sessionId?: string;
+}
+
 export interface OrchestrationImplementParams {
   mode: "implement";
   issue: LinearIssue;
@@ -11,6 +19,11 @@ export interface OrchestrationImplementParams {
   branchName: string;
   baseBranch: string;
   userInstructions: string;
+  /** Further repos the issue is implemented in after `repoName`, each getting its own PR. */
+  linkedRepoNames?: string[];
+  /** Issue screenshots toggled off at launch; the rest are attached as images. */
+  excludedImageUrls?: string[];
+  resume?: ResumeParams;
 }
 
 export interface OrchestrationPlanParams {
@@ -21,6 +34,38 @@ export interface OrchestrationPlanParams {
   baseBranch: string;
   userInstructions: string;
   updateExistingPlan?: boolean;
+  /** Carried over to the implement run once the plan is done. */
+  linkedRepoNames?: string[];
+  excludedImageUrls?: string[];
+  resume?: ResumeParams;
+}
+
+/** A reviewer comment or inline thread picked in the feedback form. */
+export interface FeedbackComment {
+  /** Short handle Claude reports back with, e.g. "C2". */
+  ref: string;
+  kind: "review" | "thread" | "comment";
+  /** Review or comment id; for a thread, its first comment, which replies go to. */
+  id: number;
+  author: string;
+  /** Threads include every message, oldest first. */
+  body: string;
+  /** Review state, for review summaries. */
+  state?: string;
+  path?: string;
+  line?: number;
+  /** GraphQL id of an inline thread, resolved once the comment is addressed. */
+  threadId?: string;
+  /** The thread's lines have changed since it was left. */
+  outdated?: boolean;
+}
+
+/** What Claude reported doing about one picked comment. */
+export interface FeedbackOutcome {
+  comment: FeedbackComment;
+  /** "unreported" when Claude's summary didn't mention the comment. */
+  status: "addressed" | "skipped" | "unreported";
+  note?: string;
 }
 
 export interface OrchestrationFeedbackParams {
@@ -29,15 +74,43 @@ export interface OrchestrationFeedbackParams {
   repoName: string;
   feedbackText: string;
   postAsComment: boolean;
-  newCommentsContext?: string;
+  /** Reviewer comments and threads to address, each reported on separately. */
+  comments?: FeedbackComment[];
+  resume?: ResumeParams;
+}
+
+export interface OrchestrationFixCiParams {
+  mode: "fix_ci";
+  issueKey: string;
+  repoName: string;
+  resume?: ResumeParams;
+}
+
+export interface OrchestrationResolveConflictsParams {
+  mode: "resolve_conflicts";
+  issueKey: string;
+  repoName: string;
+  resume?: ResumeParams;
 }
 
 export type OrchestrationParams =
   | OrchestrationImplementParams
   | OrchestrationPlanParams
-  | OrchestrationFeedbackParams;
+  | OrchestrationFeedbackParams
+  | OrchestrationFixCiParams
+  | OrchestrationResolveConflictsParams;
+
+/** A task waiting for a free worker slot. The queue's array order is launch order. */
+export interface QueuedTask {
+  issueKey: string;
+  repoName: string;
+  /** Linear priority at enqueue time, used to place the entry. */
+  priority: number;
+  enqueuedAt: number;
+}
 
 export type TaskStatus =
+  | "queued"
   | "initializing"
   | "worktree_created"
   | "dependencies_installed"
@@ -45,12 +118,152 @@ export type TaskStatus =
   | "plan_complete"
   | "implementing"
   | "implementation_complete"
+  | "verifying"
+  | "fixing_verification"
+  | "self_reviewing"
   | "pushing"
   | "pr_created"
   | "feedback_implementing"
+  | "fixing_ci"
+  | "resolving_conflicts"
   | "complete"
   | "error"
-  | "cancelled";
+  | "cancelled"
+  | "budget_exceeded"
+  | "conflict";
+
+export interface VerificationCheckResult {
+  name: string;
+  command: string;
+  passed: boolean;
+  durationMs: number;
+  /** Tail of the combined stdout/stderr, kept only for failed checks. */
+  output?: string;
+}
+
+export interface VerificationAttempt {
+  /** 1 for the initial run, then one more for each fix-up round. */
+  attempt: number;
+  passed: boolean;
+  checks: VerificationCheckResult[];
+}
+
+/** One problem the pre-PR review found in the branch's diff. */
+export interface ReviewFinding {
+  category: "bug" | "missing_tests" | "unrelated_change" | "style";
+  /** Blocking findings go back to the implementing session before the PR opens. */
+  blocking: boolean;
+  path?: string;
+  line?: number;
+  description: string;
+}
+
+export interface SelfReviewResult {
+  findings: ReviewFinding[];
+  /** Blocking findings were sent back to the implementing session to fix. */
+  fixesRequested: boolean;
+}
+
+export interface VerificationResult {
+  passed: boolean;
+  attempts: VerificationAttempt[];
+}
+
+/** Statuses that mean a worker is (or should be) running the task. */
+export const ACTIVE_TASK_STATUSES: ReadonlySet<TaskStatus> = new Set([
+  "initializing",
+  "worktree_created",
+  "dependencies_installed",
+  "planning",
+  "implementing",
+  "implementation_complete",
+  "verifying",
+  "fixing_verification",
+  "self_reviewing",
+  "pushing",
+  "pr_created",
+  "feedback_implementing",
+  "fixing_ci",
+  "resolving_conflicts",
+]);
+
+/** Statuses recorded as checkpoints so a resumed run can skip finished steps. */
+export const CHECKPOINT_STATUSES: ReadonlySet<TaskStatus> = new Set([
+  "worktree_created",
+  "dependencies_installed",
+  "implementation_complete",
+  "pr_created",
+]);
+
+/** A further repo a cross-repo task is implemented in, on the same branch name. */
+export interface LinkedRepoState {
+  repoName: string;
+  worktreePath: string;
+  baseBranch: string;
+  claudeSessionId?: string;
+  verification?: VerificationResult;
+  prUrl?: string;
+  prNumber?: number;
+}
+
+/** Orchestration phases that run a Claude session. */
+export type ClaudePhase =
+  | "plan"
+  | "implement"
+  | "self_review"
+  | "review"
+  | "feedback"
+  | "fix_ci"
+  | "resolve_conflicts";
+
+/** One model a phase's main Claude session ran on, with how it went. */
+export interface ModelAttempt {
+  phase: ClaudePhase;
+  repoName: string;
+  model: string;
+  /** The routing rule that picked the model, or the escalation that did. */
+  reason: string;
+  outcome: "success" | "error" | "max_turns";
+  costUsd: number;
+  at: number;
+}
+
+/** Token usage of one API response, i.e. one agent turn. */
+export interface TurnTelemetry {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  /** Estimated from the token counts at the model's list price. */
+  costUsd: number;
+}
+
+export interface ToolCallTelemetry {
+  tool: string;
+  durationMs: number;
+  /** The tool reported an error, or the run ended before it returned. */
+  isError: boolean;
+}
+
+/**
+ * One Claude run within a task: a session, a verification fix-up or a short
+ * helper completion such as a commit message. Stored per task under its own
+ * key, next to the TaskState.
+ */
+export interface RunTelemetry {
+  phase: ClaudePhase;
+  /** What the run was for, e.g. "Implementation" or "Verification fix-up 1". */
+  label: string;
+  repoName: string;
+  model: string;
+  startedAt: number;
+  durationMs: number;
+  outcome: "success" | "error" | "budget_exceeded";
+  /** Reported by the SDK; estimated from the turns when the run was cut short. */
+  costUsd: number;
+  turns: TurnTelemetry[];
+  toolCalls: ToolCallTelemetry[];
+}
 
 export interface TaskState {
   taskId: string;
@@ -62,17 +275,46 @@ export interface TaskState {
   worktreePath: string;
   baseBranch: string;
   status: TaskStatus;
+  /** Linear priority (1 = urgent … 4 = low, 0 = none); orders the launch queue. */
+  priority?: number;
+  /** Shared by tasks launched together from Batch Launch. */
+  batchId?: string;
+  /** Linear label names, for model routing in later phases. */
+  labels?: string[];
+  /** Repos implemented after the primary one (`repoName`), in order. */
+  linkedRepos?: LinkedRepoState[];
   claudeSessionId?: string;
   prUrl?: string;
   prNumber?: number;
+  /** When the (primary) PR was opened. */
+  prCreatedAt?: number;
+  /** When the PR was found merged; filled in by Task Analytics. */
+  mergedAt?: number;
   error?: string;
   costUsd?: number;
+  /** Models each phase ran on, including escalated retries. */
+  modelAttempts?: ModelAttempt[];
+  /** Spend cap for the task in USD, cumulative across phases and feedback rounds. */
+  budgetUsd?: number;
+  /** Phase that was running when the spend cap was reached. */
+  budgetExceededPhase?: ClaudePhase;
+  /** Outcome of the repo's verification commands, when any are configured. */
+  verification?: VerificationResult;
+  /** Findings of the pre-PR review, for repos with `selfReview` on. */
+  selfReview?: SelfReviewResult;
+  /** Per-comment outcome of the last feedback round. */
+  feedbackOutcomes?: FeedbackOutcome[];
+  /** Pipeline steps finished so far (see CHECKPOINT_STATUSES). */
+  checkpoints?: TaskStatus[];
+  /** Last time the background worker reported in; merged from its own storage key. */
+  heartbeatAt?: number;
   createdAt: number;
   updatedAt: number;
   progressLog: string[];
 }
 
 export const TASK_STATUS_LABELS: Record<TaskStatus, string> = {
+  queued: "Queued",
   initializing: "Initializing",
   worktree_created: "Worktree Created",
   dependencies_installed: "Dependencies Installed",
@@ -80,10 +322,17 @@ export const TASK_STATUS_LABELS: Record<TaskStatus, string> = {
   plan_complete: "Plan Complete",
   implementing: "Implementing",
   implementation_complete: "Implementation Complete",
+  verifying: "Verifying",
+  fixing_verification: "Fixing Verification Failures",
+  self_reviewing: "Self-Reviewing",
   pushing: "Pushing",
   pr_created: "PR Created",
   feedback_implementing: "Implementing Feedback",
+  fixing_ci: "Fixing CI",
+  resolving_conflicts: "Resolving Conflicts",
   complete: "Complete",
   error: "Error",
   cancelled: "Cancelled",
+  budget_exceeded: "Budget Exceeded",
+  conflict: "Merge Conflict",
 };
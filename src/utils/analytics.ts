@@ -0,0 +1,279 @@
+/**
+ * Spend and throughput figures across all task history: tasks still in
+ * LocalStorage (with their run telemetry) plus the log files written when
+ * tasks finish, which outlive the stored state.
+ */
+import { ACTIVE_TASK_STATUSES, type TaskStatus } from "../types/storage";
+import { fetchPullRequest, parseRepoFullName } from "../services/github";
+import {
+  getAllTasks,
+  getTelemetry,
+  readTaskLogSummaries,
+  saveTask,
+} from "./storage";
+
+/** Model name used for spend recorded before per-run telemetry existed. */
+export const UNKNOWN_MODEL = "unknown";
+
+/** One task as far as analytics is concerned. */
+export interface TaskRecord {
+  issueKey: string;
+  /** Linear team key, e.g. "ENG" for ENG-123. */
+  team: string;
+  repoName: string;
+  status: TaskStatus;
+  createdAt: number;
+  prUrl?: string;
+  prCreatedAt?: number;
+  mergedAt?: number;
+  costUsd: number;
+  costByModel: Record<string, number>;
+  turns?: number;
+}
+
+export interface GroupStats {
+  key: string;
+  tasks: number;
+  costUsd: number;
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+  avgTurns?: number;
+  avgHoursToPr?: number;
+  avgHoursToMerge?: number;
+}
+
+/** Stop asking GitHub about merges after this many PRs per refresh. */
+const MAX_MERGE_LOOKUPS = 30;
+
+const SUCCEEDED: ReadonlySet<TaskStatus> = new Set([
+  "complete",
+  "plan_complete",
+]);
+const FAILED: ReadonlySet<TaskStatus> = new Set([
+  "error",
+  "budget_exceeded",
+  "conflict",
+]);
+
+function teamOf(issueKey: string): string {
+  return issueKey.match(/^([A-Za-z]+)-/)?.[1]?.toUpperCase() ?? issueKey;
+}
+
+/**
+ * Every task ever run, one record per issue. Stored tasks win over log
+ * files; PRs not yet known to be merged are checked on GitHub and the merge
+ * time saved back to the task.
+ */
+export async function collectTaskRecords(): Promise<TaskRecord[]> {
+  const [tasks, logs] = await Promise.all([
+    getAllTasks(),
+    readTaskLogSummaries(),
+  ]);
+  const records = new Map<string, TaskRecord>();
+
+  for (const log of logs) {
+    const costUsd = log.costUsd ?? 0;
+    records.set(log.issueKey, {
+      issueKey: log.issueKey,
+      team: teamOf(log.issueKey),
+      repoName: log.repoName,
+      status: log.status,
+      createdAt: log.createdAt,
+      prUrl: log.prUrl,
+      prCreatedAt: log.prCreatedAt,
+      mergedAt: log.mergedAt,
+      costUsd,
+      costByModel: log.costByModel ?? { [UNKNOWN_MODEL]: costUsd },
+      turns: log.turns,
+    });
+  }
+
+  let mergeLookups = 0;
+  for (const task of tasks) {
+    const runs = await getTelemetry(task.issueKey);
+    const costUsd = task.costUsd ?? 0;
+    const costByModel: Record<string, number> = {};
+    for (const run of runs) {
+      costByModel[run.model] = (costByModel[run.model] ?? 0) + run.costUsd;
+    }
+    // Spend from before telemetry was recorded has no model attached (the
+    // threshold ignores rounding differences)
+    const untracked =
+      costUsd - Object.values(costByModel).reduce((a, b) => a + b, 0);
+    if (untracked > 0.005) costByModel[UNKNOWN_MODEL] = untracked;
+
+    if (
+      task.prUrl &&
+      task.prNumber &&
+      !task.mergedAt &&
+      // A running worker may be saving the task right now
+      !ACTIVE_TASK_STATUSES.has(task.status) &&
+      mergeLookups < MAX_MERGE_LOOKUPS
+    ) {
+      mergeLookups++;
+      try {
+        const { owner, repo } = parseRepoFullName(task.prUrl);
+        const pr = await fetchPullRequest(owner, repo, task.prNumber);
+        if (pr.merged_at) {
+          task.mergedAt = Date.parse(pr.merged_at);
+          await saveTask(task);
+        }
+      } catch {
+        // Leave merge time unknown — tried again on the next refresh
+      }
+    }
+
+    records.set(task.issueKey, {
+      issueKey: task.issueKey,
+      team: teamOf(task.issueKey),
+      repoName: task.repoName,
+      status: task.status,
+      createdAt: task.createdAt,
+      prUrl: task.prUrl,
+      prCreatedAt: task.prCreatedAt,
+      mergedAt: task.mergedAt,
+      costUsd,
+      costByModel,
+      turns: runs.length
+        ? runs.reduce((sum, r) => sum + r.turns.length, 0)
+        : undefined,
+    });
+  }
+
+  return [...records.values()].sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/** Monday of the record's launch week, as YYYY-MM-DD. */
+export function weekOf(timestamp: number): string {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function average(values: (number | undefined)[]): number | undefined {
+  const known = values.filter((v): v is number => v !== undefined);
+  return known.length
+    ? known.reduce((a, b) => a + b, 0) / known.length
+    : undefined;
+}
+
+function hoursBetween(from: number, to: number | undefined) {
+  return to === undefined ? undefined : (to - from) / 3_600_000;
+}
+
+/**
+ * Aggregate records into groups. `split` says which groups a record belongs
+ * to and how much of its cost each gets — one group for most dimensions,
+ * one per model used for the model breakdown.
+ */
+export function groupRecords(
+  records: TaskRecord[],
+  split: (record: TaskRecord) => { key: string; costUsd: number }[],
+): GroupStats[] {
+  const groups = new Map<string, { records: TaskRecord[]; costUsd: number }>();
+  for (const record of records) {
+    for (const { key, costUsd } of split(record)) {
+      const group = groups.get(key) ?? { records: [], costUsd: 0 };
+      group.records.push(record);
+      group.costUsd += costUsd;
+      groups.set(key, group);
+    }
+  }
+
+  return [...groups].map(([key, group]) => ({
+    key,
+    tasks: group.records.length,
+    costUsd: group.costUsd,
+    succeeded: group.records.filter((r) => SUCCEEDED.has(r.status)).length,
+    failed: group.records.filter((r) => FAILED.has(r.status)).length,
+    cancelled: group.records.filter((r) => r.status === "cancelled").length,
+    avgTurns: average(group.records.map((r) => r.turns)),
+    avgHoursToPr: average(
+      group.records.map((r) => hoursBetween(r.createdAt, r.prCreatedAt)),
+    ),
+    avgHoursToMerge: average(
+      group.records.map((r) => hoursBetween(r.createdAt, r.mergedAt)),
+    ),
+  }));
+}
+
+export const byRepo = (r: TaskRecord) => [
+  { key: r.repoName, costUsd: r.costUsd },
+];
+export const byTeam = (r: TaskRecord) => [{ key: r.team, costUsd: r.costUsd }];
+export const byWeek = (r: TaskRecord) => [
+  { key: weekOf(r.createdAt), costUsd: r.costUsd },
+];
+export const byModel = (r: TaskRecord) =>
+  Object.entries(r.costByModel).map(([key, costUsd]) => ({ key, costUsd }));
+
+function csvCell(value: string | number | undefined): string {
+  if (value === undefined) return "";
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function isoOrEmpty(timestamp: number | undefined): string | undefined {
+  return timestamp === undefined
+    ? undefined
+    : new Date(timestamp).toISOString();
+}
+
+/** One row per task, for spreadsheets. */
+export function recordsToCsv(records: TaskRecord[]): string {
+  const header = [
+    "issue_key",
+    "team",
+    "repo",
+    "status",
+    "week",
+    "created_at",
+    "pr_created_at",
+    "merged_at",
+    "cost_usd",
+    "turns",
+    "models",
+    "pr_url",
+  ];
+  const rows = records.map((r) =>
+    [
+      r.issueKey,
+      r.team,
+      r.repoName,
+      r.status,
+      weekOf(r.createdAt),
+      isoOrEmpty(r.createdAt),
+      isoOrEmpty(r.prCreatedAt),
+      isoOrEmpty(r.mergedAt),
+      r.costUsd.toFixed(4),
+      r.turns,
+      Object.keys(r.costByModel).join(" "),
+      r.prUrl,
+    ]
+      .map(csvCell)
+      .join(","),
+  );
+  return [header.join(","), ...rows].join("\n");
+}
+
+/** Raw records plus every breakdown, for scripts. */
+export function recordsToJson(records: TaskRecord[]): string {
+  return JSON.stringify(
+    {
+      generatedAt: new Date().toISOString(),
+      totals: groupRecords(records, (r) => [
+        { key: "all", costUsd: r.costUsd },
+      ])[0],
+      byRepo: groupRecords(records, byRepo),
+      byModel: groupRecords(records, byModel),
+      byWeek: groupRecords(records, byWeek),
+      byTeam: groupRecords(records, byTeam),
+      tasks: records,
+    },
+    null,
+    2,
+  );
+}
@@ -0,0 +1,78 @@
+import type { RepoConfig } from "../types/preferences";
+
+/** A reviewer comment that a feedback commit addresses. */
+export interface AddressedComment {
+  author: string;
+  body: string;
+  /** File the comment was left on, for inline review comments. */
+  path?: string;
+}
+
+/** `type(scope)!: description` — scope and breaking-change marker optional. */
+const CONVENTIONAL_SUBJECT = /^([a-z]+)(?:\(([^)]*)\))?(!)?:\s*(.+)$/;
+
+function withScope(subject: string, scope: string | undefined): string {
+  const match = subject.match(CONVENTIONAL_SUBJECT);
+  if (!match || !scope) return subject;
+  const [, type, , breaking, description] = match;
+  return `${type}(${scope})${breaking ?? ""}: ${description}`;
+}
+
+/**
+ * Parse a generated commit message into its subject and body. Returns null
+ * when the first line isn't a conventional-commit subject. A configured repo
+ * scope replaces whatever scope was generated.
+ */
+export function parseCommitMessage(
+  text: string,
+  scope?: string,
+): { subject: string; body?: string } | null {
+  const [firstLine, ...rest] = text
+    .trim()
+    .replace(/^```\w*\n|\n```$/g, "")
+    .split("\n");
+  const subject = firstLine?.trim() ?? "";
+  if (!CONVENTIONAL_SUBJECT.test(subject)) return null;
+  const body = rest.join("\n").trim();
+  return { subject: withScope(subject, scope), body: body || undefined };
+}
+
+/** Subject used when no message could be generated from the diff. */
+export function fallbackCommitSubject(scope?: string): string {
+  return withScope("chore: apply remaining changes", scope);
+}
+
+/**
+ * Assemble the final commit message: the repo's subject prefix, the body,
+ * the review comments it addresses and a `Refs:` trailer for the issue key
+ * (unless the prefix already carries it).
+ */
+export function formatCommitMessage(params: {
+  issueKey: string;
+  repo: RepoConfig;
+  subject: string;
+  body?: string;
+  addressedComments?: AddressedComment[];
+}): string {
+  const { issueKey, repo, subject, body, addressedComments } = params;
+  const prefix = repo.commitPrefix?.replaceAll("{issueKey}", issueKey) ?? "";
+
+  const paragraphs = [`${prefix}${subject}`];
+  if (body) paragraphs.push(body);
+  if (addressedComments?.length) {
+    paragraphs.push(
+      [
+        "Addresses review comments:",
+        ...addressedComments.map((c) => {
+          const excerpt = c.body.trim().split("\n")[0].slice(0, 72);
+          return `- @${c.author}${c.path ? ` on ${c.path}` : ""}: ${excerpt}`;
+        }),
+      ].join("\n"),
+    );
+  }
+  if (!repo.commitPrefix?.includes("{issueKey}")) {
+    paragraphs.push(`Refs: ${issueKey}`);
+  }
+
+  return paragraphs.join("\n\n");
+}
@@ -0,0 +1,48 @@
+import type { FeedbackComment, FeedbackOutcome } from "../types/storage";
+
+/** `ADDRESSED C1: what was done` / `SKIPPED C2: why not`, one per line. */
+const REPORT_LINE =
+  /^\s*(?:[-*]\s*)?\**(ADDRESSED|SKIPPED)\**\s+\**(C\d+)\**\s*[:—–-]\s*(.+)$/i;
+
+/**
+ * Match Claude's per-comment report against the comments it was given.
+ * Comments the report doesn't mention come back as "unreported"; if a
+ * comment is reported twice, the last line wins.
+ */
+export function parseFeedbackReport(
+  summary: string,
+  comments: FeedbackComment[],
+): FeedbackOutcome[] {
+  const reported = new Map<
+    string,
+    { status: "addressed" | "skipped"; note: string }
+  >();
+  for (const line of summary.split("\n")) {
+    const match = line.match(REPORT_LINE);
+    if (!match) continue;
+    const [, verdict, ref, note] = match;
+    reported.set(ref.toUpperCase(), {
+      status: verdict.toUpperCase() === "ADDRESSED" ? "addressed" : "skipped",
+      note: note.trim(),
+    });
+  }
+
+  return comments.map((comment) => {
+    const entry = reported.get(comment.ref);
+    return entry
+      ? { comment, ...entry }
+      : { comment, status: "unreported" as const };
+  });
+}
+
+/** "@alice on src/app.ts:12" — who left the comment and where. */
+export function describeFeedbackComment(comment: FeedbackComment): string {
+  const location = comment.path
+    ? ` on ${comment.path}${comment.line ? `:${comment.line}` : ""}${comment.outdated ? " (outdated)" : ""}`
+    : "";
+  const kind =
+    comment.kind === "review"
+      ? ` (review${comment.state ? `, ${comment.state}` : ""})`
+      : "";
+  return `@${comment.author}${location}${kind}`;
+}
@@ -0,0 +1,13 @@
+/**
+ * The JSON value at the end of Claude's reply: the last fenced code block if
+ * there is one, otherwise the whole reply. Null when it isn't valid JSON.
+ */
+export function parseJsonReply(text: string): unknown {
+  const fenced = [...text.matchAll(/```(?:json)?\s*\n([\s\S]*?)```/g)];
+  const raw = fenced.length > 0 ? fenced[fenced.length - 1][1] : text;
+  try {
+    return JSON.parse(raw.trim());
+  } catch {
+    return null;
+  }
+}
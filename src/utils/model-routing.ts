@@ -0,0 +1,51 @@
+import type { ClaudePhase } from "../types/storage";
+import { getConfig } from "./preferences";
+
+export interface ModelRoute {
+  model: string;
+  /** Why this model was picked, for the task's record. */
+  reason: string;
+}
+
+/**
+ * Pick the model for a run from the MODEL_ROUTES policy: the first rule whose
+ * modes, repos, labels and priorities all match wins, otherwise the default
+ * model from preferences/.env.
+ */
+export function routeModel(params: {
+  mode: ClaudePhase;
+  repoName: string;
+  priority?: number;
+  labels?: string[];
+}): ModelRoute {
+  const config = getConfig();
+  const labels = (params.labels ?? []).map((l) => l.toLowerCase());
+
+  const index = config.modelRoutes.findIndex(
+    (rule) =>
+      (!rule.modes || rule.modes.includes(params.mode)) &&
+      (!rule.repos || rule.repos.includes(params.repoName)) &&
+      (!rule.labels ||
+        rule.labels.some((l) => labels.includes(l.toLowerCase()))) &&
+      (!rule.priorities || rule.priorities.includes(params.priority ?? 0)),
+  );
+  if (index === -1) {
+    return { model: config.claudeModel, reason: "Default model" };
+  }
+  return {
+    model: config.modelRoutes[index].model,
+    reason: `Routing rule ${index + 1}`,
+  };
+}
+
+/**
+ * The next model up the MODEL_ESCALATION ladder, or undefined when escalation
+ * is off or the model is already the strongest. Models not on the ladder
+ * escalate to its strongest entry.
+ */
+export function nextStrongerModel(model: string): string | undefined {
+  const ladder = getConfig().modelEscalation;
+  if (ladder.length === 0) return undefined;
+  const index = ladder.indexOf(model);
+  return index === -1 ? ladder[ladder.length - 1] : ladder[index + 1];
+}
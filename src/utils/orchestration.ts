@@ -0,0 +1,342 @@
+/**
+ * Helpers for (re)launching the background run-orchestration command from
+ * view commands. Launches go through a persistent queue so only a limited
+ * number of workers (worktree setup, installs, Claude sessions) run at once.
+ */
+import { launchCommand, LaunchType } from "@raycast/api";
+import type { GitHubPullRequest } from "../types/github";
+import type { LinearIssue } from "../types/linear";
+import type { RepoConfig } from "../types/preferences";
+import {
+  ACTIVE_TASK_STATUSES,
+  type OrchestrationParams,
+  type QueuedTask,
+  type ResumeParams,
+  type TaskState,
+  type TaskStatus,
+} from "../types/storage";
+import { getConfig } from "./preferences";
+import { generateBranchName } from "./branch-naming";
+import { getWorktreePath } from "../services/worktree";
+import {
+  createInitialTaskState,
+  getTask,
+  saveTask,
+  requestCancellation,
+  getOrchestrationParams,
+  saveOrchestrationParams,
+  clearOrchestrationParams,
+  updateTaskStatus,
+  appendProgressLog,
+  getAllTasks,
+  getQueue,
+  saveQueue,
+  claimQueuedTask,
+  isTaskStalled,
+} from "./storage";
+
+/**
+ * Create a fresh task for a Linear issue, save its launch params and queue it.
+ */
+export async function startOrchestration(params: {
+  issue: LinearIssue;
+  repo: RepoConfig;
+  baseBranch: string;
+  userInstructions: string;
+  mode: "plan" | "implement";
+  updateExistingPlan?: boolean;
+  batchId?: string;
+  /** Further repos to implement the issue in, each with its own PR. */
+  linkedRepos?: RepoConfig[];
+  /** Issue screenshots not to attach to the prompt. */
+  excludedImageUrls?: string[];
+}): Promise<TaskState> {
+  const { issue, repo, baseBranch, userInstructions, mode } = params;
+  const branchName = generateBranchName(issue.title, issue.identifier);
+  const linkedRepos = params.linkedRepos ?? [];
+  const linkedRepoNames = linkedRepos.length
+    ? linkedRepos.map((r) => r.name)
+    : undefined;
+  const excludedImageUrls = params.excludedImageUrls?.length
+    ? params.excludedImageUrls
+    : undefined;
+
+  const task = createInitialTaskState({
+    issueKey: issue.identifier,
+    issueSummary: issue.title,
+    issueUrl: issue.url,
+    repoName: repo.name,
+    branchName,
+    worktreePath: getWorktreePath(repo.name, branchName),
+    baseBranch,
+    priority: issue.priority,
+    batchId: params.batchId,
+    labels: issue.labels.nodes.map((l) => l.name),
+  });
+  if (linkedRepos.length) {
+    task.linkedRepos = linkedRepos.map((r) => ({
+      repoName: r.name,
+      worktreePath: getWorktreePath(r.name, branchName),
+      baseBranch: r.defaultBranch,
+    }));
+  }
+  await saveTask(task);
+
+  await saveOrchestrationParams(
+    issue.identifier,
+    mode === "plan"
+      ? {
+          mode,
+          issue,
+          repoName: repo.name,
+          branchName,
+          baseBranch,
+          userInstructions,
+          updateExistingPlan: params.updateExistingPlan,
+          linkedRepoNames,
+          excludedImageUrls,
+        }
+      : {
+          mode,
+          issue,
+          repoName: repo.name,
+          branchName,
+          baseBranch,
+          userInstructions,
+          linkedRepoNames,
+          excludedImageUrls,
+        },
+  );
+
+  await enqueueOrchestration(task);
+  return task;
+}
+
+/**
+ * The task behind a pull request, for follow-up rounds (feedback, Fix CI).
+ * PRs opened outside the extension get a minimal task so they can be tracked.
+ */
+export async function getPullRequestTask(
+  pr: GitHubPullRequest,
+  repo: RepoConfig,
+  taskState?: TaskState,
+): Promise<TaskState> {
+  // Try to find by branch name
+  const existing = taskState ?? (await getTask(pr.head.ref));
+  if (existing) return existing;
+
+  const issueKeyMatch = pr.title.match(/^([A-Z]+-\d+)/);
+  const issueKey = issueKeyMatch?.[1] ?? `PR-${pr.number}`;
+  const task = createInitialTaskState({
+    issueKey,
+    issueSummary: pr.title,
+    issueUrl: pr.html_url,
+    repoName: repo.name,
+    branchName: pr.head.ref,
+    worktreePath: getWorktreePath(repo.name, pr.head.ref),
+    baseBranch: pr.base.ref,
+  });
+  task.prUrl = pr.html_url;
+  task.prNumber = pr.number;
+  await saveTask(task);
+  return task;
+}
+
+/** Linear uses 0 for "no priority" — it should sort after "low" (4). */
+function priorityRank(priority: number): number {
+  return priority > 0 ? priority : 5;
+}
+
+/**
+ * Queue a task whose orchestration params are already saved, then launch
+ * whatever fits in the free worker slots. New entries go behind everything of
+ * equal or higher priority.
+ */
+export async function enqueueOrchestration(
+  task: TaskState,
+  extra?: Partial<TaskState>,
+): Promise<void> {
+  const queue = (await getQueue()).filter((e) => e.issueKey !== task.issueKey);
+  const entry: QueuedTask = {
+    issueKey: task.issueKey,
+    repoName: task.repoName,
+    priority: task.priority ?? 0,
+    enqueuedAt: Date.now(),
+  };
+  const index = queue.findIndex(
+    (e) => priorityRank(e.priority) > priorityRank(entry.priority),
+  );
+  queue.splice(index === -1 ? queue.length : index, 0, entry);
+  await saveQueue(queue);
+
+  await updateTaskStatus(task.issueKey, "queued", extra);
+  await appendProgressLog(task.issueKey, "Queued — waiting for a free worker");
+
+  await launchQueuedTasks();
+}
+
+/**
+ * Launch queued tasks in order while the global and per-repo concurrency
+ * limits allow. Called after every enqueue and whenever a worker finishes,
+ * often from several commands at once: each entry is claimed before launch,
+ * and running tasks are counted again for every entry so launches made by
+ * another caller meanwhile take their slots.
+ * Stalled tasks don't hold a slot, so a dead worker can't block the queue.
+ */
+export async function launchQueuedTasks(): Promise<void> {
+  const queue = await getQueue();
+  if (queue.length === 0) return;
+
+  const config = getConfig();
+  for (const entry of queue) {
+    const running = await countRunningTasks();
+    if (running.total >= config.maxConcurrentTasks) return;
+    const repoLimit = config.repos.find(
+      (r) => r.name === entry.repoName,
+    )?.maxConcurrentTasks;
+    const repoRunning = running.perRepo.get(entry.repoName) ?? 0;
+    if (repoLimit !== undefined && repoRunning >= repoLimit) continue;
+
+    if (!(await claimQueuedTask(entry))) continue;
+    // Removed from the queue, or queued again, since it was read
+    const current = (await getQueue()).find(
+      (e) => e.issueKey === entry.issueKey,
+    );
+    if (current?.enqueuedAt !== entry.enqueuedAt) continue;
+
+    await launchTask(entry);
+  }
+}
+
+async function countRunningTasks(): Promise<{
+  total: number;
+  perRepo: Map<string, number>;
+}> {
+  const running = (await getAllTasks()).filter(
+    (t) => ACTIVE_TASK_STATUSES.has(t.status) && !isTaskStalled(t),
+  );
+  const perRepo = new Map<string, number>();
+  for (const t of running) {
+    perRepo.set(t.repoName, (perRepo.get(t.repoName) ?? 0) + 1);
+  }
+  return { total: running.length, perRepo };
+}
+
+/** Take one entry off the queue, keeping anything queued since. */
+async function dequeue(entry: QueuedTask): Promise<void> {
+  const queue = await getQueue();
+  await saveQueue(
+    queue.filter(
+      (e) => e.issueKey !== entry.issueKey || e.enqueuedAt !== entry.enqueuedAt,
+    ),
+  );
+}
+
+/** Status a task shows once its worker starts, by orchestration mode. */
+const LAUNCH_STATUSES: Record<OrchestrationParams["mode"], TaskStatus> = {
+  plan: "initializing",
+  implement: "initializing",
+  feedback: "feedback_implementing",
+  fix_ci: "fixing_ci",
+  resolve_conflicts: "resolving_conflicts",
+};
+
+async function launchTask(entry: QueuedTask): Promise<void> {
+  const { issueKey } = entry;
+  const params = await getOrchestrationParams(issueKey);
+  if (!params) {
+    await dequeue(entry);
+    await updateTaskStatus(issueKey, "error", {
+      error: "Launch parameters not found — start the task again",
+    });
+    return;
+  }
+
+  // Leaves the queue only once it counts as running
+  await updateTaskStatus(issueKey, LAUNCH_STATUSES[params.mode]);
+  await dequeue(entry);
+  await appendProgressLog(issueKey, "Worker slot free — starting");
+
+  await launchCommand({
+    name: "run-orchestration",
+    type: LaunchType.UserInitiated,
+    context: { issueKey },
+  });
+}
+
+/** Move a queued task one place towards the front (-1) or back (+1). */
+export async function moveQueuedTask(
+  issueKey: string,
+  direction: -1 | 1,
+): Promise<void> {
+  const queue = await getQueue();
+  const index = queue.findIndex((e) => e.issueKey === issueKey);
+  const target = index + direction;
+  if (index === -1 || target < 0 || target >= queue.length) return;
+  [queue[index], queue[target]] = [queue[target], queue[index]];
+  await saveQueue(queue);
+}
+
+/** Drop a task from the queue before it starts and mark it cancelled. */
+export async function removeQueuedTask(issueKey: string): Promise<void> {
+  const queue = await getQueue();
+  await saveQueue(queue.filter((e) => e.issueKey !== issueKey));
+  await clearOrchestrationParams(issueKey);
+
+  await updateTaskStatus(issueKey, "cancelled");
+  await appendProgressLog(issueKey, "Removed from queue");
+}
+
+/**
+ * Stop every unfinished task in a batch: queued tasks are dropped from the
+ * queue, running ones get a cancellation request. Returns how many were hit.
+ */
+export async function cancelBatch(batchId: string): Promise<number> {
+  const tasks = (await getAllTasks()).filter((t) => t.batchId === batchId);
+  let cancelled = 0;
+  for (const task of tasks) {
+    if (task.status === "queued") {
+      await removeQueuedTask(task.issueKey);
+      cancelled++;
+    } else if (isTaskStalled(task)) {
+      // No worker is left to honour a cancellation request
+      await updateTaskStatus(task.issueKey, "cancelled");
+      cancelled++;
+    } else if (ACTIVE_TASK_STATUSES.has(task.status)) {
+      await requestCancellation(task.issueKey);
+      cancelled++;
+    }
+  }
+  return cancelled;
+}
+
+/**
+ * Relaunch a task's last orchestration so it continues where it stopped:
+ * steps recorded as checkpoints are skipped and the Claude session is resumed.
+ * Returns false when the original launch params are gone and the task has to
+ * be started again from scratch.
+ */
+export async function resumeOrchestration(
+  task: TaskState,
+  reason: ResumeParams["reason"],
+  extra?: Partial<TaskState>,
+): Promise<boolean> {
+  const params = await getOrchestrationParams(task.issueKey);
+  if (!params) return false;
+
+  await saveOrchestrationParams(task.issueKey, {
+    ...params,
+    resume: { reason, sessionId: task.claudeSessionId },
+  });
+
+  await appendProgressLog(
+    task.issueKey,
+    task.claudeSessionId
+      ? `Resuming from last checkpoint (session ${task.claudeSessionId})...`
+      : "Resuming from last checkpoint...",
+  );
+
+  await enqueueOrchestration(task, { ...extra, error: undefined });
+
+  return true;
+}
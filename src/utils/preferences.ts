@@ -1,11 +1,18 @@
 import { getPreferenceValues, environment } from "@raycast/api";
 import { config } from "dotenv";
 import fs from "fs";
+import os from "os";
 import path from "path";
-import type {
-  AppConfig,
-  RaycastPreferences,
-  RepoConfig,
+import {
+  PROMPT_TEMPLATE_KINDS,
+  type AppConfig,
+  type ModelRouteRule,
+  type PromptTemplateKind,
+  type RaycastPreferences,
+  type RepoConfig,
+  type SetupStep,
+  type ToolPolicyConfig,
+  type VerifyCommand,
 } from "../types/preferences";
 import { FALLBACK_ENV_PATH } from "../config";
 
@@ -28,6 +35,75 @@ function loadEnv(): Record<string, string> {
   return (result.parsed ?? {}) as Record<string, string>;
 }
 
+/** A concurrency limit is a whole number of at least 1; anything else is ignored. */
+function parseConcurrencyLimit(raw: unknown): number | undefined {
+  const value = typeof raw === "string" && raw.trim() ? Number(raw) : raw;
+  return typeof value === "number" && Number.isInteger(value) && value >= 1
+    ? value
+    : undefined;
+}
+
+function parseVerifyCommands(raw: unknown): VerifyCommand[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(
+    (c: unknown): c is VerifyCommand =>
+      typeof c === "object" &&
+      c !== null &&
+      typeof (c as VerifyCommand).name === "string" &&
+      typeof (c as VerifyCommand).command === "string",
+  );
+}
+
+function parseSetupSteps(raw: unknown): SetupStep[] {
+  if (!Array.isArray(raw)) return [];
+  const steps: SetupStep[] = [];
+  for (const step of raw) {
+    if (typeof step !== "object" || step === null) continue;
+    const { copy, run, name, env } = step as Record<string, unknown>;
+    if (typeof copy === "string" || Array.isArray(copy)) {
+      steps.push({
+        copy: [copy].flat().filter((p): p is string => typeof p === "string"),
+      });
+    } else if (typeof run === "string") {
+      steps.push({ run, name: typeof name === "string" ? name : undefined });
+    } else if (typeof env === "object" && env !== null) {
+      steps.push({
+        env: Object.fromEntries(
+          Object.entries(env).map(([key, value]) => [key, String(value)]),
+        ),
+      });
+    }
+  }
+  return steps;
+}
+
+function parseToolPolicy(raw: unknown): ToolPolicyConfig | undefined {
+  if (typeof raw !== "object" || raw === null) return undefined;
+  const strings = (value: unknown) =>
+    Array.isArray(value)
+      ? value.filter((v): v is string => typeof v === "string")
+      : undefined;
+  const policy = raw as Record<string, unknown>;
+  return {
+    allowedTools: strings(policy.allowedTools),
+    deniedTools: strings(policy.deniedTools),
+    blockedCommands: strings(policy.blockedCommands),
+    protectedPaths: strings(policy.protectedPaths),
+  };
+}
+
+function parsePromptTemplates(
+  raw: unknown,
+): Partial<Record<PromptTemplateKind, string>> | undefined {
+  if (typeof raw !== "object" || raw === null) return undefined;
+  const templates: Partial<Record<PromptTemplateKind, string>> = {};
+  for (const kind of PROMPT_TEMPLATE_KINDS) {
+    const value = (raw as Record<string, unknown>)[kind];
+    if (typeof value === "string") templates[kind] = value;
+  }
+  return templates;
+}
+
 function parseRepos(raw: string | undefined): RepoConfig[] {
   if (!raw) return [];
   try {
@@ -42,6 +118,16 @@ function parseRepos(raw: string | undefined): RepoConfig[] {
           localPath: string;
           defaultBranch?: string;
           issuePrefixes?: string[];
+          setupSteps?: unknown;
+          installDependencies?: unknown;
+          verifyCommands?: unknown;
+          maxFixAttempts?: unknown;
+          maxConcurrentTasks?: unknown;
+          selfReview?: unknown;
+          commitScope?: unknown;
+          commitPrefix?: unknown;
+          permissions?: unknown;
+          promptTemplates?: unknown;
         } =>
           typeof r === "object" &&
           r !== null &&
@@ -55,6 +141,49 @@ function parseRepos(raw: string | undefined): RepoConfig[] {
         issuePrefixes: Array.isArray(r.issuePrefixes)
           ? r.issuePrefixes.filter((p: unknown) => typeof p === "string")
           : [],
+        setupSteps: parseSetupSteps(r.setupSteps),
+        installDependencies: r.installDependencies !== false,
+        verifyCommands: parseVerifyCommands(r.verifyCommands),
+        maxFixAttempts:
+          typeof r.maxFixAttempts === "number" ? r.maxFixAttempts : 2,
+        maxConcurrentTasks: parseConcurrencyLimit(r.maxConcurrentTasks),
+        selfReview: r.selfReview === true,
+        commitScope:
+          typeof r.commitScope === "string" ? r.commitScope : undefined,
+        commitPrefix:
+          typeof r.commitPrefix === "string" ? r.commitPrefix : undefined,
+        permissions: parseToolPolicy(r.permissions),
+        promptTemplates: parsePromptTemplates(r.promptTemplates),
+      }));
+  } catch {
+    return [];
+  }
+}
+
+function parseModelRoutes(raw: string | undefined): ModelRouteRule[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    const strings = (value: unknown) =>
+      Array.isArray(value)
+        ? value.filter((v): v is string => typeof v === "string")
+        : undefined;
+    return parsed
+      .filter(
+        (r: unknown): r is Record<string, unknown> & { model: string } =>
+          typeof r === "object" &&
+          r !== null &&
+          typeof (r as ModelRouteRule).model === "string",
+      )
+      .map((r) => ({
+        model: r.model,
+        modes: strings(r.modes) as ModelRouteRule["modes"],
+        repos: strings(r.repos),
+        labels: strings(r.labels),
+        priorities: Array.isArray(r.priorities)
+          ? r.priorities.filter((p): p is number => typeof p === "number")
+          : undefined,
       }));
   } catch {
     return [];
@@ -76,16 +205,41 @@ export function getConfig(): AppConfig {
     worktreeBasePath: env.WORKTREE_BASE_PATH ?? "",
     planFilesPath: env.PLAN_FILES_PATH ?? "",
     logFilesPath: env.LOG_FILES_PATH ?? "",
+    dependencyCachePath:
+      env.DEPENDENCY_CACHE_PATH ??
+      path.join(os.homedir(), ".cache", "autozerts", "dependencies"),
     claudeMaxTurns: parseInt(env.CLAUDE_MAX_TURNS ?? "200", 10),
     claudeMaxBudgetUsd: parseFloat(env.CLAUDE_MAX_BUDGET_USD ?? "5.00"),
+    maxConcurrentTasks: parseConcurrencyLimit(env.MAX_CONCURRENT_TASKS) ?? 2,
     claudeModel: prefs.claudeModel ?? env.CLAUDE_MODEL ?? "claude-sonnet-4-6",
+    modelRoutes: parseModelRoutes(env.MODEL_ROUTES),
+    modelEscalation: (env.MODEL_ESCALATION ?? "")
+      .split(",")
+      .map((m) => m.trim())
+      .filter(Boolean),
     gitAuthorName: env.GIT_AUTHOR_NAME ?? "AutoZerts",
     gitAuthorEmail: env.GIT_AUTHOR_EMAIL ?? "autozerts@noreply.github.com",
+    figmaToken: env.FIGMA_TOKEN ?? "",
+    figmaApiBaseUrl: (
+      env.FIGMA_API_BASE_URL ?? "https://api.figma.com"
+    ).replace(/\/+$/, ""),
   };
 
   return cachedConfig;
 }
 
+/** Pick the repo whose issue prefixes appear in the issue title, if any. */
+export function findDefaultRepo(
+  title: string,
+  repos: RepoConfig[],
+): string | undefined {
+  const lower = title.toLowerCase();
+  const repo = repos.find((r) =>
+    r.issuePrefixes.some((p) => lower.includes(p.toLowerCase())),
+  );
+  return repo?.name;
+}
+
 export function clearConfigCache(): void {
   cachedConfig = null;
 }
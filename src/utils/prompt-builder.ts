@@ -1,4 +1,16 @@
+import type { FigmaDesign } from "../types/figma";
+import type { CiFailure } from "../types/github";
 import type { LinearIssue } from "../types/linear";
+import type { IssueImage } from "../types/prompt";
+import type {
+  FeedbackComment,
+  ReviewFinding,
+  VerificationCheckResult,
+} from "../types/storage";
+import type { ConflictedFile } from "../services/worktree";
+import type { AddressedComment } from "./commit-message";
+import { describeFeedbackComment } from "./feedback-report";
+import { describeReviewFinding } from "./self-review";
 
 interface PromptContext {
   issue: LinearIssue;
@@ -7,55 +19,107 @@ interface PromptContext {
   repoName: string;
   baseBranch: string;
   figmaContext?: string;
+  /** Lists the issue's screenshots attached to the prompt. */
+  attachmentsContext?: string;
+  crossRepoContext?: string;
+  /** Plan from an earlier planning session, to be followed. */
+  plan?: string | null;
+  /** The repo's own prompt template; the built-in prompt is used without one. */
+  template?: string | null;
 }
 
-function buildIssueHeader(ctx: PromptContext): string[] {
-  const sections: string[] = [];
+/**
+ * Fill `{{name}}` placeholders in a repo's prompt template. Unknown
+ * placeholders are left as written so typos show up in the preview, and the
+ * blank lines left behind by empty sections are collapsed.
+ */
+export function renderPromptTemplate(
+  template: string,
+  values: Record<string, string>,
+): string {
+  const rendered = template.replace(
+    /\{\{\s*(\w+)\s*\}\}/g,
+    (placeholder, name: string) =>
+      Object.prototype.hasOwnProperty.call(values, name)
+        ? values[name]
+        : placeholder,
+  );
+  return rendered.replace(/\n{3,}/g, "\n\n").trim() + "\n";
+}
 
-  sections.push(`# Task: ${ctx.issue.identifier} — ${ctx.issue.title}`);
-  sections.push("");
-  sections.push(`**Priority:** ${ctx.issue.priorityLabel}`);
-  sections.push(`**Status:** ${ctx.issue.state.name}`);
-  sections.push(`**Repository:** ${ctx.repoName}`);
-  sections.push(`**Base branch:** ${ctx.baseBranch}`);
-  sections.push("");
+/**
+ * Placeholder values shared by the issue-based prompts. Sections carry their
+ * own heading and are empty when there is nothing to say.
+ */
+function issuePlaceholders(ctx: PromptContext): Record<string, string> {
+  const header: string[] = [];
+
+  header.push(`# Task: ${ctx.issue.identifier} — ${ctx.issue.title}`);
+  header.push("");
+  header.push(`**Priority:** ${ctx.issue.priorityLabel}`);
+  header.push(`**Status:** ${ctx.issue.state.name}`);
+  header.push(`**Repository:** ${ctx.repoName}`);
+  header.push(`**Base branch:** ${ctx.baseBranch}`);
+  header.push("");
 
   // Linear description
   if (ctx.descriptionMarkdown) {
-    sections.push("## Description");
-    sections.push("");
-    sections.push(ctx.descriptionMarkdown);
-    sections.push("");
+    header.push("## Description");
+    header.push("");
+    header.push(ctx.descriptionMarkdown);
+    header.push("");
   }
 
   // Linear comments
   const comments = ctx.issue.comments?.nodes;
   if (comments && comments.length > 0) {
-    sections.push("## Comments");
-    sections.push("");
+    header.push("## Comments");
+    header.push("");
     for (const comment of comments) {
       const author = comment.user?.name ?? "Unknown";
       const date = new Date(comment.createdAt).toLocaleDateString();
-      sections.push(`**${author}** (${date}):`);
-      sections.push(comment.body);
-      sections.push("");
+      header.push(`**${author}** (${date}):`);
+      header.push(comment.body);
+      header.push("");
     }
   }
 
-  // Figma design context
-  if (ctx.figmaContext) {
-    sections.push(ctx.figmaContext);
-    sections.push("");
-  }
+  const instructions = ctx.userInstructions.trim();
 
-  // User instructions
-  if (ctx.userInstructions.trim()) {
-    sections.push("## Additional Instructions");
-    sections.push("");
-    sections.push(ctx.userInstructions.trim());
-    sections.push("");
-  }
+  return {
+    issueKey: ctx.issue.identifier,
+    issueTitle: ctx.issue.title,
+    repoName: ctx.repoName,
+    baseBranch: ctx.baseBranch,
+    issueHeader: header.join("\n").trim(),
+    figmaContext: ctx.figmaContext?.trim() ?? "",
+    attachments: ctx.attachmentsContext?.trim() ?? "",
+    crossRepoContext: ctx.crossRepoContext?.trim() ?? "",
+    instructions: instructions
+      ? `## Additional Instructions\n\n${instructions}`
+      : "",
+    plan: ctx.plan
+      ? `## Implementation Plan\n\nA plan was prepared in a prior session. Follow it closely:\n\n${ctx.plan.trim()}`
+      : "",
+  };
+}
 
+/** The built-in opening: issue, designs, screenshots, other repos, instructions, plan. */
+function buildIssueHeader(values: Record<string, string>): string[] {
+  const sections: string[] = [];
+  for (const key of [
+    "issueHeader",
+    "figmaContext",
+    "attachments",
+    "crossRepoContext",
+    "instructions",
+    "plan",
+  ]) {
+    if (values[key]) {
+      sections.push(values[key]);
+      sections.push("");
+    }
+  }
   return sections;
 }
 
@@ -63,7 +127,10 @@ function buildIssueHeader(ctx: PromptContext): string[] {
  * Build the main implementation prompt for Claude Code.
  */
 export function buildImplementationPrompt(ctx: PromptContext): string {
-  const sections = buildIssueHeader(ctx);
+  const values = issuePlaceholders(ctx);
+  if (ctx.template) return renderPromptTemplate(ctx.template, values);
+
+  const sections = buildIssueHeader(values);
 
   sections.push("## Your Task");
   sections.push("");
@@ -91,7 +158,10 @@ export function buildImplementationPrompt(ctx: PromptContext): string {
 export function buildPlanPrompt(
   ctx: PromptContext & { planFilePath: string },
 ): string {
-  const sections = buildIssueHeader(ctx);
+  const values = { ...issuePlaceholders(ctx), planFilePath: ctx.planFilePath };
+  if (ctx.template) return renderPromptTemplate(ctx.template, values);
+
+  const sections = buildIssueHeader(values);
 
   sections.push("## Your Task — Plan Only");
   sections.push("");
@@ -130,7 +200,14 @@ export function buildPlanPrompt(
 export function buildPlanUpdatePrompt(
   ctx: PromptContext & { planFilePath: string; existingPlan: string },
 ): string {
-  const sections = buildIssueHeader(ctx);
+  const values = {
+    ...issuePlaceholders(ctx),
+    planFilePath: ctx.planFilePath,
+    existingPlan: ctx.existingPlan.trim(),
+  };
+  if (ctx.template) return renderPromptTemplate(ctx.template, values);
+
+  const sections = buildIssueHeader(values);
 
   sections.push("## Your Task — Update the Existing Plan");
   sections.push("");
@@ -160,6 +237,50 @@ export function buildPlanUpdatePrompt(
   return sections.join("\n");
 }
 
+/**
+ * The picked review comments, each under its ref, followed by how Claude
+ * must report on them so replies can be posted per comment.
+ */
+function buildFeedbackCommentsSection(comments: FeedbackComment[]): string {
+  const sections: string[] = ["## Review Comments to Address", ""];
+
+  for (const comment of comments) {
+    const title =
+      comment.kind === "thread"
+        ? "Inline thread"
+        : comment.kind === "review"
+          ? "Review"
+          : "Comment";
+    sections.push(`### ${comment.ref} — ${title} by ${describeFeedbackComment(comment)}`);
+    sections.push("");
+    if (comment.outdated) {
+      sections.push(
+        "_The lines this thread was left on have changed since; check whether it still applies._",
+      );
+      sections.push("");
+    }
+    sections.push(comment.body.trim());
+    sections.push("");
+  }
+
+  sections.push("### Reporting Back");
+  sections.push("");
+  sections.push(
+    "End your final message with one line per comment above, saying what you did about it:",
+  );
+  sections.push("");
+  sections.push("```");
+  sections.push("ADDRESSED C1: <one sentence on what changed>");
+  sections.push("SKIPPED C2: <one sentence on why you deliberately didn't act on it>");
+  sections.push("```");
+  sections.push("");
+  sections.push(
+    "Addressed notes are posted as replies in the review threads, so write them for the reviewer.",
+  );
+
+  return sections.join("\n");
+}
+
 /**
  * Build a feedback prompt for implementing PR review comments.
  */
@@ -167,31 +288,45 @@ export function buildFeedbackPrompt(params: {
   issueKey: string;
   prNumber: number;
   feedbackText: string;
-  newCommentsContext?: string;
+  comments?: FeedbackComment[];
+  template?: string | null;
 }): string {
+  const values = {
+    issueKey: params.issueKey,
+    prNumber: String(params.prNumber),
+    newComments: params.comments?.length
+      ? buildFeedbackCommentsSection(params.comments)
+      : "",
+    feedback: params.feedbackText.trim()
+      ? `## Reviewer Feedback\n\n${params.feedbackText.trim()}`
+      : "",
+  };
+  if (params.template) return renderPromptTemplate(params.template, values);
+
   const sections: string[] = [];
 
   sections.push(`# Feedback for ${params.issueKey} (PR #${params.prNumber})`);
   sections.push("");
 
-  if (params.newCommentsContext) {
-    sections.push("## New Comments Since Last Commit");
+  if (values.newComments) {
+    sections.push(values.newComments);
     sections.push("");
-    sections.push(params.newCommentsContext);
+  }
+
+  if (values.feedback) {
+    sections.push(values.feedback);
     sections.push("");
   }
 
-  sections.push("## Reviewer Feedback");
-  sections.push("");
-  sections.push(params.feedbackText);
-  sections.push("");
   sections.push("## Your Task");
   sections.push("");
   sections.push("Implement the changes requested in the feedback above.");
-  if (params.newCommentsContext) {
-    sections.push("- Address the new reviewer comments listed above");
+  if (values.feedback) {
+    sections.push("- Address each point in the feedback");
+  }
+  if (values.newComments) {
+    sections.push("- Work through the review comments one by one; if you disagree with one, skip it and say why rather than half-applying it");
   }
-  sections.push("- Address each point in the feedback");
   sections.push("- Before every commit, run `npx prettier --write` on all changed files");
   sections.push("- Make focused commits with clear messages");
   sections.push("- If tests exist, make sure they pass after your changes");
@@ -199,3 +334,633 @@ export function buildFeedbackPrompt(params: {
 
   return sections.join("\n");
 }
+
+/**
+ * Build a prompt asking Claude to fix failing verification checks in the
+ * same session that produced the changes.
+ */
+export function buildVerificationFixPrompt(params: {
+  attempt: number;
+  maxAttempts: number;
+  failedChecks: VerificationCheckResult[];
+}): string {
+  const sections: string[] = [];
+
+  sections.push(
+    `# Verification Failed (fix-up ${params.attempt} of ${params.maxAttempts})`,
+  );
+  sections.push("");
+  sections.push(
+    "The repository's checks were run on your changes and some of them failed. Output for each failing check is below.",
+  );
+  sections.push("");
+
+  for (const check of params.failedChecks) {
+    sections.push(`## ${check.name}`);
+    sections.push("");
+    sections.push(`Command: \`${check.command}\``);
+    sections.push("");
+    sections.push("```");
+    sections.push(check.output ?? "(no output)");
+    sections.push("```");
+    sections.push("");
+  }
+
+  sections.push("## Your Task");
+  sections.push("");
+  sections.push("Fix the failures above. Follow these guidelines:");
+  sections.push("- Fix the root cause rather than silencing the check");
+  sections.push(
+    "- Do not disable lint rules, skip tests or loosen type checks to make them pass",
+  );
+  sections.push("- Re-run the failing commands yourself to confirm the fix");
+  sections.push("- Make focused commits with clear messages");
+  sections.push("");
+
+  return sections.join("\n");
+}
+
+/** One section per failed CI check: its summary, annotations and log tail. */
+function buildCiFailuresSection(failures: CiFailure[]): string {
+  const sections: string[] = ["## Failed Checks", ""];
+
+  for (const failure of failures) {
+    sections.push(`### ${failure.name}`);
+    sections.push("");
+    sections.push(`Details: ${failure.url}`);
+    sections.push("");
+    if (failure.summary) {
+      sections.push(failure.summary);
+      sections.push("");
+    }
+    if (failure.annotations.length > 0) {
+      sections.push("Annotations:");
+      for (const a of failure.annotations) {
+        const location =
+          a.start_line === a.end_line
+            ? `${a.path}:${a.start_line}`
+            : `${a.path}:${a.start_line}-${a.end_line}`;
+        const title = a.title ? `${a.title}: ` : "";
+        sections.push(`- \`${location}\` (${a.annotation_level}) ${title}${a.message}`);
+      }
+      sections.push("");
+    }
+    if (failure.logTail) {
+      sections.push("End of the job log:");
+      sections.push("");
+      sections.push("```");
+      sections.push(failure.logTail);
+      sections.push("```");
+      sections.push("");
+    }
+  }
+
+  return sections.join("\n").trim();
+}
+
+/**
+ * Build a prompt asking Claude to fix a PR's failing CI checks on its branch.
+ */
+export function buildFixCiPrompt(params: {
+  issueKey: string;
+  prNumber: number;
+  failures: CiFailure[];
+  template?: string | null;
+}): string {
+  const values = {
+    issueKey: params.issueKey,
+    prNumber: String(params.prNumber),
+    failures: buildCiFailuresSection(params.failures),
+  };
+  if (params.template) return renderPromptTemplate(params.template, values);
+
+  const sections: string[] = [];
+
+  sections.push(`# CI Failing for ${params.issueKey} (PR #${params.prNumber})`);
+  sections.push("");
+  sections.push(
+    "The pull request's CI checks failed on its latest commit. What each failed check reported is below.",
+  );
+  sections.push("");
+  sections.push(values.failures);
+  sections.push("");
+  sections.push("## Your Task");
+  sections.push("");
+  sections.push("Make the failing checks pass. Follow these guidelines:");
+  sections.push("- Reproduce each failure locally with the command CI ran before changing anything");
+  sections.push("- Fix the root cause rather than silencing the check");
+  sections.push(
+    "- Do not disable lint rules, skip tests or loosen type checks to make them pass",
+  );
+  sections.push("- If a failure is unrelated to this branch (e.g. flaky or infrastructure), don't change code for it — say so in your summary");
+  sections.push("- Before every commit, run `npx prettier --write` on all changed files");
+  sections.push("- Make focused commits with clear messages");
+  sections.push("");
+
+  return sections.join("\n");
+}
+
+/** Each conflicted file with the commits on both sides that touched it. */
+function buildConflictsSection(
+  conflicts: ConflictedFile[],
+  baseBranch: string,
+): string {
+  const sections: string[] = ["## Conflicted Files", ""];
+
+  for (const file of conflicts) {
+    sections.push(`### \`${file.path}\``);
+    sections.push("");
+    sections.push("Commits on this branch:");
+    for (const commit of file.ours.length ? file.ours : ["(none)"]) {
+      sections.push(`- ${commit}`);
+    }
+    sections.push("");
+    sections.push(`Commits on \`${baseBranch}\`:`);
+    for (const commit of file.theirs.length ? file.theirs : ["(none)"]) {
+      sections.push(`- ${commit}`);
+    }
+    sections.push("");
+  }
+
+  return sections.join("\n").trim();
+}
+
+/**
+ * Build a prompt asking Claude to resolve the conflicts left by merging the
+ * base branch into a PR branch.
+ */
+export function buildConflictResolutionPrompt(params: {
+  issueKey: string;
+  issueTitle: string;
+  baseBranch: string;
+  conflicts: ConflictedFile[];
+  template?: string | null;
+}): string {
+  const values = {
+    issueKey: params.issueKey,
+    issueTitle: params.issueTitle,
+    baseBranch: params.baseBranch,
+    conflicts: buildConflictsSection(params.conflicts, params.baseBranch),
+  };
+  if (params.template) return renderPromptTemplate(params.template, values);
+
+  const sections: string[] = [];
+
+  sections.push(`# Merge Conflicts: ${params.issueKey} — ${params.issueTitle}`);
+  sections.push("");
+  sections.push(
+    `\`origin/${params.baseBranch}\` has been merged into this branch and the merge stopped with conflicts. The merge is still in progress; the files below contain conflict markers in diff3 style (ours, then the common ancestor after \`|||||||\`, then theirs).`,
+  );
+  sections.push("");
+  sections.push(values.conflicts);
+  sections.push("");
+  sections.push("## Your Task");
+  sections.push("");
+  sections.push("Resolve every conflict above. Follow these guidelines:");
+  sections.push("- Read the commits on both sides (`git show <sha>`) to understand what each change was for");
+  sections.push("- Keep the intent of both sides; where they truly contradict, the base branch's behaviour wins and this branch's change is adapted to it");
+  sections.push("- Remove every conflict marker and `git add` each resolved file");
+  sections.push("- Check that the code still builds and type-checks after the merge");
+  sections.push("- Do not commit, abort the merge or rebase — the merge commit is made for you");
+  sections.push("- If a conflict can't be resolved with confidence, leave its markers in place and explain why in your summary");
+  sections.push("");
+
+  return sections.join("\n");
+}
+
+/**
+ * Wrap a task prompt for a resumed session that was previously stopped
+ * before finishing (e.g. by the spend guard).
+ */
+export function buildResumePrompt(params: {
+  taskPrompt: string;
+  reason: string;
+}): string {
+  const sections: string[] = [];
+
+  sections.push("# Resuming Previous Session");
+  sections.push("");
+  sections.push(params.reason);
+  sections.push("");
+  sections.push(
+    "Continue from where you left off. Do not redo work that is already done — check the current state of the worktree first.",
+  );
+  sections.push("");
+  sections.push("For reference, the original task was:");
+  sections.push("");
+  sections.push(params.taskPrompt);
+
+  return sections.join("\n");
+}
+
+/**
+ * Describe the other repos of a cross-repo task: what earlier sessions changed
+ * and which repos are still to come, so this session stays in its lane.
+ */
+export function buildCrossRepoSection(params: {
+  currentRepo: string;
+  completed: { repoName: string; changeSummary: string }[];
+  laterRepos: string[];
+}): string {
+  const sections: string[] = [];
+
+  sections.push("## Cross-Repo Task");
+  sections.push("");
+  sections.push(
+    `This issue spans several repositories, each implemented in its own session and pull request. In this session, only change **${params.currentRepo}**.`,
+  );
+  sections.push("");
+
+  for (const repo of params.completed) {
+    sections.push(`### Already implemented in ${repo.repoName}`);
+    sections.push("");
+    sections.push("```");
+    sections.push(repo.changeSummary || "(no changes)");
+    sections.push("```");
+    sections.push("");
+  }
+
+  if (params.laterRepos.length > 0) {
+    sections.push(
+      `The following repositories will be handled in later sessions: ${params.laterRepos.join(", ")}. Keep shared interfaces (API shapes, message formats, names) explicit so they can match.`,
+    );
+    sections.push("");
+  }
+
+  return sections.join("\n");
+}
+
+/**
+ * Describe the issue's linked Figma designs. The renders themselves are
+ * attached to the prompt as images, in the same order.
+ */
+export function buildFigmaSection(designs: FigmaDesign[]): string {
+  if (designs.length === 0) return "";
+  const sections: string[] = [];
+
+  sections.push("## Figma Designs");
+  sections.push("");
+  sections.push(
+    "The issue links these designs. Each one that could be rendered is attached as an image, in this order; match them as closely as the codebase allows.",
+  );
+  sections.push("");
+
+  designs.forEach((design, index) => {
+    sections.push(`### ${index + 1}. ${design.name}`);
+    sections.push("");
+    sections.push(`URL: ${design.url}`);
+    if (design.error) {
+      sections.push(`Could not be fetched: ${design.error}`);
+    } else if (design.imagePath) {
+      sections.push(
+        design.imageBase64
+          ? `Render: attached, and saved at \`${design.imagePath}\``
+          : `Render: too large to attach — read it from \`${design.imagePath}\``,
+      );
+    }
+    sections.push("");
+  });
+
+  return sections.join("\n");
+}
+
+/**
+ * List the issue's screenshots that are attached to the prompt, so Claude can
+ * match each image to where it was posted.
+ */
+export function buildIssueImagesSection(images: IssueImage[]): string {
+  if (images.length === 0) return "";
+  const sections: string[] = [];
+
+  sections.push("## Attached Screenshots");
+  sections.push("");
+  sections.push(
+    "These images from the issue are attached after any Figma designs, in this order. Their `uploads.linear.app` links above need authentication — use the attachments instead.",
+  );
+  sections.push("");
+  images.forEach((image, index) => {
+    sections.push(
+      `${index + 1}. ${image.alt ? `${image.alt} — ` : ""}${image.source}`,
+    );
+  });
+  sections.push("");
+
+  return sections.join("\n");
+}
+
+/**
+ * Build a prompt asking Claude to write a PR title and description from the
+ * branch's actual changes, following the repo's PR template when there is one.
+ */
+export function buildPullRequestDescriptionPrompt(params: {
+  issue: { identifier: string; title: string; description?: string | null };
+  repoName: string;
+  diff: string;
+  plan?: string | null;
+  summary?: string;
+  template?: string | null;
+}): string {
+  const sections: string[] = [];
+
+  sections.push(
+    `# Write a Pull Request Description: ${params.issue.identifier} — ${params.issue.title}`,
+  );
+  sections.push("");
+  sections.push(`**Repository:** ${params.repoName}`);
+  sections.push("");
+
+  if (params.issue.description) {
+    sections.push("## Issue Description");
+    sections.push("");
+    sections.push(params.issue.description);
+    sections.push("");
+  }
+
+  if (params.plan) {
+    sections.push("## Implementation Plan");
+    sections.push("");
+    sections.push(params.plan);
+    sections.push("");
+  }
+
+  if (params.summary) {
+    sections.push("## Summary From the Implementing Session");
+    sections.push("");
+    sections.push(params.summary);
+    sections.push("");
+  }
+
+  sections.push("## Diff");
+  sections.push("");
+  sections.push("```diff");
+  sections.push(params.diff || "(no changes)");
+  sections.push("```");
+  sections.push("");
+
+  if (params.template) {
+    sections.push("## Pull Request Template");
+    sections.push("");
+    sections.push(
+      "The repository uses this template. Fill in every section from the changes above; leave checklists unticked unless the diff shows the item is done, and drop sections that do not apply only if the template says they are optional.",
+    );
+    sections.push("");
+    sections.push("```markdown");
+    sections.push(params.template);
+    sections.push("```");
+    sections.push("");
+  }
+
+  sections.push("## Your Task");
+  sections.push("");
+  sections.push(
+    "Write the pull request title and description. Describe what actually changed and why, based on the diff — not just the issue. Mention anything a reviewer should look at closely.",
+  );
+  sections.push("");
+  sections.push("Reply with exactly this format and nothing else:");
+  sections.push("");
+  sections.push("TITLE: <one-line title, without the issue key>");
+  sections.push("");
+  sections.push("<description in markdown>");
+  sections.push("");
+
+  return sections.join("\n");
+}
+
+/**
+ * Build a prompt for the pre-PR review: a fresh session reads the branch's
+ * diff with the issue and plan, and reports findings as JSON.
+ */
+export function buildSelfReviewPrompt(params: {
+  issue: { identifier: string; title: string; description?: string | null };
+  repoName: string;
+  baseBranch: string;
+  diff: string;
+  plan?: string | null;
+}): string {
+  const sections: string[] = [];
+
+  sections.push(
+    `# Review a Change Before It Is Opened as a PR: ${params.issue.identifier} — ${params.issue.title}`,
+  );
+  sections.push("");
+  sections.push(`**Repository:** ${params.repoName}`);
+  sections.push(`**Base Branch:** ${params.baseBranch}`);
+  sections.push("");
+  sections.push(
+    "Another engineer implemented the issue below on this branch. You are reviewing their work before the pull request is opened. You have not seen their session — judge the change only by the issue, the plan and the code.",
+  );
+  sections.push("");
+
+  if (params.issue.description) {
+    sections.push("## Issue Description");
+    sections.push("");
+    sections.push(params.issue.description);
+    sections.push("");
+  }
+
+  if (params.plan) {
+    sections.push("## Implementation Plan");
+    sections.push("");
+    sections.push(params.plan);
+    sections.push("");
+  }
+
+  sections.push(`## Diff Against ${params.baseBranch}`);
+  sections.push("");
+  sections.push("```diff");
+  sections.push(params.diff || "(no changes)");
+  sections.push("```");
+  sections.push("");
+
+  sections.push("## Your Task");
+  sections.push("");
+  sections.push(
+    "Review the diff. Read the surrounding code in the working directory where you need more context; do not modify any files. Look for:",
+  );
+  sections.push(
+    "- `bug`: incorrect behaviour, unhandled cases, or the issue not actually being solved",
+  );
+  sections.push(
+    "- `missing_tests`: changed behaviour the repo's existing tests would normally cover but don't",
+  );
+  sections.push("- `unrelated_change`: edits the issue doesn't call for");
+  sections.push(
+    "- `style`: departures from the conventions of the surrounding code",
+  );
+  sections.push("");
+  sections.push(
+    "Mark a finding as blocking only if the PR should not be opened without fixing it. Report only real problems — an empty list is a fine answer.",
+  );
+  sections.push("");
+  sections.push(
+    "End your final message with the findings as JSON in exactly this shape:",
+  );
+  sections.push("");
+  sections.push("```json");
+  sections.push(
+    '{"findings":[{"category":"bug","blocking":true,"path":"src/file.ts","line":42,"description":"One or two sentences on the problem"}]}',
+  );
+  sections.push("```");
+  sections.push("");
+
+  return sections.join("\n");
+}
+
+/**
+ * Build a prompt sending the pre-PR review's blocking findings back to the
+ * session that implemented the change.
+ */
+export function buildReviewFindingsFixPrompt(
+  findings: ReviewFinding[],
+): string {
+  const sections: string[] = [];
+
+  sections.push("# Review Findings to Fix");
+  sections.push("");
+  sections.push(
+    "A reviewer went over your changes before the pull request is opened and found these blocking problems:",
+  );
+  sections.push("");
+  for (const finding of findings) {
+    sections.push(`- ${describeReviewFinding(finding)}`);
+  }
+  sections.push("");
+  sections.push("## Your Task");
+  sections.push("");
+  sections.push("Fix each finding above. Follow these guidelines:");
+  sections.push(
+    "- If a finding is wrong, leave the code as it is and say why in your final message",
+  );
+  sections.push(
+    "- Keep the fixes focused; don't rework unrelated parts of the change",
+  );
+  sections.push("- Make focused commits with clear messages");
+  sections.push("");
+
+  return sections.join("\n");
+}
+
+/**
+ * Build a prompt for drafting a review of a teammate's pull request. The
+ * session runs read-only in a checkout of the PR's head and replies with the
+ * review as JSON, which is edited before anything is submitted.
+ */
+export function buildPullRequestReviewPrompt(params: {
+  pr: { number: number; title: string; body: string | null; author: string };
+  repoName: string;
+  baseBranch: string;
+  diff: string;
+}): string {
+  const sections: string[] = [];
+
+  sections.push(
+    `# Review Pull Request #${params.pr.number}: ${params.pr.title}`,
+  );
+  sections.push("");
+  sections.push(`**Repository:** ${params.repoName}`);
+  sections.push(`**Author:** @${params.pr.author}`);
+  sections.push(`**Base Branch:** ${params.baseBranch}`);
+  sections.push("");
+  sections.push(
+    "The working directory is a checkout of this pull request's head. Your review is a draft: a teammate will edit it before it is submitted.",
+  );
+  sections.push("");
+
+  if (params.pr.body) {
+    sections.push("## Pull Request Description");
+    sections.push("");
+    sections.push(params.pr.body);
+    sections.push("");
+  }
+
+  sections.push(`## Diff Against ${params.baseBranch}`);
+  sections.push("");
+  sections.push("```diff");
+  sections.push(params.diff || "(no changes)");
+  sections.push("```");
+  sections.push("");
+
+  sections.push("## Your Task");
+  sections.push("");
+  sections.push(
+    "Review the change as a careful senior engineer on this codebase. Read the surrounding code where you need more context; do not modify any files. Follow these guidelines:",
+  );
+  sections.push(
+    "- Focus on correctness, missed cases, tests and maintainability; skip nitpicks a formatter or linter would catch",
+  );
+  sections.push(
+    "- Put each point about specific code in an inline comment on the line it concerns, using the line number on the new side of the diff",
+  );
+  sections.push(
+    "- Keep comments short and actionable, and say why something matters",
+  );
+  sections.push(
+    "- Use the summary for the overall assessment and anything not tied to one line",
+  );
+  sections.push(
+    "- Verdict is `APPROVE` if it can merge as is, `REQUEST_CHANGES` if something must be fixed first, otherwise `COMMENT`",
+  );
+  sections.push("");
+  sections.push(
+    "End your final message with the review as JSON in exactly this shape:",
+  );
+  sections.push("");
+  sections.push("```json");
+  sections.push(
+    '{"summary":"Overall assessment in markdown","verdict":"COMMENT","comments":[{"path":"src/file.ts","line":42,"body":"Comment in markdown"}]}',
+  );
+  sections.push("```");
+  sections.push("");
+
+  return sections.join("\n");
+}
+
+/**
+ * Build a prompt asking Claude to summarise a staged diff as a
+ * conventional-commit message.
+ */
+export function buildCommitMessagePrompt(params: {
+  issueKey: string;
+  issueTitle: string;
+  stagedDiff: string;
+  scope?: string;
+  addressedComments?: AddressedComment[];
+}): string {
+  const sections: string[] = [];
+
+  sections.push(`# Write a Commit Message: ${params.issueKey} — ${params.issueTitle}`);
+  sections.push("");
+
+  if (params.addressedComments?.length) {
+    sections.push("## Review Comments Being Addressed");
+    sections.push("");
+    for (const comment of params.addressedComments) {
+      sections.push(`- @${comment.author}${comment.path ? ` on ${comment.path}` : ""}: ${comment.body}`);
+    }
+    sections.push("");
+  }
+
+  sections.push("## Staged Diff");
+  sections.push("");
+  sections.push("```diff");
+  sections.push(params.stagedDiff);
+  sections.push("```");
+  sections.push("");
+  sections.push("## Your Task");
+  sections.push("");
+  sections.push("Summarise the staged diff as a Conventional Commits message:");
+  sections.push(
+    params.scope
+      ? `- Subject line: \`<type>(${params.scope}): <description>\``
+      : "- Subject line: `<type>(<optional scope>): <description>`",
+  );
+  sections.push("- Type is one of feat, fix, refactor, perf, test, docs, style, build, ci, chore");
+  sections.push("- Description is imperative, lower case, no trailing period, under 72 characters overall");
+  sections.push("- Optionally a blank line and a short body explaining what changed and why");
+  sections.push("- Do not mention the issue key or the review comments — they are added automatically");
+  sections.push("");
+  sections.push("Reply with the commit message only, no code fences or commentary.");
+  sections.push("");
+
+  return sections.join("\n");
+}
@@ -0,0 +1,90 @@
+import type {
+  GitHubDraftReviewComment,
+  GitHubReviewEvent,
+  PullRequestReviewDraft,
+} from "../types/github";
+import { parseJsonReply } from "./json-reply";
+
+const VERDICTS: GitHubReviewEvent[] = ["COMMENT", "APPROVE", "REQUEST_CHANGES"];
+
+/**
+ * Lines on the new side of a unified diff that GitHub accepts inline
+ * comments on (added and context lines inside a hunk), by file path.
+ */
+export function commentableLines(diff: string): Map<string, Set<number>> {
+  const files = new Map<string, Set<number>>();
+  let current: Set<number> | null = null;
+  let inHunk = false;
+  let newLine = 0;
+
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("diff --git ")) {
+      current = null;
+      inHunk = false;
+      continue;
+    }
+    if (!inHunk && line.startsWith("+++ ")) {
+      const path = line.slice(4).replace(/^b\//, "");
+      current = path === "/dev/null" ? null : new Set();
+      if (current) files.set(path, current);
+      continue;
+    }
+    const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (hunk) {
+      newLine = Number(hunk[1]);
+      inHunk = true;
+      continue;
+    }
+    if (!current || !inHunk) continue;
+    // Removed lines and "\ No newline at end of file" don't exist on the new side
+    if (line.startsWith("+") || line.startsWith(" ")) {
+      current.add(newLine);
+      newLine++;
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Read Claude's draft review from its final message. Inline comments on lines
+ * outside the diff can't be posted inline, so they are moved into the
+ * summary. Returns null when the reply has no draft at all.
+ */
+export function parseReviewDraft(
+  text: string,
+  diff: string,
+): PullRequestReviewDraft | null {
+  const parsed = parseJsonReply(text) as {
+    summary?: unknown;
+    verdict?: unknown;
+    comments?: unknown;
+  } | null;
+  if (!parsed || typeof parsed.summary !== "string") return null;
+
+  const lines = commentableLines(diff);
+  const inline: GitHubDraftReviewComment[] = [];
+  const outside: string[] = [];
+  for (const c of Array.isArray(parsed.comments) ? parsed.comments : []) {
+    const { path, line, body } = (c ?? {}) as Record<string, unknown>;
+    if (typeof path !== "string" || typeof body !== "string") continue;
+    if (typeof line === "number" && lines.get(path)?.has(line)) {
+      inline.push({ path, line, body });
+    } else {
+      outside.push(
+        `- \`${path}${typeof line === "number" ? `:${line}` : ""}\`: ${body}`,
+      );
+    }
+  }
+
+  return {
+    summary:
+      outside.length > 0
+        ? [parsed.summary.trim(), "", ...outside].join("\n")
+        : parsed.summary.trim(),
+    verdict: VERDICTS.includes(parsed.verdict as GitHubReviewEvent)
+      ? (parsed.verdict as GitHubReviewEvent)
+      : "COMMENT",
+    comments: inline,
+  };
+}
@@ -0,0 +1,93 @@
+import type { ReviewFinding, SelfReviewResult } from "../types/storage";
+import { parseJsonReply } from "./json-reply";
+
+const CATEGORY_LABELS: Record<ReviewFinding["category"], string> = {
+  bug: "Bug",
+  missing_tests: "Missing tests",
+  unrelated_change: "Unrelated change",
+  style: "Style",
+};
+
+const CATEGORIES = Object.keys(CATEGORY_LABELS) as ReviewFinding["category"][];
+
+/**
+ * Read the reviewer's findings from its final message: a JSON object with a
+ * `findings` array, optionally in a ```json fence. Malformed entries are
+ * dropped; returns null when there is no such object at all.
+ */
+export function parseReviewFindings(text: string): ReviewFinding[] | null {
+  const parsed = parseJsonReply(text);
+  const findings = (parsed as { findings?: unknown } | null)?.findings;
+  if (!Array.isArray(findings)) return null;
+
+  return findings.flatMap((f): ReviewFinding[] => {
+    if (typeof f !== "object" || f === null) return [];
+    const { category, blocking, path, line, description } = f as Record<
+      string,
+      unknown
+    >;
+    if (
+      !CATEGORIES.includes(category as ReviewFinding["category"]) ||
+      typeof description !== "string"
+    ) {
+      return [];
+    }
+    return [
+      {
+        category: category as ReviewFinding["category"],
+        blocking: blocking === true,
+        path: typeof path === "string" ? path : undefined,
+        line: typeof line === "number" ? line : undefined,
+        description,
+      },
+    ];
+  });
+}
+
+/** "**Bug** `src/app.ts:12` — what is wrong" */
+export function describeReviewFinding(finding: ReviewFinding): string {
+  const location = finding.path
+    ? ` \`${finding.path}${finding.line ? `:${finding.line}` : ""}\``
+    : "";
+  return `**${CATEGORY_LABELS[finding.category]}**${location} — ${finding.description}`;
+}
+
+/**
+ * Body of the review posted on the new PR, so human reviewers can see what
+ * the pre-PR review already caught and what it left for them.
+ */
+export function formatSelfReviewMarkdown(result: SelfReviewResult): string {
+  const blocking = result.findings.filter((f) => f.blocking);
+  const remaining = result.findings.filter((f) => !f.blocking);
+  const lines = [
+    "### Pre-PR self-review",
+    "",
+    "A separate Claude session, without the implementer's context, reviewed this diff against the issue and plan for bugs, missing tests, unrelated changes and style violations.",
+    "",
+  ];
+
+  if (blocking.length > 0) {
+    lines.push(
+      result.fixesRequested
+        ? "**Fixed before opening:**"
+        : "**Blocking, not yet fixed:**",
+    );
+    lines.push("");
+    for (const finding of blocking) {
+      lines.push(`- ${describeReviewFinding(finding)}`);
+    }
+    lines.push("");
+  }
+
+  if (remaining.length > 0) {
+    lines.push("**For human reviewers:**");
+    lines.push("");
+    for (const finding of remaining) {
+      lines.push(`- ${describeReviewFinding(finding)}`);
+    }
+  } else {
+    lines.push("No further findings.");
+  }
+
+  return lines.join("\n");
+}
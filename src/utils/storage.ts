@@ -3,12 +3,18 @@
  * All functions are async and safe to call from both view and no-view commands.
  */
 import { LocalStorage } from "@raycast/api";
+import { randomUUID } from "crypto";
 import fs from "fs";
 import path from "path";
-import type {
-  TaskState,
-  TaskStatus,
-  OrchestrationParams,
+import {
+  ACTIVE_TASK_STATUSES,
+  CHECKPOINT_STATUSES,
+  type TaskState,
+  type TaskStatus,
+  type OrchestrationParams,
+  type QueuedTask,
+  type ModelAttempt,
+  type RunTelemetry,
 } from "../types/storage";
 
 /**
@@ -39,12 +45,22 @@ export function sanitizeUnicode(str: string): string {
 const TASK_PREFIX = "task:";
 const ORCH_PREFIX = "orch:";
 const CANCEL_PREFIX = "cancel:";
+const STEER_PREFIX = "steer:";
+const HEARTBEAT_PREFIX = "heartbeat:";
+const TELEMETRY_PREFIX = "telemetry:";
+const QUEUE_KEY = "queue";
+const LAUNCH_CLAIM_PREFIX = "launch-claim:";
 
 export async function getTask(issueKey: string): Promise<TaskState | null> {
-  const raw = await LocalStorage.getItem<string>(`${TASK_PREFIX}${issueKey}`);
+  const [raw, heartbeat] = await Promise.all([
+    LocalStorage.getItem<string>(`${TASK_PREFIX}${issueKey}`),
+    LocalStorage.getItem<string>(`${HEARTBEAT_PREFIX}${issueKey}`),
+  ]);
   if (!raw) return null;
   try {
-    return JSON.parse(raw) as TaskState;
+    const task = JSON.parse(raw) as TaskState;
+    if (heartbeat) task.heartbeatAt = Number(heartbeat);
+    return task;
   } catch {
     return null;
   }
@@ -67,6 +83,12 @@ export async function updateTaskStatus(
   if (!task) return null;
   task.status = status;
   if (extra) Object.assign(task, extra);
+  if (CHECKPOINT_STATUSES.has(status)) {
+    const checkpoints = task.checkpoints ?? [];
+    if (!checkpoints.includes(status)) {
+      task.checkpoints = [...checkpoints, status];
+    }
+  }
   await saveTask(task);
 
   if (status === "complete" || status === "error") {
@@ -91,13 +113,26 @@ export async function appendProgressLog(
   await saveTask(task);
 }
 
+export async function appendModelAttempt(
+  issueKey: string,
+  attempt: ModelAttempt,
+): Promise<void> {
+  const task = await getTask(issueKey);
+  if (!task) return;
+  task.modelAttempts = [...(task.modelAttempts ?? []), attempt];
+  await saveTask(task);
+}
+
 export async function getAllTasks(): Promise<TaskState[]> {
   const all = await LocalStorage.allItems();
   const tasks: TaskState[] = [];
   for (const [key, value] of Object.entries(all)) {
     if (key.startsWith(TASK_PREFIX)) {
       try {
-        tasks.push(JSON.parse(value as string) as TaskState);
+        const task = JSON.parse(value as string) as TaskState;
+        const heartbeat = all[`${HEARTBEAT_PREFIX}${task.issueKey}`];
+        if (heartbeat) task.heartbeatAt = Number(heartbeat);
+        tasks.push(task);
       } catch {
         // skip malformed entries
       }
@@ -108,6 +143,8 @@ export async function getAllTasks(): Promise<TaskState[]> {
 
 export async function removeTask(issueKey: string): Promise<void> {
   await LocalStorage.removeItem(`${TASK_PREFIX}${issueKey}`);
+  await LocalStorage.removeItem(`${TELEMETRY_PREFIX}${issueKey}`);
+  await LocalStorage.removeItem(`${LAUNCH_CLAIM_PREFIX}${issueKey}`);
 }
 
 export function createInitialTaskState(params: {
@@ -118,6 +155,9 @@ export function createInitialTaskState(params: {
   branchName: string;
   worktreePath: string;
   baseBranch: string;
+  priority?: number;
+  batchId?: string;
+  labels?: string[];
 }): TaskState {
   return {
     taskId: params.issueKey,
@@ -128,7 +168,11 @@ export function createInitialTaskState(params: {
     branchName: params.branchName,
     worktreePath: params.worktreePath,
     baseBranch: params.baseBranch,
+    priority: params.priority,
+    batchId: params.batchId,
+    labels: params.labels,
     status: "initializing",
+    checkpoints: [],
     createdAt: Date.now(),
     updatedAt: Date.now(),
     progressLog: [],
@@ -167,6 +211,43 @@ export async function clearOrchestrationParams(
   await LocalStorage.removeItem(`${ORCH_PREFIX}${issueKey}`);
 }
 
+// ---------------------------------------------------------------------------
+// Launch queue
+// ---------------------------------------------------------------------------
+
+export async function getQueue(): Promise<QueuedTask[]> {
+  const raw = await LocalStorage.getItem<string>(QUEUE_KEY);
+  if (!raw) return [];
+  try {
+    return JSON.parse(raw) as QueuedTask[];
+  } catch {
+    return [];
+  }
+}
+
+export async function saveQueue(queue: QueuedTask[]): Promise<void> {
+  await LocalStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+}
+
+/**
+ * Claim a queue entry for launching, so callers racing over the same queue
+ * launch it once. The claim is tied to the entry's enqueue time, so a task
+ * queued again later can be claimed afresh.
+ *
+ * LocalStorage has no compare-and-set: the claim is written and read back,
+ * and only the caller whose write is still there goes ahead.
+ */
+export async function claimQueuedTask(entry: QueuedTask): Promise<boolean> {
+  const key = `${LAUNCH_CLAIM_PREFIX}${entry.issueKey}`;
+  const prefix = `${entry.enqueuedAt}:`;
+  const existing = await LocalStorage.getItem<string>(key);
+  if (existing?.startsWith(prefix)) return false;
+
+  const claim = `${prefix}${randomUUID()}`;
+  await LocalStorage.setItem(key, claim);
+  return (await LocalStorage.getItem<string>(key)) === claim;
+}
+
 // ---------------------------------------------------------------------------
 // Cancellation flags
 // ---------------------------------------------------------------------------
@@ -186,6 +267,121 @@ export async function clearCancellation(issueKey: string): Promise<void> {
   await LocalStorage.removeItem(`${CANCEL_PREFIX}${issueKey}`);
 }
 
+// ---------------------------------------------------------------------------
+// Steering messages
+// ---------------------------------------------------------------------------
+
+/**
+ * Queue a message for the task's live Claude session. The worker picks it up
+ * on its next poll and streams it into the session as a user message.
+ *
+ * Each message gets its own key under an increasing sequence number, so the
+ * worker only ever removes messages it has read.
+ */
+export async function queueSteeringMessage(
+  issueKey: string,
+  text: string,
+): Promise<void> {
+  const seqKey = `${STEER_PREFIX}${issueKey}:seq`;
+  const seq = Number((await LocalStorage.getItem<string>(seqKey)) ?? 0) + 1;
+  // Write the message before publishing its number
+  await LocalStorage.setItem(
+    `${STEER_PREFIX}${issueKey}:${seq}`,
+    sanitizeUnicode(text),
+  );
+  await LocalStorage.setItem(seqKey, String(seq));
+}
+
+/** Remove and return the task's pending steering messages, oldest first. */
+export async function takeSteeringMessages(
+  issueKey: string,
+): Promise<string[]> {
+  const seqKey = `${STEER_PREFIX}${issueKey}:seq`;
+  const takenKey = `${STEER_PREFIX}${issueKey}:taken`;
+  const [seq, taken] = await Promise.all([
+    LocalStorage.getItem<string>(seqKey),
+    LocalStorage.getItem<string>(takenKey),
+  ]);
+  const last = Number(seq ?? 0);
+  const first = Number(taken ?? 0) + 1;
+  if (first > last) return [];
+
+  const messages: string[] = [];
+  for (let id = first; id <= last; id++) {
+    const key = `${STEER_PREFIX}${issueKey}:${id}`;
+    const text = await LocalStorage.getItem<string>(key);
+    if (text !== undefined) messages.push(text);
+    await LocalStorage.removeItem(key);
+  }
+  await LocalStorage.setItem(takenKey, String(last));
+  return messages;
+}
+
+// ---------------------------------------------------------------------------
+// Worker heartbeats
+// ---------------------------------------------------------------------------
+
+/** How often a running worker reports in. */
+export const HEARTBEAT_INTERVAL_MS = 10_000;
+
+/** A task whose worker has been silent this long is considered stalled. */
+const STALL_THRESHOLD_MS = 60_000;
+
+/**
+ * Heartbeats live under their own key rather than inside the task JSON so the
+ * timer never races the orchestrator's read-modify-write of the task.
+ */
+export async function recordHeartbeat(issueKey: string): Promise<void> {
+  await LocalStorage.setItem(
+    `${HEARTBEAT_PREFIX}${issueKey}`,
+    String(Date.now()),
+  );
+}
+
+export async function clearHeartbeat(issueKey: string): Promise<void> {
+  await LocalStorage.removeItem(`${HEARTBEAT_PREFIX}${issueKey}`);
+}
+
+/**
+ * True when the task claims to be running but its worker has stopped
+ * reporting in (e.g. the run-orchestration process died).
+ */
+export function isTaskStalled(task: TaskState, now = Date.now()): boolean {
+  if (!ACTIVE_TASK_STATUSES.has(task.status)) return false;
+  const lastSeen = Math.max(task.heartbeatAt ?? 0, task.updatedAt);
+  return now - lastSeen > STALL_THRESHOLD_MS;
+}
+
+// ---------------------------------------------------------------------------
+// Run telemetry
+// ---------------------------------------------------------------------------
+
+/** Oldest runs are dropped beyond this, like the progress log. */
+const MAX_TELEMETRY_RUNS = 100;
+
+export async function getTelemetry(issueKey: string): Promise<RunTelemetry[]> {
+  const raw = await LocalStorage.getItem<string>(
+    `${TELEMETRY_PREFIX}${issueKey}`,
+  );
+  if (!raw) return [];
+  try {
+    return JSON.parse(raw) as RunTelemetry[];
+  } catch {
+    return [];
+  }
+}
+
+export async function appendRunTelemetry(
+  issueKey: string,
+  run: RunTelemetry,
+): Promise<void> {
+  const runs = [...(await getTelemetry(issueKey)), run];
+  await LocalStorage.setItem(
+    `${TELEMETRY_PREFIX}${issueKey}`,
+    JSON.stringify(runs.slice(-MAX_TELEMETRY_RUNS)),
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Log file persistence
 // ---------------------------------------------------------------------------
@@ -204,6 +400,15 @@ async function saveTaskLogFile(task: TaskState): Promise<void> {
     const filename = `${task.issueKey}_${timestamp}.log`;
     const filepath = path.join(logFilesPath, filename);
 
+    const runs = await getTelemetry(task.issueKey);
+    const costByModel = new Map<string, number>();
+    for (const run of runs) {
+      costByModel.set(
+        run.model,
+        (costByModel.get(run.model) ?? 0) + run.costUsd,
+      );
+    }
+
     const header = [
       `Task: ${task.issueKey}`,
       `Summary: ${task.issueSummary}`,
@@ -213,7 +418,17 @@ async function saveTaskLogFile(task: TaskState): Promise<void> {
       `Created: ${new Date(task.createdAt).toISOString()}`,
       `Updated: ${new Date(task.updatedAt).toISOString()}`,
       task.prUrl ? `PR: ${task.prUrl}` : null,
+      task.prCreatedAt
+        ? `PR Created: ${new Date(task.prCreatedAt).toISOString()}`
+        : null,
+      task.mergedAt ? `Merged: ${new Date(task.mergedAt).toISOString()}` : null,
       task.costUsd !== undefined ? `Cost: $${task.costUsd.toFixed(2)}` : null,
+      runs.length
+        ? `Turns: ${runs.reduce((sum, r) => sum + r.turns.length, 0)}`
+        : null,
+      costByModel.size
+        ? `Model Costs: ${[...costByModel].map(([model, cost]) => `${model}=$${cost.toFixed(2)}`).join(", ")}`
+        : null,
       task.error ? `Error: ${task.error}` : null,
       "",
       "=".repeat(80),
@@ -230,3 +445,106 @@ async function saveTaskLogFile(task: TaskState): Promise<void> {
     // Silently ignore file write errors
   }
 }
+
+/** Header fields of a log file written by saveTaskLogFile. */
+export interface TaskLogSummary {
+  issueKey: string;
+  issueSummary: string;
+  repoName: string;
+  status: TaskStatus;
+  createdAt: number;
+  updatedAt: number;
+  prUrl?: string;
+  prCreatedAt?: number;
+  mergedAt?: number;
+  costUsd?: number;
+  turns?: number;
+  costByModel?: Record<string, number>;
+}
+
+/**
+ * Read back the header of every task log file, newest file per task only.
+ * Older files without a `Turns:` line have their turns counted from the
+ * `[result]` entries in the log itself.
+ */
+export async function readTaskLogSummaries(): Promise<TaskLogSummary[]> {
+  const { getConfig } = await import("./preferences");
+  const logFilesPath = getConfig().logFilesPath;
+  if (!logFilesPath) return [];
+
+  let filenames: string[];
+  try {
+    filenames = (await fs.promises.readdir(logFilesPath)).filter((f) =>
+      f.endsWith(".log"),
+    );
+  } catch {
+    return [];
+  }
+
+  const latest = new Map<string, TaskLogSummary>();
+  for (const filename of filenames) {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(
+        path.join(logFilesPath, filename),
+        "utf-8",
+      );
+    } catch {
+      continue;
+    }
+
+    const [head, ...rest] = content.split("=".repeat(80));
+    const body = rest.join("");
+    const fields = new Map<string, string>();
+    for (const line of head.split("\n")) {
+      const match = line.match(/^([A-Za-z ]+): (.*)$/);
+      if (match) fields.set(match[1], match[2]);
+    }
+    const issueKey = fields.get("Task");
+    const created = Date.parse(fields.get("Created") ?? "");
+    const updated = Date.parse(fields.get("Updated") ?? "");
+    if (!issueKey || Number.isNaN(created) || Number.isNaN(updated)) continue;
+
+    const optionalDate = (key: string) => {
+      const value = Date.parse(fields.get(key) ?? "");
+      return Number.isNaN(value) ? undefined : value;
+    };
+    const cost = fields.get("Cost");
+    const resultTurns = [...body.matchAll(/\[result\] \w+ — turns: (\d+)/g)];
+    const turns = fields.has("Turns")
+      ? Number(fields.get("Turns"))
+      : resultTurns.length
+        ? resultTurns.reduce((sum, m) => sum + Number(m[1]), 0)
+        : undefined;
+    const modelCosts = fields.get("Model Costs");
+
+    const summary: TaskLogSummary = {
+      issueKey,
+      issueSummary: fields.get("Summary") ?? "",
+      repoName: fields.get("Repository") ?? "",
+      status: (fields.get("Status") ?? "error") as TaskStatus,
+      createdAt: created,
+      updatedAt: updated,
+      prUrl: fields.get("PR"),
+      prCreatedAt: optionalDate("PR Created"),
+      mergedAt: optionalDate("Merged"),
+      costUsd: cost ? parseFloat(cost.replace("$", "")) : undefined,
+      turns,
+      costByModel: modelCosts
+        ? Object.fromEntries(
+            modelCosts.split(", ").map((entry) => {
+              const [model, value] = entry.split("=$");
+              return [model, parseFloat(value)];
+            }),
+          )
+        : undefined,
+    };
+
+    const existing = latest.get(issueKey);
+    if (!existing || existing.updatedAt < summary.updatedAt) {
+      latest.set(issueKey, summary);
+    }
+  }
+
+  return [...latest.values()];
+}
@@ -0,0 +1,102 @@
+import type {
+  ClaudePhase,
+  RunTelemetry,
+  TurnTelemetry,
+} from "../types/storage";
+
+export interface TokenTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+}
+
+export interface PhaseSummary extends TokenTotals {
+  phase: ClaudePhase;
+  runs: number;
+  turns: number;
+  costUsd: number;
+}
+
+export interface ToolSummary {
+  tool: string;
+  calls: number;
+  errors: number;
+  totalMs: number;
+  slowestMs: number;
+}
+
+export function sumTokens(turns: TurnTelemetry[]): TokenTotals {
+  const totals: TokenTotals = {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheCreationTokens: 0,
+  };
+  for (const turn of turns) {
+    totals.inputTokens += turn.inputTokens;
+    totals.outputTokens += turn.outputTokens;
+    totals.cacheReadTokens += turn.cacheReadTokens;
+    totals.cacheCreationTokens += turn.cacheCreationTokens;
+  }
+  return totals;
+}
+
+/** Token and cost totals per phase, in the order phases first ran. */
+export function summariseByPhase(runs: RunTelemetry[]): PhaseSummary[] {
+  const byPhase = new Map<ClaudePhase, PhaseSummary>();
+  for (const run of runs) {
+    const summary = byPhase.get(run.phase) ?? {
+      phase: run.phase,
+      runs: 0,
+      turns: 0,
+      costUsd: 0,
+      ...sumTokens([]),
+    };
+    const tokens = sumTokens(run.turns);
+    summary.runs++;
+    summary.turns += run.turns.length;
+    summary.costUsd += run.costUsd;
+    summary.inputTokens += tokens.inputTokens;
+    summary.outputTokens += tokens.outputTokens;
+    summary.cacheReadTokens += tokens.cacheReadTokens;
+    summary.cacheCreationTokens += tokens.cacheCreationTokens;
+    byPhase.set(run.phase, summary);
+  }
+  return [...byPhase.values()];
+}
+
+/** Call counts and timings per tool, most time-consuming first. */
+export function summariseByTool(runs: RunTelemetry[]): ToolSummary[] {
+  const byTool = new Map<string, ToolSummary>();
+  for (const call of runs.flatMap((r) => r.toolCalls)) {
+    const summary = byTool.get(call.tool) ?? {
+      tool: call.tool,
+      calls: 0,
+      errors: 0,
+      totalMs: 0,
+      slowestMs: 0,
+    };
+    summary.calls++;
+    if (call.isError) summary.errors++;
+    summary.totalMs += call.durationMs;
+    summary.slowestMs = Math.max(summary.slowestMs, call.durationMs);
+    byTool.set(call.tool, summary);
+  }
+  return [...byTool.values()].sort((a, b) => b.totalMs - a.totalMs);
+}
+
+/** 1234 → "1.2k", 2_500_000 → "2.5M". */
+export function formatTokenCount(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+  return String(count);
+}
+
+/** 850 → "850ms", 95_000 → "1m 35s". */
+export function formatDuration(ms: number): string {
+  if (ms < 1_000) return `${ms}ms`;
+  const seconds = Math.round(ms / 1_000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
@@ -0,0 +1,261 @@
+import os from "os";
+import path from "path";
+import type { RepoConfig, ToolPolicyConfig } from "../types/preferences";
+
+/** A repo's tool policy with the built-in rules merged in. */
+export interface ToolPolicy {
+  /** When non-empty, every other tool is denied. */
+  allowedTools: string[];
+  deniedTools: string[];
+  blockedCommands: string[];
+  /** Absolute paths that file-writing tools and Bash must never write to. */
+  protectedPaths: string[];
+}
+
+/**
+ * Blocked in every repo, on top of the repo's own list. Force pushes are
+ * blocked too, but need their own check (see isForcePush).
+ */
+const DEFAULT_BLOCKED_COMMANDS = ["rm -rf /", "rm -rf ~", "curl"];
+
+/** Commands that only read, so they may look inside protected paths. */
+const READ_ONLY_COMMANDS = new Set([
+  "cat",
+  "head",
+  "tail",
+  "less",
+  "ls",
+  "grep",
+  "rg",
+  "wc",
+  "diff",
+  "stat",
+  "file",
+  "tree",
+  "du",
+  "find",
+]);
+
+const READ_ONLY_GIT_SUBCOMMANDS = new Set([
+  "log",
+  "show",
+  "diff",
+  "status",
+  "blame",
+  "rev-parse",
+  "ls-files",
+  "grep",
+]);
+
+/** Tools that write the file named in their input. */
+const FILE_WRITE_TOOLS: Record<string, string> = {
+  Write: "file_path",
+  Edit: "file_path",
+  MultiEdit: "file_path",
+  NotebookEdit: "notebook_path",
+};
+
+function expandHome(p: string): string {
+  return p === "~" || p.startsWith("~/")
+    ? path.join(os.homedir(), p.slice(1))
+    : p;
+}
+
+/** Expand `~`, `$HOME` and `${HOME}` at the start of a shell word. */
+function expandShellHome(word: string): string {
+  return expandHome(word.replace(/^\$(HOME\b|\{HOME\})/, "~"));
+}
+
+function isInside(child: string, parent: string): boolean {
+  const relative = path.relative(parent, child);
+  return (
+    relative === "" ||
+    (!relative.startsWith("..") && !path.isAbsolute(relative))
+  );
+}
+
+/**
+ * The policy Claude runs under in a repo. The repo's own checkout is always
+ * protected — Claude works in a worktree and has no business in it.
+ */
+export function resolveToolPolicy(repo: RepoConfig): ToolPolicy {
+  const config: ToolPolicyConfig = repo.permissions ?? {};
+  return {
+    allowedTools: config.allowedTools ?? [],
+    deniedTools: config.deniedTools ?? [],
+    blockedCommands: [
+      ...DEFAULT_BLOCKED_COMMANDS,
+      ...(config.blockedCommands ?? []),
+    ],
+    protectedPaths: [repo.localPath, ...(config.protectedPaths ?? [])].map(
+      (p) => path.resolve(expandHome(p)),
+    ),
+  };
+}
+
+/**
+ * True if the command contains the pattern as whole words, so "curl" blocks
+ * `curl -s …` but not `curlify`, and "rm -rf /" blocks `rm -rf /` but not
+ * `rm -rf /tmp/build`.
+ */
+function commandMatches(command: string, pattern: string): boolean {
+  const normalized = command.replace(/\s+/g, " ");
+  const escaped = pattern
+    .trim()
+    .replace(/\s+/g, " ")
+    .replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^\\w-])${escaped}(?![\\w-])`).test(normalized);
+}
+
+/**
+ * Split a Bash command into its simple commands (at `&&`, `||`, `;`, `|` and
+ * newlines) as lists of unquoted words, leaving out leading `VAR=value`
+ * assignments.
+ */
+function splitCommand(command: string): string[][] {
+  return command
+    .split(/&&|\|\||[;|\n]/)
+    .map((segment) =>
+      segment
+        .trim()
+        .split(/\s+/)
+        .filter(Boolean)
+        .map((word) => word.replace(/^['"]|['"]$/g, "")),
+    )
+    .map((words) => {
+      const start = words.findIndex((w) => !/^\w+=/.test(w));
+      return start === -1 ? [] : words.slice(start);
+    })
+    .filter((words) => words.length > 0);
+}
+
+/** The git subcommand of a simple command, skipping `-C dir` and `-c key=value`. */
+function gitSubcommand(words: string[]): string | null {
+  if (words[0] !== "git") return null;
+  for (let i = 1; i < words.length; i++) {
+    if (words[i] === "-C" || words[i] === "-c") i++;
+    else if (!words[i].startsWith("-")) return words[i];
+  }
+  return null;
+}
+
+/**
+ * Whether a simple command is a force push, whatever the order of its
+ * arguments: `--force`, `--force-with-lease`, a short flag cluster with `f`
+ * (`-f`, `-fu`) or a `+refspec`.
+ */
+function isForcePush(words: string[]): boolean {
+  if (gitSubcommand(words) !== "push") return false;
+  return words.some(
+    (word) =>
+      word === "--force" ||
+      word.startsWith("--force-with-lease") ||
+      /^-[a-zA-Z]*f[a-zA-Z]*$/.test(word) ||
+      /^\+[^+]/.test(word),
+  );
+}
+
+function isReadOnly(words: string[]): boolean {
+  // Redirections write to their target
+  if (words.some((word) => /^\d*>/.test(word))) return false;
+  if (words[0] === "find") {
+    return !words.some((w) =>
+      ["-delete", "-exec", "-execdir", "-ok"].includes(w),
+    );
+  }
+  const subcommand = gitSubcommand(words);
+  if (subcommand) return READ_ONLY_GIT_SUBCOMMANDS.has(subcommand);
+  return READ_ONLY_COMMANDS.has(words[0]);
+}
+
+/**
+ * Best-effort guard against Bash commands that write to a protected path.
+ * Each word that looks like a path is resolved, after expanding `~` and
+ * `$HOME`, against the directory the command last `cd`-ed to and compared
+ * at a path boundary; so is that directory itself. Commands that only read
+ * (`cat`, `grep`, `git log`...) may look. Paths built at runtime (variables,
+ * subshells, scripts) are invisible to it, so it catches mistakes rather
+ * than enforcing the rule.
+ */
+function findProtectedWrite(
+  policy: ToolPolicy,
+  worktreePath: string,
+  command: string,
+): string | null {
+  const protectedPathOf = (target: string) =>
+    isInside(target, worktreePath)
+      ? undefined
+      : policy.protectedPaths.find((p) => isInside(target, p));
+
+  let cwd = worktreePath;
+  for (const words of splitCommand(command)) {
+    if (words[0] === "cd") {
+      cwd = path.resolve(cwd, expandShellHome(words[1] ?? "~"));
+      continue;
+    }
+    if (isReadOnly(words)) continue;
+
+    const targets = words.flatMap((word) => {
+      // `--prefix=/path` and `>/path` name a path after the operator
+      const value = word.replace(/^-[^=]*=/, "").replace(/^\d*>>?/, "");
+      return /^[~/.$]|\//.test(value)
+        ? [path.resolve(cwd, expandShellHome(value))]
+        : [];
+    });
+    for (const target of [cwd, ...targets]) {
+      const protectedPath = protectedPathOf(target);
+      if (protectedPath) return protectedPath;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check one tool call against the policy. Returns why it is denied, or null
+ * if it may run.
+ */
+export function checkToolUse(
+  policy: ToolPolicy,
+  worktreePath: string,
+  toolName: string,
+  input: Record<string, unknown>,
+): string | null {
+  if (policy.deniedTools.includes(toolName)) {
+    return `${toolName} is not allowed in this repository`;
+  }
+  if (
+    policy.allowedTools.length > 0 &&
+    !policy.allowedTools.includes(toolName)
+  ) {
+    return `${toolName} is not on this repository's allowed tools list`;
+  }
+
+  const pathKey = FILE_WRITE_TOOLS[toolName];
+  if (pathKey && typeof input[pathKey] === "string") {
+    const target = path.resolve(worktreePath, expandHome(input[pathKey]));
+    const protectedPath = policy.protectedPaths.find(
+      (p) => isInside(target, p) && !isInside(target, worktreePath),
+    );
+    if (protectedPath) {
+      return `Writing to ${protectedPath} is not allowed`;
+    }
+  }
+
+  if (toolName === "Bash" && typeof input.command === "string") {
+    const command = input.command;
+    const blocked = policy.blockedCommands.find((p) =>
+      commandMatches(command, p),
+    );
+    if (blocked) return `Commands matching "${blocked}" are blocked`;
+    if (splitCommand(command).some(isForcePush)) {
+      return "Force pushes are blocked";
+    }
+
+    const protectedPath = findProtectedWrite(policy, worktreePath, command);
+    if (protectedPath) {
+      return `Commands writing to ${protectedPath} are not allowed`;
+    }
+  }
+
+  return null;
+}
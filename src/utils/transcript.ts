@@ -0,0 +1,429 @@
+/**
+ * Full session transcripts: every SDK message of a Claude run, one JSON
+ * object per line, written next to the task log files. The progress log only
+ * keeps a one-line digest of each message; these keep everything.
+ */
+import fs from "fs";
+import path from "path";
+import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import type { ClaudePhase } from "../types/storage";
+import { getConfig } from "./preferences";
+
+/** Which run a transcript belongs to; the first line of every file. */
+export interface TranscriptRun {
+  issueKey: string;
+  repoName: string;
+  phase: ClaudePhase;
+  label: string;
+  model: string;
+}
+
+type TranscriptLine =
+  | { at: number; run: TranscriptRun }
+  | { at: number; message: SDKMessage };
+
+export interface TranscriptFile extends TranscriptRun {
+  path: string;
+  startedAt: number;
+}
+
+export interface TranscriptWriter {
+  /**
+   * The SDK doesn't echo user messages back, so the prompt and any steering
+   * messages are recorded separately.
+   */
+  appendUserMessage(text: string): Promise<void>;
+  append(message: SDKMessage): Promise<void>;
+}
+
+export interface TranscriptToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+  /** Missing when the run ended before the tool returned. */
+  result?: string;
+  isError?: boolean;
+}
+
+export interface TranscriptTurn {
+  kind: "init" | "prompt" | "assistant" | "result";
+  at: number;
+  text: string;
+  toolCalls: TranscriptToolCall[];
+}
+
+/** Content block shape from the Anthropic API (not importing the type directly). */
+interface ContentBlock {
+  type: string;
+  text?: string;
+  thinking?: string;
+  name?: string;
+  id?: string;
+  input?: Record<string, unknown>;
+  tool_use_id?: string;
+  content?: string | ContentBlock[];
+  is_error?: boolean;
+}
+
+const COLLAPSED_RESULT_LINES = 12;
+
+/**
+ * Start a transcript file for a run. Returns null when LOG_FILES_PATH isn't
+ * set. Writing is best-effort: after the first failed write the rest of the
+ * run is dropped rather than failing the run.
+ */
+export async function openTranscript(
+  run: TranscriptRun,
+): Promise<TranscriptWriter | null> {
+  const logFilesPath = getConfig().logFilesPath;
+  if (!logFilesPath) return null;
+
+  const startedAt = Date.now();
+  const timestamp = new Date(startedAt).toISOString().replace(/[:.]/g, "-");
+  const slug = run.label.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+  const filepath = path.join(
+    logFilesPath,
+    `${run.issueKey}_${timestamp}_${slug}.jsonl`,
+  );
+
+  let broken = false;
+  const write = async (line: TranscriptLine) => {
+    if (broken) return;
+    try {
+      await fs.promises.appendFile(
+        filepath,
+        JSON.stringify(line) + "\n",
+        "utf-8",
+      );
+    } catch {
+      broken = true;
+    }
+  };
+
+  try {
+    await fs.promises.mkdir(logFilesPath, { recursive: true });
+  } catch {
+    return null;
+  }
+  await write({ at: startedAt, run });
+
+  return {
+    appendUserMessage: (text) =>
+      write({
+        at: Date.now(),
+        message: {
+          type: "user",
+          session_id: "",
+          parent_tool_use_id: null,
+          message: { role: "user", content: text },
+        },
+      }),
+    append: (message) => write({ at: Date.now(), message }),
+  };
+}
+
+/** Transcripts in the log directory, newest first, optionally for one task. */
+export async function listTranscripts(
+  issueKey?: string,
+): Promise<TranscriptFile[]> {
+  const logFilesPath = getConfig().logFilesPath;
+  if (!logFilesPath) return [];
+
+  let filenames: string[];
+  try {
+    filenames = (await fs.promises.readdir(logFilesPath)).filter(
+      (f) =>
+        f.endsWith(".jsonl") && (!issueKey || f.startsWith(`${issueKey}_`)),
+    );
+  } catch {
+    return [];
+  }
+
+  const files: TranscriptFile[] = [];
+  for (const filename of filenames) {
+    const filepath = path.join(logFilesPath, filename);
+    const header = await readFirstLine(filepath);
+    if (!header) continue;
+    try {
+      const line = JSON.parse(header) as Partial<{
+        at: number;
+        run: TranscriptRun;
+      }>;
+      if (!line.run || typeof line.at !== "number") continue;
+      if (issueKey && line.run.issueKey !== issueKey) continue;
+      files.push({ ...line.run, path: filepath, startedAt: line.at });
+    } catch {
+      // Not one of ours
+    }
+  }
+
+  return files.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+async function readFirstLine(filepath: string): Promise<string | null> {
+  let handle: fs.promises.FileHandle | undefined;
+  try {
+    handle = await fs.promises.open(filepath, "r");
+    const buffer = Buffer.alloc(4096);
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+    const text = buffer.toString("utf-8", 0, bytesRead);
+    const end = text.indexOf("\n");
+    return end === -1 ? null : text.slice(0, end);
+  } catch {
+    return null;
+  } finally {
+    await handle?.close();
+  }
+}
+
+/**
+ * Read a transcript back as turns: the session start, each prompt, each
+ * assistant response with the results of the tools it called, and the final
+ * result. Lines cut off by a crash mid-write are skipped.
+ */
+export async function readTranscript(
+  filepath: string,
+): Promise<TranscriptTurn[]> {
+  const content = await fs.promises.readFile(filepath, "utf-8");
+  const turns: TranscriptTurn[] = [];
+  // Responses with several content blocks arrive as several messages sharing an id
+  const responses = new Map<string, TranscriptTurn>();
+  const toolCalls = new Map<string, TranscriptToolCall>();
+
+  for (const raw of content.split("\n")) {
+    if (!raw.trim()) continue;
+    let line: TranscriptLine;
+    try {
+      line = JSON.parse(raw) as TranscriptLine;
+    } catch {
+      continue;
+    }
+    if (!("message" in line)) continue;
+    const { at, message } = line;
+
+    switch (message.type) {
+      case "system": {
+        if (message.subtype === "init") {
+          const init = message as Extract<SDKMessage, { subtype: "init" }>;
+          turns.push({
+            kind: "init",
+            at,
+            text: [
+              `**Model:** ${init.model}`,
+              `**Working directory:** \`${init.cwd}\``,
+              `**Tools:** ${init.tools.join(", ") || "none"}`,
+            ].join("\n\n"),
+            toolCalls: [],
+          });
+        }
+        break;
+      }
+
+      case "assistant": {
+        const apiMessage = message.message as {
+          id: string;
+          content: ContentBlock[];
+        };
+        let turn = responses.get(apiMessage.id);
+        if (!turn) {
+          turn = { kind: "assistant", at, text: "", toolCalls: [] };
+          responses.set(apiMessage.id, turn);
+          turns.push(turn);
+        }
+        for (const block of apiMessage.content) {
+          if (block.type === "text" && block.text?.trim()) {
+            turn.text = joinParagraphs(turn.text, block.text.trim());
+          }
+          if (block.type === "thinking" && block.thinking?.trim()) {
+            turn.text = joinParagraphs(
+              turn.text,
+              block.thinking
+                .trim()
+                .split("\n")
+                .map((l) => `> ${l}`)
+                .join("\n"),
+            );
+          }
+          if (block.type === "tool_use" && block.id && block.name) {
+            const call = {
+              id: block.id,
+              name: block.name,
+              input: block.input ?? {},
+            };
+            toolCalls.set(block.id, call);
+            turn.toolCalls.push(call);
+          }
+        }
+        break;
+      }
+
+      case "user": {
+        const content = (
+          message.message as { content: string | ContentBlock[] }
+        ).content;
+        if (typeof content === "string") {
+          turns.push({ kind: "prompt", at, text: content, toolCalls: [] });
+          break;
+        }
+        const text: string[] = [];
+        for (const block of content) {
+          const call =
+            block.type === "tool_result" && block.tool_use_id
+              ? toolCalls.get(block.tool_use_id)
+              : undefined;
+          if (call) {
+            call.result = blocksToText(block.content);
+            call.isError = block.is_error === true;
+          } else if (block.type === "text" && block.text) {
+            text.push(block.text);
+          }
+        }
+        if (text.length > 0) {
+          turns.push({
+            kind: "prompt",
+            at,
+            text: text.join("\n\n"),
+            toolCalls: [],
+          });
+        }
+        break;
+      }
+
+      case "result": {
+        const result = message as Extract<SDKMessage, { type: "result" }>;
+        const outcome =
+          result.subtype === "success"
+            ? result.result
+            : "errors" in result && result.errors?.length
+              ? result.errors.join("\n")
+              : "";
+        turns.push({
+          kind: "result",
+          at,
+          text: [
+            `**${result.is_error ? "Error" : "Success"}** (\`${result.subtype}\`) — turns: ${result.num_turns}, cost: $${result.total_cost_usd?.toFixed(2) ?? "?"}, duration: ${Math.round(result.duration_ms / 1000)}s`,
+            outcome,
+          ]
+            .filter(Boolean)
+            .join("\n\n"),
+          toolCalls: [],
+        });
+        break;
+      }
+
+      default:
+        break;
+    }
+  }
+
+  return turns;
+}
+
+function joinParagraphs(existing: string, next: string): string {
+  return existing ? `${existing}\n\n${next}` : next;
+}
+
+function blocksToText(content: string | ContentBlock[] | undefined): string {
+  if (content === undefined) return "";
+  if (typeof content === "string") return content;
+  return content
+    .map((block) =>
+      block.type === "text" ? (block.text ?? "") : `[${block.type}]`,
+    )
+    .join("\n");
+}
+
+/** Titles for the turn list: "Session start", "Prompt", "Turn 3", "Result"... */
+export function describeTurn(
+  turn: TranscriptTurn,
+  turns: TranscriptTurn[],
+): string {
+  switch (turn.kind) {
+    case "init":
+      return "Session start";
+    case "prompt":
+      // Later user messages were sent from the progress view mid-run
+      return turns.find((t) => t.kind === "prompt") === turn
+        ? "Prompt"
+        : "Steering message";
+    case "result":
+      return "Result";
+    case "assistant": {
+      const responses = turns.filter((t) => t.kind === "assistant");
+      return `Turn ${responses.indexOf(turn) + 1}`;
+    }
+  }
+}
+
+/** A fence longer than any backtick run in the content, so it can't close early. */
+function fence(content: string, language = ""): string {
+  const longest = Math.max(
+    2,
+    ...[...content.matchAll(/`+/g)].map((m) => m[0].length),
+  );
+  const ticks = "`".repeat(longest + 1);
+  return `${ticks}${language}\n${content}\n${ticks}`;
+}
+
+function formatToolCall(
+  call: TranscriptToolCall,
+  expandToolResults: boolean,
+): string {
+  const lines = [
+    `#### ${call.name}${call.isError ? " (error)" : ""}`,
+    "",
+    fence(JSON.stringify(call.input, null, 2), "json"),
+    "",
+  ];
+
+  if (call.result === undefined) {
+    lines.push("_No result — the run ended before the tool returned._");
+    return lines.join("\n");
+  }
+
+  const resultLines = call.result.split("\n");
+  if (expandToolResults || resultLines.length <= COLLAPSED_RESULT_LINES) {
+    lines.push(fence(call.result));
+  } else {
+    lines.push(
+      fence(resultLines.slice(0, COLLAPSED_RESULT_LINES).join("\n")),
+      "",
+      `_${resultLines.length - COLLAPSED_RESULT_LINES} more lines — expand tool results to see them._`,
+    );
+  }
+  return lines.join("\n");
+}
+
+export function formatTurnMarkdown(
+  turn: TranscriptTurn,
+  turns: TranscriptTurn[],
+  options: { expandToolResults: boolean },
+): string {
+  return [
+    `### ${describeTurn(turn, turns)}`,
+    `_${new Date(turn.at).toLocaleString()}_`,
+    turn.text,
+    ...turn.toolCalls.map((call) =>
+      formatToolCall(call, options.expandToolResults),
+    ),
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * The whole transcript as one markdown document, with tool results in full,
+ * for pasting into a PR or an incident review.
+ */
+export function formatTranscriptMarkdown(
+  file: TranscriptFile,
+  turns: TranscriptTurn[],
+): string {
+  return [
+    `## ${file.issueKey} — ${file.label}`,
+    `**Repository:** ${file.repoName} · **Phase:** ${file.phase} · **Model:** ${file.model} · **Started:** ${new Date(file.startedAt).toISOString()}`,
+    ...turns.map((turn) =>
+      formatTurnMarkdown(turn, turns, { expandToolResults: true }),
+    ),
+  ].join("\n\n");
+}